@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+
+type DailyStat = {
+  day: string;
+  clicks: number;
+};
+
+type ProductStat = {
+  product_id: string;
+  title: string;
+  slug: string;
+  category: string | null;
+  clicks: number;
+};
+
+type DimensionStat = {
+  label: string;
+  clicks: number;
+};
+
+type MoverStat = {
+  product_id: string;
+  title: string;
+  slug: string;
+  this_week: number;
+  last_week: number;
+  delta: number;
+};
+
+type RangePreset = "7" | "30" | "90" | "custom";
+
+const presets: { value: RangePreset; label: string }[] = [
+  { value: "7", label: "7 dias" },
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "custom", label: "Personalizado" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateInput(date);
+};
+
+const formatDay = (value: string) => {
+  const [year, month, day] = value.split("-");
+  return year && month && day ? `${day}/${month}` : value;
+};
+
+function BreakdownList({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: DimensionStat[];
+}) {
+  const max = Math.max(1, ...rows.map((row) => Number(row.clicks)));
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">{title}</h2>
+      <div className="mt-4 space-y-2">
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-500">Sem cliques no período.</p>
+        ) : null}
+        {rows.map((row) => (
+          <div key={row.label} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-slate-600">
+              <span className="truncate">{row.label}</span>
+              <span className="font-semibold text-slate-900">{row.clicks}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-slate-100">
+              <div
+                className="h-1.5 rounded-full bg-slate-900"
+                style={{ width: `${(Number(row.clicks) / max) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default function AdminAnalyticsPage() {
+  const [preset, setPreset] = useState<RangePreset>("30");
+  const [startDate, setStartDate] = useState(daysAgo(29));
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [daily, setDaily] = useState<DailyStat[]>([]);
+  const [byProduct, setByProduct] = useState<ProductStat[]>([]);
+  const [byCategory, setByCategory] = useState<DimensionStat[]>([]);
+  const [bySrc, setBySrc] = useState<DimensionStat[]>([]);
+  const [byCamp, setByCamp] = useState<DimensionStat[]>([]);
+  const [movers, setMovers] = useState<MoverStat[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      setError("Período inválido.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const range = {
+      start_at: new Date(`${startDate}T00:00:00`).toISOString(),
+      end_at: new Date(
+        new Date(`${endDate}T00:00:00`).getTime() + DAY_MS
+      ).toISOString(),
+    };
+
+    const [
+      dailyResult,
+      productResult,
+      categoryResult,
+      srcResult,
+      campResult,
+      moversResult,
+    ] = await Promise.all([
+      supabase.rpc("click_stats_daily", range),
+      supabase.rpc("click_stats_by_product", { ...range, result_limit: 20 }),
+      supabase.rpc("click_stats_by_dimension", {
+        ...range,
+        dimension: "category",
+      }),
+      supabase.rpc("click_stats_by_dimension", { ...range, dimension: "src" }),
+      supabase.rpc("click_stats_by_dimension", { ...range, dimension: "camp" }),
+      supabase.rpc("click_top_movers", { result_limit: 10 }),
+    ]);
+
+    const firstError = [
+      dailyResult,
+      productResult,
+      categoryResult,
+      srcResult,
+      campResult,
+      moversResult,
+    ].find((result) => result.error)?.error;
+
+    if (firstError) {
+      setError(firstError.message);
+    } else {
+      setDaily((dailyResult.data ?? []) as DailyStat[]);
+      setByProduct((productResult.data ?? []) as ProductStat[]);
+      setByCategory((categoryResult.data ?? []) as DimensionStat[]);
+      setBySrc((srcResult.data ?? []) as DimensionStat[]);
+      setByCamp((campResult.data ?? []) as DimensionStat[]);
+      setMovers((moversResult.data ?? []) as MoverStat[]);
+    }
+    setLoading(false);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    void fetchStats();
+  }, [fetchStats]);
+
+  const handlePreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value === "custom") return;
+    setStartDate(daysAgo(Number(value) - 1));
+    setEndDate(toDateInput(new Date()));
+  };
+
+  const totals = useMemo(() => {
+    const clicks = daily.reduce((sum, row) => sum + Number(row.clicks), 0);
+    return {
+      clicks,
+      average: daily.length > 0 ? clicks / daily.length : 0,
+      products: byProduct.length,
+    };
+  }, [daily, byProduct]);
+
+  const maxDaily = Math.max(1, ...daily.map((row) => Number(row.clicks)));
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              Cliques nas ofertas
+            </h2>
+            <p className="text-sm text-slate-500">
+              Dados de <code>outbound_clicks</code> registrados pelo /out.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={fetchStats}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Atualizar
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-end gap-3">
+          <div className="flex flex-wrap gap-2">
+            {presets.map((item) => (
+              <button
+                key={item.value}
+                type="button"
+                onClick={() => handlePreset(item.value)}
+                className={`rounded-full px-4 py-1.5 text-xs transition ${
+                  preset === item.value
+                    ? "bg-slate-900 text-white"
+                    : "border border-slate-200 text-slate-600 hover:border-slate-300"
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <label className="text-xs font-medium text-slate-600">
+            De
+            <input
+              type="date"
+              value={startDate}
+              onChange={(event) => {
+                setPreset("custom");
+                setStartDate(event.target.value);
+              }}
+              className="mt-1 block rounded-xl border border-slate-200 px-3 py-1.5 text-sm focus:border-slate-400 focus:outline-none"
+            />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Até
+            <input
+              type="date"
+              value={endDate}
+              onChange={(event) => {
+                setPreset("custom");
+                setEndDate(event.target.value);
+              }}
+              className="mt-1 block rounded-xl border border-slate-200 px-3 py-1.5 text-sm focus:border-slate-400 focus:outline-none"
+            />
+          </label>
+        </div>
+
+        {error ? (
+          <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+            {error}
+          </div>
+        ) : null}
+
+        <div className="mt-6 grid gap-4 sm:grid-cols-3">
+          <div className="rounded-2xl border border-slate-200 bg-slate-50 px-5 py-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Cliques
+            </p>
+            <p className="mt-2 text-2xl font-semibold text-slate-900">
+              {totals.clicks}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-slate-200 bg-slate-50 px-5 py-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Média por dia
+            </p>
+            <p className="mt-2 text-2xl font-semibold text-slate-900">
+              {totals.average.toFixed(1).replace(".", ",")}
+            </p>
+          </div>
+          <div className="rounded-2xl border border-slate-200 bg-slate-50 px-5 py-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">
+              Produtos clicados (top 20)
+            </p>
+            <p className="mt-2 text-2xl font-semibold text-slate-900">
+              {totals.products}
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          {loading ? (
+            <p className="text-sm text-slate-500">Carregando métricas...</p>
+          ) : (
+            <div className="flex h-40 items-end gap-1">
+              {daily.map((row) => (
+                <div
+                  key={row.day}
+                  className="group relative flex h-full flex-1 items-end"
+                  title={`${formatDay(row.day)}: ${row.clicks} cliques`}
+                >
+                  <div
+                    className="w-full rounded-t bg-slate-900/80 transition group-hover:bg-slate-900"
+                    style={{
+                      height: `${(Number(row.clicks) / maxDaily) * 100}%`,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {daily.length > 0 ? (
+            <div className="mt-2 flex justify-between text-[11px] text-slate-400">
+              <span>{formatDay(daily[0].day)}</span>
+              <span>{formatDay(daily[daily.length - 1].day)}</span>
+            </div>
+          ) : null}
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Em alta: esta semana x semana passada
+        </h2>
+        <p className="text-sm text-slate-500">
+          Comparação dos últimos 7 dias com os 7 dias anteriores.
+        </p>
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Produto</th>
+                <th className="py-2 pr-4 font-medium">Esta semana</th>
+                <th className="py-2 pr-4 font-medium">Semana passada</th>
+                <th className="py-2 font-medium">Variação</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {movers.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="py-3 text-sm text-slate-500">
+                    Sem cliques nas últimas duas semanas.
+                  </td>
+                </tr>
+              ) : null}
+              {movers.map((mover) => (
+                <tr key={mover.product_id}>
+                  <td className="py-2 pr-4">
+                    <a
+                      href={`/p/${mover.slug}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-slate-700 hover:text-slate-900"
+                    >
+                      {mover.title}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-4 text-slate-900">{mover.this_week}</td>
+                  <td className="py-2 pr-4 text-slate-500">{mover.last_week}</td>
+                  <td
+                    className={`py-2 font-semibold ${
+                      Number(mover.delta) > 0
+                        ? "text-emerald-600"
+                        : Number(mover.delta) < 0
+                          ? "text-rose-600"
+                          : "text-slate-500"
+                    }`}
+                  >
+                    {Number(mover.delta) > 0 ? `+${mover.delta}` : mover.delta}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Produtos mais clicados
+        </h2>
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Produto</th>
+                <th className="py-2 pr-4 font-medium">Categoria</th>
+                <th className="py-2 font-medium">Cliques</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {byProduct.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="py-3 text-sm text-slate-500">
+                    Sem cliques no período.
+                  </td>
+                </tr>
+              ) : null}
+              {byProduct.map((row) => (
+                <tr key={row.product_id}>
+                  <td className="py-2 pr-4">
+                    <a
+                      href={`/p/${row.slug}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-slate-700 hover:text-slate-900"
+                    >
+                      {row.title}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-4 text-slate-500">
+                    {row.category ?? "-"}
+                  </td>
+                  <td className="py-2 font-semibold text-slate-900">
+                    {row.clicks}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <BreakdownList title="Por categoria" rows={byCategory} />
+        <BreakdownList title="Por origem (src)" rows={bySrc} />
+        <BreakdownList title="Por campanha (camp)" rows={byCamp} />
+      </div>
+    </div>
+  );
+}
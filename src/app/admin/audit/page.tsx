@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { parsePriceText } from "@/lib/pricing";
+import { isUuid } from "@/lib/validation";
+import type { AuditAction, AuditLogEntry } from "@/lib/types";
+
+const PAGE_LIMIT = 100;
+
+const entityOptions = [
+  { value: "all", label: "Todas as entidades" },
+  { value: "products", label: "Produtos" },
+  { value: "categories", label: "Categorias" },
+  { value: "collections", label: "Listas" },
+  { value: "collection_items", label: "Itens de listas" },
+  { value: "home_banners", label: "Banners" },
+  { value: "product_copies", label: "Copys" },
+];
+
+const actionLabels: Record<AuditAction, string> = {
+  insert: "Criou",
+  update: "Editou",
+  delete: "Removeu",
+};
+
+const actionStyles: Record<AuditAction, string> = {
+  insert: "bg-emerald-50 text-emerald-700",
+  update: "bg-sky-50 text-sky-700",
+  delete: "bg-rose-50 text-rose-700",
+};
+
+// Derived by triggers, click tracking, the link checker, enrichment or the
+// category classifier, so restoring them would only rewind counters, price
+// stats and bookkeeping.
+const restoreSkippedFields = [
+  "updated_at",
+  "click_count",
+  "price_cents",
+  "previous_price",
+  "price_changed_at",
+  "lowest_price_30d",
+  "link_status",
+  "link_http_status",
+  "link_error",
+  "link_checked_at",
+  "link_failure_streak",
+  "enrichment",
+  "enriched_at",
+  "category_suggestion",
+  "category_confidence",
+];
+
+const getEntityLabel = (tableName: string) =>
+  entityOptions.find((option) => option.value === tableName)?.label ??
+  tableName;
+
+const getRowLabel = (entry: AuditLogEntry) => {
+  const data = entry.after_data ?? entry.before_data ?? {};
+  const label = data.title ?? data.name ?? data.code ?? data.variant;
+  return typeof label === "string" && label ? label : entry.row_id ?? "—";
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 140 ? `${text.slice(0, 140)}...` : text;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("pt-BR", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+export default function AdminAuditPage() {
+  const { canEdit } = useAdminRole();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [entity, setEntity] = useState("all");
+  const [actorFilter, setActorFilter] = useState("");
+  const [rowFilter, setRowFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    let query = supabase
+      .from("audit_log")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(PAGE_LIMIT);
+
+    if (entity !== "all") {
+      query = query.eq("table_name", entity);
+    }
+    const actor = actorFilter.trim();
+    if (actor) {
+      query = query.ilike("actor_email", `%${actor}%`);
+    }
+    const rowId = rowFilter.trim();
+    if (isUuid(rowId)) {
+      query = query.eq("row_id", rowId);
+    }
+
+    const { data, error: fetchError } = await query;
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setEntries((data ?? []) as AuditLogEntry[]);
+    }
+    setLoading(false);
+  }, [entity, actorFilter, rowFilter]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const rowParam = params.get("row");
+    const tableParam = params.get("table");
+    if (rowParam) setRowFilter(rowParam);
+    if (tableParam) setEntity(tableParam);
+  }, []);
+
+  useEffect(() => {
+    void fetchEntries();
+  }, [fetchEntries]);
+
+  // A restored price is a price change like any other: without a history
+  // row the price-drop badge and the 30-day low keep the replaced price.
+  const recordRestoredPrice = async (productId: string, priceText: unknown) => {
+    if (typeof priceText !== "string" || !priceText) return;
+    const { error: historyError } = await supabase
+      .from("price_history")
+      .insert({
+        product_id: productId,
+        price_text: priceText,
+        price: parsePriceText(priceText),
+        source: "admin",
+      });
+    if (historyError) {
+      setError(`Historico de precos: ${historyError.message}`);
+    }
+  };
+
+  const restoreDeleted = async (entry: AuditLogEntry) => {
+    const confirmed = window.confirm(
+      "Deseja recriar este produto com os dados removidos?"
+    );
+    if (!confirmed) return;
+
+    setRestoringId(entry.id);
+    setMessage(null);
+    setError(null);
+
+    const { error: restoreError } = await supabase
+      .from("products")
+      .upsert({ ...entry.before_data }, { onConflict: "id" });
+
+    if (restoreError) {
+      setError(
+        restoreError.code === "23505"
+          ? "Outro produto já usa o mesmo slug ou ID externo."
+          : restoreError.message
+      );
+    } else {
+      if (entry.row_id) {
+        await recordRestoredPrice(entry.row_id, entry.before_data?.price_text);
+      }
+      setMessage("Produto restaurado.");
+      await fetchEntries();
+    }
+    setRestoringId(null);
+  };
+
+  const handleRestore = async (entry: AuditLogEntry) => {
+    if (!entry.before_data) return;
+    if (entry.action === "delete") {
+      await restoreDeleted(entry);
+      return;
+    }
+
+    // Only the fields this change touched go back, so later edits to other
+    // fields (prices, enrichment) survive.
+    const fields = entry.changed_fields.filter(
+      (field) => !restoreSkippedFields.includes(field)
+    );
+    if (fields.length === 0 || !entry.row_id) {
+      setError("Esta alteração só mudou campos calculados; nada a restaurar.");
+      return;
+    }
+
+    setMessage(null);
+    setError(null);
+
+    const { data: current, error: currentError } = await supabase
+      .from("products")
+      .select(fields.join(", "))
+      .eq("id", entry.row_id)
+      .maybeSingle();
+
+    if (currentError || !current) {
+      setError(currentError?.message ?? "O produto não existe mais.");
+      return;
+    }
+
+    const currentData = current as unknown as Record<string, unknown>;
+    const changedSince = fields.filter(
+      (field) =>
+        JSON.stringify(currentData[field] ?? null) !==
+        JSON.stringify(entry.after_data?.[field] ?? null)
+    );
+    const confirmed = window.confirm(
+      changedSince.length > 0
+        ? `Estes campos mudaram de novo depois desta alteração e serão sobrescritos: ${changedSince.join(", ")}. Deseja restaurar ${fields.join(", ")} mesmo assim?`
+        : `Deseja restaurar ${fields.join(", ")} para os valores anteriores a esta alteração?`
+    );
+    if (!confirmed) return;
+
+    setRestoringId(entry.id);
+
+    const payload = Object.fromEntries(
+      fields.map((field) => [field, entry.before_data?.[field] ?? null])
+    );
+    const { error: restoreError } = await supabase
+      .from("products")
+      .update(payload)
+      .eq("id", entry.row_id);
+
+    if (restoreError) {
+      setError(
+        restoreError.code === "23505"
+          ? "Outro produto já usa o mesmo slug ou ID externo."
+          : restoreError.message
+      );
+    } else {
+      if (fields.includes("price_text")) {
+        await recordRestoredPrice(entry.row_id, payload.price_text);
+      }
+      setMessage("Produto restaurado.");
+      await fetchEntries();
+    }
+    setRestoringId(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Auditoria</h2>
+            <p className="text-sm text-slate-500">
+              Alterações em produtos, listas, banners e copys, registradas pelo
+              banco.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={fetchEntries}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Atualizar
+          </button>
+        </div>
+
+        <div className="mt-6 grid gap-3 md:grid-cols-3">
+          <label className="text-xs font-medium text-slate-600">
+            Entidade
+            <select
+              value={entity}
+              onChange={(event) => setEntity(event.target.value)}
+              className="mt-1 block w-full rounded-xl border border-slate-200 px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            >
+              {entityOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            Usuário
+            <input
+              type="text"
+              value={actorFilter}
+              onChange={(event) => setActorFilter(event.target.value)}
+              placeholder="Filtrar por e-mail"
+              className="mt-1 block w-full rounded-xl border border-slate-200 px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            ID do registro
+            <input
+              type="text"
+              value={rowFilter}
+              onChange={(event) => setRowFilter(event.target.value)}
+              placeholder="uuid do produto, lista..."
+              className="mt-1 block w-full rounded-xl border border-slate-200 px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            />
+          </label>
+        </div>
+
+        {message ? (
+          <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+            {message}
+          </div>
+        ) : null}
+        {error ? (
+          <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+            {error}
+          </div>
+        ) : null}
+      </section>
+
+      <section className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-slate-500">Carregando histórico...</p>
+        ) : null}
+        {!loading && entries.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
+            Nenhuma alteração encontrada com esses filtros.
+          </div>
+        ) : null}
+        {entries.map((entry) => {
+          const canRestore =
+            entry.table_name === "products" &&
+            entry.action !== "insert" &&
+            Boolean(entry.before_data);
+
+          return (
+            <article
+              key={entry.id}
+              className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span
+                      className={`rounded-full px-2.5 py-0.5 font-semibold ${actionStyles[entry.action]}`}
+                    >
+                      {actionLabels[entry.action]}
+                    </span>
+                    <span className="text-slate-500">
+                      {getEntityLabel(entry.table_name)}
+                    </span>
+                    <span className="text-slate-400">
+                      {formatDate(entry.created_at)}
+                    </span>
+                  </div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {getRowLabel(entry)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {entry.actor_email ?? "Sistema / API"}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {entry.row_id ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEntity(entry.table_name);
+                        setRowFilter(entry.row_id ?? "");
+                      }}
+                      className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                    >
+                      Ver histórico
+                    </button>
+                  ) : null}
+                  {canRestore ? (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(entry)}
+                      disabled={restoringId === entry.id || !canEdit}
+                      className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+                    >
+                      {restoringId === entry.id
+                        ? "Restaurando..."
+                        : entry.action === "delete"
+                          ? "Restaurar produto"
+                          : "Restaurar versão anterior"}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              {entry.action === "update" ? (
+                <div className="mt-4 overflow-x-auto">
+                  <table className="w-full text-left text-xs">
+                    <thead className="uppercase tracking-wide text-slate-400">
+                      <tr>
+                        <th className="py-1.5 pr-4 font-medium">Campo</th>
+                        <th className="py-1.5 pr-4 font-medium">Antes</th>
+                        <th className="py-1.5 font-medium">Depois</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {entry.changed_fields.map((field) => (
+                        <tr key={field}>
+                          <td className="py-1.5 pr-4 font-medium text-slate-700">
+                            {field}
+                          </td>
+                          <td className="break-all py-1.5 pr-4 text-rose-700">
+                            {formatValue(entry.before_data?.[field])}
+                          </td>
+                          <td className="break-all py-1.5 text-emerald-700">
+                            {formatValue(entry.after_data?.[field])}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+            </article>
+          );
+        })}
+        {entries.length === PAGE_LIMIT ? (
+          <p className="text-center text-xs text-slate-400">
+            Mostrando as {PAGE_LIMIT} alterações mais recentes. Use os filtros
+            para refinar.
+          </p>
+        ) : null}
+      </section>
+    </div>
+  );
+}
@@ -2,6 +2,14 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import {
+  fromDateTimeInput,
+  getScheduleStatus,
+  isValidSchedule,
+  toDateTimeInput,
+} from "@/lib/schedule";
+import type { ScheduleStatus } from "@/lib/schedule";
 import { isValidUrl } from "@/lib/validation";
 import type { HomeBanner } from "@/lib/types";
 
@@ -13,6 +21,8 @@ type BannerFormState = {
   cta_label: string;
   cta_url: string;
   theme: string;
+  publish_at: string;
+  expire_at: string;
   is_active: boolean;
 };
 
@@ -31,10 +41,20 @@ const emptyForm: BannerFormState = {
   cta_label: "",
   cta_url: "",
   theme: "slate",
+  publish_at: "",
+  expire_at: "",
   is_active: true,
 };
 
+const statusBadges: Record<ScheduleStatus, { label: string; className: string }> = {
+  live: { label: "ativo", className: "bg-emerald-100 text-emerald-700" },
+  scheduled: { label: "agendado", className: "bg-sky-100 text-sky-700" },
+  expired: { label: "expirado", className: "bg-amber-100 text-amber-700" },
+  inactive: { label: "pausado", className: "bg-slate-200 text-slate-600" },
+};
+
 export default function AdminBannersPage() {
+  const { canEdit } = useAdminRole();
   const [banners, setBanners] = useState<HomeBanner[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -79,6 +99,14 @@ export default function AdminBannersPage() {
     if (form.cta_url.trim() && !isValidUrl(form.cta_url.trim()) && !form.cta_url.startsWith("/")) {
       return "CTA deve ser uma URL válida ou caminho interno (/c, /listas).";
     }
+    if (
+      !isValidSchedule(
+        fromDateTimeInput(form.publish_at),
+        fromDateTimeInput(form.expire_at)
+      )
+    ) {
+      return "A expiração deve ser depois da publicação.";
+    }
     return null;
   };
 
@@ -102,6 +130,8 @@ export default function AdminBannersPage() {
       cta_label: form.cta_label.trim() || null,
       cta_url: form.cta_url.trim() || null,
       theme: form.theme,
+      publish_at: fromDateTimeInput(form.publish_at),
+      expire_at: fromDateTimeInput(form.expire_at),
       is_active: form.is_active,
     };
 
@@ -145,6 +175,8 @@ export default function AdminBannersPage() {
       cta_label: banner.cta_label ?? "",
       cta_url: banner.cta_url ?? "",
       theme: banner.theme ?? "slate",
+      publish_at: toDateTimeInput(banner.publish_at),
+      expire_at: toDateTimeInput(banner.expire_at),
       is_active: banner.is_active ?? true,
     });
   };
@@ -301,6 +333,30 @@ export default function AdminBannersPage() {
               Banner ativo
             </label>
           </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="text-sm font-medium text-slate-700">
+              Publicar em (opcional)
+              <input
+                type="datetime-local"
+                value={form.publish_at}
+                onChange={(event) =>
+                  handleChange("publish_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Expira em (opcional)
+              <input
+                type="datetime-local"
+                value={form.expire_at}
+                onChange={(event) =>
+                  handleChange("expire_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+          </div>
           <p className="text-xs text-slate-400">Preview: {preview}</p>
           {message ? (
             <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
@@ -314,7 +370,7 @@ export default function AdminBannersPage() {
           ) : null}
           <button
             type="submit"
-            disabled={saving}
+            disabled={saving || !canEdit}
             className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
           >
             {saving
@@ -362,15 +418,13 @@ export default function AdminBannersPage() {
                   <h3 className="text-base font-semibold text-slate-900">
                     {banner.title}
                   </h3>
-                  {banner.is_active ? (
-                    <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-[11px] uppercase tracking-wide text-emerald-700">
-                      ativo
-                    </span>
-                  ) : (
-                    <span className="rounded-full bg-slate-200 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
-                      pausado
-                    </span>
-                  )}
+                  <span
+                    className={`rounded-full px-2.5 py-1 text-[11px] uppercase tracking-wide ${
+                      statusBadges[getScheduleStatus(banner)].className
+                    }`}
+                  >
+                    {statusBadges[getScheduleStatus(banner)].label}
+                  </span>
                 </div>
                 <p className="text-xs text-slate-500">
                   {banner.subtitle || "Sem subtítulo"}
@@ -380,7 +434,7 @@ export default function AdminBannersPage() {
                 <button
                   type="button"
                   onClick={() => handleMove(index, -1)}
-                  disabled={saving || index === 0}
+                  disabled={saving || index === 0 || !canEdit}
                   className="rounded-full border border-slate-200 px-2.5 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-40"
                 >
                   ↑
@@ -388,7 +442,7 @@ export default function AdminBannersPage() {
                 <button
                   type="button"
                   onClick={() => handleMove(index, 1)}
-                  disabled={saving || index === banners.length - 1}
+                  disabled={saving || index === banners.length - 1 || !canEdit}
                   className="rounded-full border border-slate-200 px-2.5 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-40"
                 >
                   ↓
@@ -403,7 +457,8 @@ export default function AdminBannersPage() {
                 <button
                   type="button"
                   onClick={() => handleDelete(banner.id)}
-                  className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700"
+                  disabled={!canEdit}
+                  className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
                 >
                   Excluir
                 </button>
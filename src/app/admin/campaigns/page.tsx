@@ -0,0 +1,486 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { slugify } from "@/lib/slugify";
+import {
+  CAMPAIGN_CHANNELS,
+  buildInternalLink,
+  buildTrackedPath,
+  getChannelLabel,
+  type TrackedLinkMode,
+} from "@/lib/campaigns";
+import type { Campaign, Product } from "@/lib/types";
+
+type CampaignWithClicks = Campaign & {
+  outbound_clicks?: { count: number }[];
+};
+
+type CampaignFormState = {
+  id?: string;
+  name: string;
+  slug: string;
+  channel: string;
+  group_name: string;
+  campaign_date: string;
+  is_active: boolean;
+};
+
+const emptyForm: CampaignFormState = {
+  name: "",
+  slug: "",
+  channel: "whatsapp",
+  group_name: "",
+  campaign_date: "",
+  is_active: true,
+};
+
+const getClickCount = (campaign: CampaignWithClicks) =>
+  campaign.outbound_clicks?.[0]?.count ?? 0;
+
+export default function AdminCampaignsPage() {
+  const { canEdit } = useAdminRole();
+  const [campaigns, setCampaigns] = useState<CampaignWithClicks[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<CampaignFormState>(emptyForm);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [builderCampaignId, setBuilderCampaignId] = useState("");
+  const [builderProductId, setBuilderProductId] = useState("");
+  const [builderMode, setBuilderMode] = useState<TrackedLinkMode>("out");
+  const [productFilter, setProductFilter] = useState("");
+
+  const isEditing = Boolean(form.id);
+
+  const fetchCampaigns = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await supabase
+      .from("campaigns")
+      .select("*, outbound_clicks(count)")
+      .eq("outbound_clicks.is_unique", true)
+      .order("created_at", { ascending: false });
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setCampaigns((data ?? []) as CampaignWithClicks[]);
+    }
+    setLoading(false);
+  }, []);
+
+  const fetchProducts = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from("products")
+      .select("id, title, slug, is_active")
+      .order("created_at", { ascending: false });
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setProducts((data ?? []) as Product[]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchCampaigns();
+    void fetchProducts();
+  }, [fetchCampaigns, fetchProducts]);
+
+  const handleChange = (
+    field: keyof CampaignFormState,
+    value: string | boolean
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+  };
+
+  const suggestedSlug = useMemo(
+    () =>
+      slugify(
+        [form.name, form.group_name, form.campaign_date]
+          .filter(Boolean)
+          .join(" ")
+      ),
+    [form.name, form.group_name, form.campaign_date]
+  );
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const slug = slugify(form.slug) || suggestedSlug;
+    if (!form.name.trim()) {
+      setError("Nome é obrigatório.");
+      return;
+    }
+    if (!slug) {
+      setError("Identificador (camp) inválido.");
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      name: form.name.trim(),
+      slug,
+      channel: form.channel,
+      group_name: form.group_name.trim() || null,
+      campaign_date: form.campaign_date || null,
+      is_active: form.is_active,
+    };
+
+    const { error: saveError } =
+      isEditing && form.id
+        ? await supabase.from("campaigns").update(payload).eq("id", form.id)
+        : await supabase.from("campaigns").insert(payload);
+
+    if (saveError) {
+      setError(
+        saveError.code === "23505"
+          ? "Já existe uma campanha com esse identificador."
+          : saveError.message
+      );
+    } else {
+      setMessage(isEditing ? "Campanha atualizada." : "Campanha criada.");
+      resetForm();
+      await fetchCampaigns();
+    }
+
+    setSaving(false);
+  };
+
+  const handleEdit = (campaign: Campaign) => {
+    setForm({
+      id: campaign.id,
+      name: campaign.name ?? "",
+      slug: campaign.slug ?? "",
+      channel: campaign.channel ?? "whatsapp",
+      group_name: campaign.group_name ?? "",
+      campaign_date: campaign.campaign_date ?? "",
+      is_active: campaign.is_active ?? true,
+    });
+  };
+
+  const handleDelete = async (campaignId: string) => {
+    const confirmed = window.confirm(
+      "Deseja remover esta campanha? Os cliques continuam registrados."
+    );
+    if (!confirmed) return;
+
+    const { error: deleteError } = await supabase
+      .from("campaigns")
+      .delete()
+      .eq("id", campaignId);
+
+    if (deleteError) {
+      setError(deleteError.message);
+    } else {
+      setMessage("Campanha removida.");
+      await fetchCampaigns();
+    }
+  };
+
+  const filteredProducts = useMemo(() => {
+    const term = productFilter.trim().toLowerCase();
+    return term
+      ? products.filter((product) => product.title.toLowerCase().includes(term))
+      : products;
+  }, [products, productFilter]);
+
+  const builderCampaign =
+    campaigns.find((campaign) => campaign.id === builderCampaignId) ?? null;
+  const builderProduct =
+    products.find((product) => product.id === builderProductId) ?? null;
+  const builderLink =
+    builderCampaign && builderProduct
+      ? buildInternalLink(
+          buildTrackedPath(
+            builderProduct.slug,
+            builderMode,
+            builderCampaign.channel,
+            builderCampaign
+          )
+        )
+      : "";
+
+  const handleCopyLink = async () => {
+    if (!builderLink) return;
+    try {
+      await navigator.clipboard.writeText(builderLink);
+      setMessage("Link copiado para a área de transferência.");
+    } catch {
+      setError("Nao foi possivel copiar. Tente novamente.");
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              {isEditing ? "Editar campanha" : "Nova campanha"}
+            </h2>
+            <p className="text-sm text-slate-500">
+              Cada grupo de WhatsApp ou post do Instagram vira uma campanha com
+              links rastreados.
+            </p>
+          </div>
+          {isEditing ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Cancelar edição
+            </button>
+          ) : null}
+        </div>
+        <form className="mt-6 grid gap-4" onSubmit={handleSubmit}>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="text-sm font-medium text-slate-700">
+              Nome
+              <input
+                type="text"
+                value={form.name}
+                onChange={(event) => handleChange("name", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Ex: Black Friday"
+                required
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Canal
+              <select
+                value={form.channel}
+                onChange={(event) => handleChange("channel", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              >
+                {CAMPAIGN_CHANNELS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-slate-700">
+              Grupo / post
+              <input
+                type="text"
+                value={form.group_name}
+                onChange={(event) =>
+                  handleChange("group_name", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Ex: Grupo Ofertas SP"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Data
+              <input
+                type="date"
+                value={form.campaign_date}
+                onChange={(event) =>
+                  handleChange("campaign_date", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Identificador (camp)
+              <input
+                type="text"
+                value={form.slug}
+                onChange={(event) => handleChange("slug", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder={suggestedSlug || "gerado automaticamente"}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(event) => handleChange("is_active", event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-slate-900"
+            />
+            Campanha ativa (aparece no gerador de copys)
+          </label>
+          {message ? (
+            <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+              {message}
+            </div>
+          ) : null}
+          {error ? (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+              {error}
+            </div>
+          ) : null}
+          <button
+            type="submit"
+            disabled={saving || !canEdit}
+            className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving
+              ? "Salvando..."
+              : isEditing
+                ? "Atualizar campanha"
+                : "Criar campanha"}
+          </button>
+        </form>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Gerar link</h2>
+        <p className="text-sm text-slate-500">
+          Escolha a campanha e o produto para montar o link rastreado.
+        </p>
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <select
+            value={builderCampaignId}
+            onChange={(event) => setBuilderCampaignId(event.target.value)}
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            <option value="">Selecione a campanha</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+          <div className="grid gap-2">
+            <input
+              type="text"
+              value={productFilter}
+              onChange={(event) => setProductFilter(event.target.value)}
+              placeholder="Filtrar produto"
+              className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            />
+            <select
+              value={builderProductId}
+              onChange={(event) => setBuilderProductId(event.target.value)}
+              className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            >
+              <option value="">Selecione o produto</option>
+              {filteredProducts.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.title}
+                  {product.is_active ? "" : " (rascunho)"}
+                </option>
+              ))}
+            </select>
+          </div>
+          <select
+            value={builderMode}
+            onChange={(event) =>
+              setBuilderMode(event.target.value as TrackedLinkMode)
+            }
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            <option value="out">Direto para a loja (/out)</option>
+            <option value="go">Página intermediária (/go)</option>
+          </select>
+        </div>
+        {builderLink ? (
+          <div className="mt-4 flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
+            <code className="flex-1 break-all text-xs text-slate-700">
+              {builderLink}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Copiar
+            </button>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Campanhas</h2>
+            <p className="text-sm text-slate-500">
+              Cliques registrados pelo /out com o identificador da campanha.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={fetchCampaigns}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Atualizar
+          </button>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          {loading ? (
+            <p className="text-sm text-slate-500">Carregando campanhas...</p>
+          ) : null}
+          {!loading && campaigns.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Nenhuma campanha criada ainda.
+            </p>
+          ) : null}
+          {campaigns.map((campaign) => (
+            <div
+              key={campaign.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3"
+            >
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="text-base font-semibold text-slate-900">
+                    {campaign.name}
+                  </h3>
+                  <span className="rounded-full bg-slate-200 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
+                    {getChannelLabel(campaign.channel)}
+                  </span>
+                  {!campaign.is_active ? (
+                    <span className="rounded-full bg-slate-200 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
+                      pausada
+                    </span>
+                  ) : null}
+                </div>
+                <p className="text-xs text-slate-500">
+                  camp={campaign.slug}
+                  {campaign.group_name ? ` · ${campaign.group_name}` : ""}
+                  {campaign.campaign_date ? ` · ${campaign.campaign_date}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-semibold text-slate-900">
+                  {getClickCount(campaign)} cliques
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleEdit(campaign)}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                >
+                  Editar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(campaign.id)}
+                  disabled={!canEdit}
+                  className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
+import { getDescendantIds } from "@/lib/categories";
+import { slugify } from "@/lib/slugify";
+import type { Category } from "@/lib/types";
+
+type CategoryFormState = {
+  id?: string;
+  name: string;
+  slug: string;
+  parent_id: string;
+  icon: string;
+  description: string;
+  sort_order: string;
+  is_active: boolean;
+};
+
+const emptyForm: CategoryFormState = {
+  name: "",
+  slug: "",
+  parent_id: "",
+  icon: "",
+  description: "",
+  sort_order: "0",
+  is_active: true,
+};
+
+export default function AdminCategoriesPage() {
+  const { canEdit } = useAdminRole();
+  const {
+    categories,
+    options,
+    error: loadError,
+    reload,
+  } = useCategoryOptions();
+  const [productCounts, setProductCounts] = useState<Map<string, number>>(
+    new Map()
+  );
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<CategoryFormState>(emptyForm);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = Boolean(form.id);
+
+  const fetchCounts = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from("categories")
+      .select("id, products(count)");
+
+    if (fetchError) {
+      setError(fetchError.message);
+      return;
+    }
+    setProductCounts(
+      new Map(
+        (
+          (data ?? []) as { id: string; products?: { count: number }[] }[]
+        ).map((row) => [row.id, row.products?.[0]?.count ?? 0])
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    void fetchCounts();
+  }, [fetchCounts]);
+
+  // A category cannot move under itself or one of its own subcategories.
+  const parentOptions = useMemo(() => {
+    if (!form.id) return options;
+    const blocked = getDescendantIds(categories, form.id);
+    return options.filter((option) => !blocked.includes(option.id));
+  }, [options, categories, form.id]);
+
+  const handleChange = (
+    field: keyof CategoryFormState,
+    value: string | boolean
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+  };
+
+  const refresh = async () => {
+    await Promise.all([reload(), fetchCounts()]);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const name = form.name.trim();
+    const slug = slugify(form.slug) || slugify(name);
+    const sortOrder = Number(form.sort_order || 0);
+    if (!name) {
+      setError("Nome é obrigatório.");
+      return;
+    }
+    if (!slug) {
+      setError("Slug inválido.");
+      return;
+    }
+    if (!Number.isInteger(sortOrder)) {
+      setError("Ordem deve ser um número inteiro.");
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      name,
+      slug,
+      parent_id: form.parent_id || null,
+      icon: form.icon.trim() || null,
+      description: form.description.trim() || null,
+      sort_order: sortOrder,
+      is_active: form.is_active,
+    };
+
+    const { error: saveError } =
+      isEditing && form.id
+        ? await supabase.from("categories").update(payload).eq("id", form.id)
+        : await supabase.from("categories").insert(payload);
+
+    if (saveError) {
+      setError(
+        saveError.code === "23505"
+          ? "Já existe uma categoria com esse nome ou slug."
+          : saveError.message.includes("category_cycle")
+            ? "Uma categoria não pode ficar dentro de uma subcategoria dela."
+            : saveError.message
+      );
+    } else {
+      setMessage(isEditing ? "Categoria atualizada." : "Categoria criada.");
+      resetForm();
+      await refresh();
+    }
+
+    setSaving(false);
+  };
+
+  const handleEdit = (category: Category) => {
+    setMessage(null);
+    setError(null);
+    setForm({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      parent_id: category.parent_id ?? "",
+      icon: category.icon ?? "",
+      description: category.description ?? "",
+      sort_order: String(category.sort_order),
+      is_active: category.is_active,
+    });
+  };
+
+  const handleDelete = async (category: Category) => {
+    const count = productCounts.get(category.id) ?? 0;
+    const confirmed = window.confirm(
+      `Remover ${category.name}? ${count} produtos ficam sem categoria, as subcategorias sobem um nível e a regra de categoria é apagada.`
+    );
+    if (!confirmed) return;
+
+    const { error: deleteError } = await supabase
+      .from("categories")
+      .delete()
+      .eq("id", category.id);
+
+    if (deleteError) {
+      setError(deleteError.message);
+    } else {
+      setMessage("Categoria removida.");
+      if (form.id === category.id) resetForm();
+      await refresh();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              {isEditing ? "Editar categoria" : "Nova categoria"}
+            </h2>
+            <p className="text-sm text-slate-500">
+              Categorias e subcategorias de /c. A descrição aparece na página
+              da categoria e nos resultados de busca.
+            </p>
+          </div>
+          {isEditing ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Cancelar edição
+            </button>
+          ) : null}
+        </div>
+        <form className="mt-6 grid gap-4" onSubmit={handleSubmit}>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-slate-700">
+              Nome
+              <input
+                type="text"
+                value={form.name}
+                onChange={(event) => handleChange("name", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Ex: Fones de ouvido"
+                required
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Slug
+              <input
+                type="text"
+                value={form.slug}
+                onChange={(event) => handleChange("slug", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder={slugify(form.name) || "gerado automaticamente"}
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Categoria pai
+              <select
+                value={form.parent_id}
+                onChange={(event) =>
+                  handleChange("parent_id", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              >
+                <option value="">Nenhuma (categoria principal)</option>
+                {parentOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-[1fr_1fr_2fr]">
+            <label className="text-sm font-medium text-slate-700">
+              Ícone
+              <input
+                type="text"
+                value={form.icon}
+                onChange={(event) => handleChange("icon", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Ex: 🎧"
+                maxLength={8}
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Ordem
+              <input
+                type="number"
+                value={form.sort_order}
+                onChange={(event) =>
+                  handleChange("sort_order", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-3 self-end pb-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(event) =>
+                  handleChange("is_active", event.target.checked)
+                }
+                className="h-4 w-4 rounded border-slate-300 text-slate-900"
+              />
+              Categoria ativa (aparece na vitrine)
+            </label>
+          </div>
+          <label className="text-sm font-medium text-slate-700">
+            Descrição (SEO)
+            <textarea
+              value={form.description}
+              onChange={(event) =>
+                handleChange("description", event.target.value)
+              }
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              rows={3}
+              placeholder="Um ou dois parágrafos sobre as ofertas desta categoria."
+            />
+          </label>
+          {message ? (
+            <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+              {message}
+            </div>
+          ) : null}
+          {error || loadError ? (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+              {error ?? loadError}
+            </div>
+          ) : null}
+          <button
+            type="submit"
+            disabled={saving || !canEdit}
+            className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving
+              ? "Salvando..."
+              : isEditing
+                ? "Atualizar categoria"
+                : "Criar categoria"}
+          </button>
+        </form>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Categorias</h2>
+            <p className="text-sm text-slate-500">
+              Na ordem em que aparecem na vitrine. A contagem inclui rascunhos
+              e não soma as subcategorias.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Atualizar
+          </button>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          {options.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Nenhuma categoria criada ainda.
+            </p>
+          ) : null}
+          {options.map((option) => (
+            <div
+              key={option.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3"
+              style={{ marginLeft: `${option.depth * 1.5}rem` }}
+            >
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="text-base font-semibold text-slate-900">
+                    {option.icon ? `${option.icon} ` : ""}
+                    {option.name}
+                  </h3>
+                  {!option.is_active ? (
+                    <span className="rounded-full bg-slate-200 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
+                      inativa
+                    </span>
+                  ) : null}
+                </div>
+                <p className="text-xs text-slate-500">
+                  <Link
+                    href={`/c/${option.slug}`}
+                    className="hover:text-slate-700"
+                    target="_blank"
+                  >
+                    /c/{option.slug}
+                  </Link>
+                  {` · ordem ${option.sort_order}`}
+                  {option.description ? " · com descrição" : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-semibold text-slate-900">
+                  {productCounts.get(option.id) ?? 0} produtos
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleEdit(option)}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                >
+                  Editar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(option)}
+                  disabled={!canEdit}
+                  className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
+import type { Product } from "@/lib/types";
+
+const REVIEW_PAGE_SIZE = 100;
+
+type ReviewProduct = Pick<
+  Product,
+  | "id"
+  | "title"
+  | "store_name"
+  | "image_url"
+  | "is_active"
+  | "category_suggestion"
+  | "category_confidence"
+>;
+
+export default function AdminCategoryReviewPage() {
+  const { canEdit } = useAdminRole();
+  const { options: categoryOptions } = useCategoryOptions();
+  const [products, setProducts] = useState<ReviewProduct[]>([]);
+  const [total, setTotal] = useState(0);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError, count } = await supabase
+      .from("products")
+      .select(
+        "id, title, store_name, image_url, is_active, category_suggestion, category_confidence",
+        { count: "exact" }
+      )
+      .is("category", null)
+      .not("category_suggestion", "is", null)
+      .order("category_confidence", { ascending: false })
+      .limit(REVIEW_PAGE_SIZE);
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setProducts((data ?? []) as ReviewProduct[]);
+      setTotal(count ?? 0);
+      setChoices({});
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void fetchQueue();
+  }, [fetchQueue]);
+
+  const removeFromQueue = (id: string) => {
+    setProducts((current) => current.filter((product) => product.id !== id));
+    setTotal((current) => Math.max(0, current - 1));
+  };
+
+  // Setting the category also clears the suggestion (database trigger).
+  const handleApply = async (product: ReviewProduct) => {
+    const category = choices[product.id] ?? product.category_suggestion;
+    if (!category) return;
+    setMessage(null);
+    setError(null);
+    setSavingId(product.id);
+
+    const { error: updateError } = await supabase
+      .from("products")
+      .update({ category, category_source: "manual" })
+      .eq("id", product.id);
+    setSavingId(null);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      setMessage(`"${product.title}" agora está em ${category}.`);
+      removeFromQueue(product.id);
+    }
+  };
+
+  const handleDismiss = async (product: ReviewProduct) => {
+    setMessage(null);
+    setError(null);
+    setSavingId(product.id);
+
+    const { error: updateError } = await supabase
+      .from("products")
+      .update({ category_suggestion: null, category_confidence: null })
+      .eq("id", product.id);
+    setSavingId(null);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      setMessage(`Sugestão descartada para "${product.title}".`);
+      removeFromQueue(product.id);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Revisar categorias
+          </h2>
+          <p className="text-sm text-slate-500">
+            Produtos sem categoria cuja sugestão ficou abaixo da confiança
+            mínima. Aplique, troque ou descarte a sugestão.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void fetchQueue()}
+          disabled={loading}
+          className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      {message ? (
+        <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+          {message}
+        </div>
+      ) : null}
+      {error ? (
+        <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-3">
+        {loading ? (
+          <p className="text-sm text-slate-500">Carregando fila...</p>
+        ) : null}
+        {!loading && products.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            Nenhuma sugestão aguardando revisão.
+          </p>
+        ) : null}
+        {!loading && total > products.length ? (
+          <p className="text-xs text-slate-500">
+            Mostrando {products.length} de {total} produtos, das sugestões mais
+            confiáveis para as menos.
+          </p>
+        ) : null}
+        {products.map((product) => {
+          const confidence = Math.round(
+            (product.category_confidence ?? 0) * 100
+          );
+          return (
+            <div
+              key={product.id}
+              className="flex flex-wrap items-center gap-4 rounded-2xl border border-slate-200 bg-slate-50 p-4"
+            >
+              {product.image_url ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={product.image_url}
+                  alt=""
+                  className="h-14 w-14 rounded-xl object-cover"
+                />
+              ) : (
+                <div className="h-14 w-14 rounded-xl bg-slate-200" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-slate-900">
+                  {product.title}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {product.store_name ?? "Loja não informada"} ·{" "}
+                  {product.is_active ? "Publicado" : "Rascunho"}
+                </p>
+                <div className="mt-2 flex items-center gap-2 text-xs text-slate-600">
+                  <span>
+                    {product.category_suggestion} ({confidence}%)
+                  </span>
+                  <span className="h-1.5 w-24 overflow-hidden rounded-full bg-slate-200">
+                    <span
+                      className="block h-full bg-amber-400"
+                      style={{ width: `${confidence}%` }}
+                    />
+                  </span>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={
+                    choices[product.id] ?? product.category_suggestion ?? ""
+                  }
+                  onChange={(event) =>
+                    setChoices((current) => ({
+                      ...current,
+                      [product.id]: event.target.value,
+                    }))
+                  }
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
+                >
+                  {categoryOptions.map((option) => (
+                    <option key={option.id} value={option.name}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleApply(product)}
+                  disabled={savingId === product.id || !canEdit}
+                  className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+                >
+                  Aplicar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDismiss(product)}
+                  disabled={savingId === product.id || !canEdit}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+                >
+                  Descartar
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
+import {
+  CATEGORY_RULES_SELECT,
+  formatKeywordList,
+  inferCategory,
+  parseKeywordList,
+  parseTermList,
+  scoreCategories,
+} from "@/lib/categories";
+import type { CategoryRule } from "@/lib/types";
+
+type RuleDraft = {
+  keywords: string;
+  negative_keywords: string;
+  min_score: string;
+  is_active: boolean;
+};
+
+const toDraft = (rule: CategoryRule): RuleDraft => ({
+  keywords: formatKeywordList(rule.keywords),
+  negative_keywords: rule.negative_keywords.join(", "),
+  min_score: String(rule.min_score),
+  is_active: rule.is_active,
+});
+
+const parseMinScore = (value: string) => {
+  const parsed = Number(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export default function AdminCategoryRulesPage() {
+  const { canEdit } = useAdminRole();
+  const { options: categoryOptions } = useCategoryOptions();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [newCategory, setNewCategory] = useState("");
+  const [testTitle, setTestTitle] = useState("");
+  const [testStore, setTestStore] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await supabase
+      .from("category_rules")
+      .select(CATEGORY_RULES_SELECT)
+      .order("category", { ascending: true });
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      const loaded = (data ?? []) as CategoryRule[];
+      setRules(loaded);
+      setDrafts(
+        Object.fromEntries(loaded.map((rule) => [rule.id, toDraft(rule)]))
+      );
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void fetchRules();
+  }, [fetchRules]);
+
+  // The console scores against the drafts, so edits can be tried before
+  // saving.
+  const draftRules = useMemo(
+    () =>
+      rules.map((rule) => {
+        const draft = drafts[rule.id] ?? toDraft(rule);
+        return {
+          category: rule.category,
+          keywords: parseKeywordList(draft.keywords),
+          negative_keywords: parseTermList(draft.negative_keywords),
+          min_score: parseMinScore(draft.min_score) ?? rule.min_score,
+          is_active: draft.is_active,
+        };
+      }),
+    [rules, drafts]
+  );
+
+  const testScores = useMemo(
+    () =>
+      testTitle.trim()
+        ? scoreCategories(testTitle, testStore, draftRules)
+        : [],
+    [testTitle, testStore, draftRules]
+  );
+  const testResult = testTitle.trim()
+    ? inferCategory(testTitle, testStore, draftRules)
+    : null;
+
+  const availableCategories = categoryOptions.filter(
+    (option) => !rules.some((rule) => rule.category === option.name)
+  );
+
+  const updateDraft = (
+    id: string,
+    field: keyof RuleDraft,
+    value: string | boolean
+  ) => {
+    setDrafts((current) => ({
+      ...current,
+      [id]: { ...current[id], [field]: value },
+    }));
+  };
+
+  const handleSave = async (rule: CategoryRule) => {
+    const draft = drafts[rule.id];
+    if (!draft) return;
+    setMessage(null);
+    setError(null);
+
+    const minScore = parseMinScore(draft.min_score);
+    if (minScore === null) {
+      setError("Pontuação mínima inválida.");
+      return;
+    }
+
+    setSavingId(rule.id);
+    const { error: saveError } = await supabase
+      .from("category_rules")
+      .update({
+        keywords: parseKeywordList(draft.keywords),
+        negative_keywords: parseTermList(draft.negative_keywords),
+        min_score: minScore,
+        is_active: draft.is_active,
+      })
+      .eq("id", rule.id);
+    setSavingId(null);
+
+    if (saveError) {
+      setError(saveError.message);
+    } else {
+      setMessage(`Regra de ${rule.category} salva.`);
+      await fetchRules();
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newCategory) return;
+    setMessage(null);
+    setError(null);
+
+    const { error: insertError } = await supabase
+      .from("category_rules")
+      .insert({ category: newCategory });
+
+    if (insertError) {
+      setError(
+        insertError.code === "23505"
+          ? "Essa categoria já tem uma regra."
+          : insertError.message
+      );
+    } else {
+      setMessage(`Regra de ${newCategory} criada.`);
+      setNewCategory("");
+      await fetchRules();
+    }
+  };
+
+  const handleDelete = async (rule: CategoryRule) => {
+    const confirmed = window.confirm(
+      `Remover a regra de ${rule.category}? Os produtos mantêm a categoria atual.`
+    );
+    if (!confirmed) return;
+
+    const { error: deleteError } = await supabase
+      .from("category_rules")
+      .delete()
+      .eq("id", rule.id);
+
+    if (deleteError) {
+      setError(deleteError.message);
+    } else {
+      setMessage(`Regra de ${rule.category} removida.`);
+      await fetchRules();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Testar um título
+        </h2>
+        <p className="text-sm text-slate-500">
+          Mostra a pontuação de cada categoria com as regras abaixo, incluindo
+          edições ainda não salvas.
+        </p>
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <input
+            type="text"
+            value={testTitle}
+            onChange={(event) => setTestTitle(event.target.value)}
+            placeholder="Ex: Fone de ouvido Bluetooth TWS"
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none md:col-span-2"
+          />
+          <input
+            type="text"
+            value={testStore}
+            onChange={(event) => setTestStore(event.target.value)}
+            placeholder="Loja (opcional)"
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          />
+        </div>
+        {testTitle.trim() ? (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-slate-700">
+              Resultado:{" "}
+              <span className="font-semibold text-slate-900">
+                {testResult ?? "sem categoria"}
+              </span>
+            </p>
+            {testScores.length === 0 ? (
+              <p className="text-xs text-slate-500">
+                Nenhuma palavra-chave encontrada.
+              </p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <thead className="uppercase tracking-wide text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-3 font-medium">Categoria</th>
+                    <th className="py-2 pr-3 font-medium">Pontos</th>
+                    <th className="py-2 pr-3 font-medium">Palavras</th>
+                    <th className="py-2 font-medium">Bloqueada por</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {testScores.map((entry) => (
+                    <tr
+                      key={entry.category}
+                      className={
+                        entry.eligible ? "text-slate-700" : "text-slate-400"
+                      }
+                    >
+                      <td className="py-2 pr-3 font-medium">
+                        {entry.category}
+                      </td>
+                      <td className="py-2 pr-3">{entry.score}</td>
+                      <td className="py-2 pr-3">
+                        {entry.matched.join(", ") || "—"}
+                      </td>
+                      <td className="py-2 text-rose-600">
+                        {entry.blockedBy.join(", ") || "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : null}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              Regras de categoria
+            </h2>
+            <p className="text-sm text-slate-500">
+              Usadas na importação e em &quot;Categorizar sem categoria&quot;.
+              Palavras separadas por vírgula, com peso opcional
+              (&quot;fone:2&quot;); &quot;decor*&quot; aceita qualquer palavra
+              que comece com &quot;decor&quot;.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={newCategory}
+              onChange={(event) => setNewCategory(event.target.value)}
+              className="rounded-xl border border-slate-200 px-3 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
+            >
+              <option value="">Nova regra para...</option>
+              {availableCategories.map((option) => (
+                <option key={option.id} value={option.name}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={!newCategory || !canEdit}
+              className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+            >
+              Criar regra
+            </button>
+          </div>
+        </div>
+
+        {message ? (
+          <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+            {message}
+          </div>
+        ) : null}
+        {error ? (
+          <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+            {error}
+          </div>
+        ) : null}
+
+        <div className="mt-6 space-y-4">
+          {loading ? (
+            <p className="text-sm text-slate-500">Carregando regras...</p>
+          ) : null}
+          {!loading && rules.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Nenhuma regra cadastrada. Sem regras, a importação não sugere
+              categorias.
+            </p>
+          ) : null}
+          {rules.map((rule) => {
+            const draft = drafts[rule.id] ?? toDraft(rule);
+            return (
+              <div
+                key={rule.id}
+                className="rounded-2xl border border-slate-200 bg-slate-50 p-4"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <h3 className="text-base font-semibold text-slate-900">
+                    {rule.category}
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={draft.is_active}
+                        onChange={(event) =>
+                          updateDraft(rule.id, "is_active", event.target.checked)
+                        }
+                        className="h-4 w-4 rounded border-slate-300 text-slate-900"
+                      />
+                      Ativa
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => handleSave(rule)}
+                      disabled={savingId === rule.id || !canEdit}
+                      className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+                    >
+                      {savingId === rule.id ? "Salvando..." : "Salvar"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      disabled={!canEdit}
+                      className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
+                    >
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 grid gap-3 md:grid-cols-[2fr_1fr_auto]">
+                  <label className="text-xs font-medium text-slate-600">
+                    Palavras-chave (peso)
+                    <textarea
+                      value={draft.keywords}
+                      onChange={(event) =>
+                        updateDraft(rule.id, "keywords", event.target.value)
+                      }
+                      rows={3}
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-slate-600">
+                    Palavras negativas
+                    <textarea
+                      value={draft.negative_keywords}
+                      onChange={(event) =>
+                        updateDraft(
+                          rule.id,
+                          "negative_keywords",
+                          event.target.value
+                        )
+                      }
+                      rows={3}
+                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-slate-600">
+                    Pontuação mínima
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.min_score}
+                      onChange={(event) =>
+                        updateDraft(rule.id, "min_score", event.target.value)
+                      }
+                      className="mt-1 w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                    />
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
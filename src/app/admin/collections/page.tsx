@@ -2,6 +2,14 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import {
+  fromDateTimeInput,
+  getScheduleStatus,
+  isValidSchedule,
+  toDateTimeInput,
+} from "@/lib/schedule";
+import type { ScheduleStatus } from "@/lib/schedule";
 import { slugify } from "@/lib/slugify";
 import { getProductImages } from "@/lib/images";
 import type { Collection, CollectionItem, Product } from "@/lib/types";
@@ -11,6 +19,8 @@ type CollectionFormState = {
   name: string;
   slug: string;
   description: string;
+  publish_at: string;
+  expire_at: string;
   is_active: boolean;
 };
 
@@ -20,10 +30,20 @@ const emptyForm: CollectionFormState = {
   name: "",
   slug: "",
   description: "",
+  publish_at: "",
+  expire_at: "",
   is_active: true,
 };
 
+const statusBadges: Record<ScheduleStatus, { label: string; className: string }> = {
+  live: { label: "Ativa", className: "bg-emerald-100 text-emerald-700" },
+  scheduled: { label: "Agendada", className: "bg-sky-100 text-sky-700" },
+  expired: { label: "Expirada", className: "bg-amber-100 text-amber-700" },
+  inactive: { label: "Pausada", className: "bg-slate-200 text-slate-600" },
+};
+
 export default function AdminCollectionsPage() {
+  const { canEdit } = useAdminRole();
   const [collections, setCollections] = useState<Collection[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [items, setItems] = useState<CollectionItemWithProduct[]>([]);
@@ -60,7 +80,7 @@ export default function AdminCollectionsPage() {
   const fetchProducts = useCallback(async () => {
     const { data, error: fetchError } = await supabase
       .from("products")
-      .select("id, title, slug, image_url, image_urls, is_active, price_text")
+      .select("id, title, slug, image_url, image_urls, image_variants, is_active, price_text")
       .order("created_at", { ascending: false });
 
     if (fetchError) {
@@ -74,7 +94,7 @@ export default function AdminCollectionsPage() {
     const { data, error: fetchError } = await supabase
       .from("collection_items")
       .select(
-        "id, sort_order, collection_id, product_id, product:products (id, title, slug, image_url, image_urls, is_active, price_text)"
+        "id, sort_order, collection_id, product_id, product:products (id, title, slug, image_url, image_urls, image_variants, is_active, price_text)"
       )
       .eq("collection_id", collectionId)
       .order("sort_order", { ascending: true });
@@ -143,11 +163,20 @@ export default function AdminCollectionsPage() {
       return;
     }
 
+    const publishAt = fromDateTimeInput(form.publish_at);
+    const expireAt = fromDateTimeInput(form.expire_at);
+    if (!isValidSchedule(publishAt, expireAt)) {
+      setError("A expiração deve ser depois da publicação.");
+      return;
+    }
+
     setSaving(true);
     const payload = {
       name,
       slug,
       description: form.description.trim() || null,
+      publish_at: publishAt,
+      expire_at: expireAt,
       is_active: form.is_active,
     };
 
@@ -187,6 +216,8 @@ export default function AdminCollectionsPage() {
       name: collection.name,
       slug: collection.slug,
       description: collection.description ?? "",
+      publish_at: toDateTimeInput(collection.publish_at),
+      expire_at: toDateTimeInput(collection.expire_at),
       is_active: collection.is_active,
     });
   };
@@ -367,6 +398,30 @@ export default function AdminCollectionsPage() {
             />
             Lista ativa na home
           </label>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="text-sm font-medium text-slate-700">
+              Publicar em (opcional)
+              <input
+                type="datetime-local"
+                value={form.publish_at}
+                onChange={(event) =>
+                  handleFormChange("publish_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Expira em (opcional)
+              <input
+                type="datetime-local"
+                value={form.expire_at}
+                onChange={(event) =>
+                  handleFormChange("expire_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+          </div>
           {message ? (
             <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
               {message}
@@ -379,7 +434,7 @@ export default function AdminCollectionsPage() {
           ) : null}
           <button
             type="submit"
-            disabled={saving}
+            disabled={saving || !canEdit}
             className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
           >
             {saving
@@ -436,12 +491,10 @@ export default function AdminCollectionsPage() {
                     </h3>
                     <span
                       className={`rounded-full px-2.5 py-1 text-[11px] uppercase tracking-wide ${
-                        collection.is_active
-                          ? "bg-emerald-100 text-emerald-700"
-                          : "bg-slate-200 text-slate-600"
+                        statusBadges[getScheduleStatus(collection)].className
                       }`}
                     >
-                      {collection.is_active ? "Ativa" : "Pausada"}
+                      {statusBadges[getScheduleStatus(collection)].label}
                     </span>
                   </div>
                   <p className="text-xs text-slate-500">/listas/{collection.slug}</p>
@@ -469,7 +522,8 @@ export default function AdminCollectionsPage() {
                   <button
                     type="button"
                     onClick={() => handleDelete(collection.id)}
-                    className="rounded-full border border-rose-200 px-4 py-2 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700"
+                    disabled={!canEdit}
+                    className="rounded-full border border-rose-200 px-4 py-2 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
                   >
                     Excluir
                   </button>
@@ -521,7 +575,7 @@ export default function AdminCollectionsPage() {
                   </p>
                 ) : (
                   availableProducts.slice(0, 20).map((product) => {
-                    const images = getProductImages(product);
+                    const images = getProductImages(product, "thumb");
                     return (
                       <div
                         key={product.id}
@@ -532,7 +586,7 @@ export default function AdminCollectionsPage() {
                             {images[0] ? (
                               // eslint-disable-next-line @next/next/no-img-element
                               <img
-                                src={images[0]}
+                                src={images[0].src}
                                 alt={product.title}
                                 className="h-full w-full object-cover"
                               />
@@ -554,7 +608,7 @@ export default function AdminCollectionsPage() {
                         <button
                           type="button"
                           onClick={() => handleAddProduct(product.id)}
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                           className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
                         >
                           Adicionar
@@ -578,7 +632,9 @@ export default function AdminCollectionsPage() {
                 ) : (
                   items.map((item, index) => {
                     const product = item.product;
-                    const images = product ? getProductImages(product) : [];
+                    const images = product
+                      ? getProductImages(product, "thumb")
+                      : [];
                     return (
                       <div
                         key={item.id}
@@ -589,7 +645,7 @@ export default function AdminCollectionsPage() {
                             {images[0] ? (
                               // eslint-disable-next-line @next/next/no-img-element
                               <img
-                                src={images[0]}
+                                src={images[0].src}
                                 alt={product?.title || "Produto"}
                                 className="h-full w-full object-cover"
                               />
@@ -612,7 +668,7 @@ export default function AdminCollectionsPage() {
                           <button
                             type="button"
                             onClick={() => handleMoveItem(index, -1)}
-                            disabled={index === 0 || savingOrder}
+                            disabled={index === 0 || savingOrder || !canEdit}
                             className="rounded-full border border-slate-200 px-2.5 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-40"
                           >
                             ↑
@@ -620,7 +676,9 @@ export default function AdminCollectionsPage() {
                           <button
                             type="button"
                             onClick={() => handleMoveItem(index, 1)}
-                            disabled={index === items.length - 1 || savingOrder}
+                            disabled={
+                              index === items.length - 1 || savingOrder || !canEdit
+                            }
                             className="rounded-full border border-slate-200 px-2.5 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-40"
                           >
                             ↓
@@ -628,7 +686,7 @@ export default function AdminCollectionsPage() {
                           <button
                             type="button"
                             onClick={() => handleRemoveItem(item.id)}
-                            disabled={saving}
+                            disabled={saving || !canEdit}
                             className="rounded-full border border-rose-200 px-2.5 py-1 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-40"
                           >
                             Remover
@@ -2,13 +2,18 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabase/client";
-import { getOriginalPrice, parsePriceText } from "@/lib/pricing";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { getPriceDrop } from "@/lib/pricing";
 import { getProductImages } from "@/lib/images";
 import { slugify } from "@/lib/slugify";
-import { CATEGORY_OPTIONS } from "@/lib/categories";
-import type { CopyVariant, Product } from "@/lib/types";
-
-type LinkMode = "out" | "affiliate";
+import { getDescendantIds } from "@/lib/categories";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
+import { buildInternalLink, buildTrackedPath } from "@/lib/campaigns";
+import { resolveProductUrl } from "@/lib/linkResolver";
+import { isProductSource } from "@/lib/marketplaces";
+import type { Campaign, CopyVariant, Product } from "@/lib/types";
+
+type LinkMode = "out" | "go" | "affiliate";
 type CopyChannel = "whatsapp" | "instagram" | "stories";
 type CopyTone = "direct" | "enthusiastic" | "premium";
 type CopyUrgency = "low" | "medium" | "high";
@@ -74,24 +79,6 @@ const emojiTags: { keys: string[]; emoji: string }[] = [
   { keys: ["audio", "som", "fone"], emoji: "🎧" },
 ];
 
-function getBaseUrl() {
-  if (typeof window !== "undefined" && window.location?.origin) {
-    return window.location.origin;
-  }
-  const raw = (process.env.NEXT_PUBLIC_SITE_URL ?? "").trim();
-  if (!raw) return "";
-  const normalized = raw.replace(/\/$/, "");
-  if (normalized.startsWith("http://") || normalized.startsWith("https://")) {
-    return normalized;
-  }
-  return `https://${normalized}`;
-}
-
-function buildInternalLink(path: string) {
-  const baseUrl = getBaseUrl();
-  return baseUrl ? `${baseUrl}${path}` : path;
-}
-
 function hashSeed(seed: string) {
   let hash = 0;
   for (let i = 0; i < seed.length; i += 1) {
@@ -124,25 +111,16 @@ function getEmoji(product: Product) {
 
 function buildPriceHighlight(product: Product, channel: CopyChannel) {
   if (!product.price_text) return "";
-  const original = getOriginalPrice(product.price_text, product.slug);
-  if (!original) return product.price_text;
+  const priceDrop = getPriceDrop(product);
+  if (!priceDrop) return product.price_text;
 
-  const originalValue = parsePriceText(original);
-  const currentValue = parsePriceText(product.price_text);
-  const percent =
-    originalValue && currentValue
-      ? Math.round(((originalValue - currentValue) / originalValue) * 100)
-      : null;
+  const { previousPrice, percent } = priceDrop;
 
   if (channel === "whatsapp") {
-    return percent
-      ? `~De ${original}~ por ${product.price_text} (${percent}% OFF)`
-      : `~De ${original}~ por ${product.price_text}`;
+    return `~De ${previousPrice}~ por ${product.price_text} (${percent}% OFF)`;
   }
 
-  return percent
-    ? `De ${original} por ${product.price_text} (${percent}% OFF)`
-    : `De ${original} por ${product.price_text}`;
+  return `De ${previousPrice} por ${product.price_text} (${percent}% OFF)`;
 }
 
 function buildHashtags(product: Product) {
@@ -160,18 +138,27 @@ function buildCopies(
   linkMode: LinkMode,
   channel: CopyChannel,
   tone: CopyTone,
-  urgency: CopyUrgency
+  urgency: CopyUrgency,
+  campaign: Campaign | null
 ): CopyVariant[] {
+  const trackedLink = buildInternalLink(
+    buildTrackedPath(
+      product.slug,
+      linkMode === "go" ? "go" : "out",
+      channel,
+      campaign
+    )
+  );
   let link = "";
 
   if (linkMode === "affiliate") {
-    link = product.affiliate_url || product.origin_url || "";
+    link = resolveProductUrl(product);
   } else {
-    link = buildInternalLink(`/out/${product.slug}?src=whats&camp=default`);
+    link = trackedLink;
   }
 
   if (!link) {
-    link = buildInternalLink(`/out/${product.slug}?src=whats&camp=default`);
+    link = trackedLink;
   }
 
   const emoji = getEmoji(product);
@@ -181,7 +168,7 @@ function buildCopies(
 
   const safeTag =
     (product.tags ?? []).find(
-      (tag) => tag && tag.toLowerCase() !== "shopee"
+      (tag) => tag && !isProductSource(tag.toLowerCase())
     ) ?? "";
   const tagHint = product.category
     ? `✅ Categoria: ${product.category}`
@@ -270,6 +257,8 @@ function buildCopies(
 }
 
 export default function AdminCopysPage() {
+  const { canEdit } = useAdminRole();
+  const { categories, options: categoryOptions } = useCategoryOptions();
   const [products, setProducts] = useState<Product[]>([]);
   const [selectedId, setSelectedId] = useState("");
   const [copies, setCopies] = useState<CopyVariant[]>([]);
@@ -283,20 +272,25 @@ export default function AdminCopysPage() {
   const [urgency, setUrgency] = useState<CopyUrgency>("medium");
   const [filter, setFilter] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaignId, setCampaignId] = useState("");
 
   const filteredProducts = useMemo(() => {
     const term = filter.trim().toLowerCase();
+    const categoryIds =
+      categoryFilter === "all"
+        ? null
+        : getDescendantIds(categories, categoryFilter);
     return products.filter((product) => {
       const matchesTerm = term
         ? product.title.toLowerCase().includes(term)
         : true;
-      const matchesCategory =
-        categoryFilter === "all"
-          ? true
-          : (product.category ?? "") === categoryFilter;
+      const matchesCategory = categoryIds
+        ? categoryIds.includes(product.category_id ?? "")
+        : true;
       return matchesTerm && matchesCategory;
     });
-  }, [products, filter, categoryFilter]);
+  }, [products, filter, categoryFilter, categories]);
 
   const selectedProduct = useMemo(
     () => products.find((product) => product.id === selectedId) ?? null,
@@ -308,7 +302,7 @@ export default function AdminCopysPage() {
     const { data, error: fetchError } = await supabase
       .from("products")
       .select(
-        "id, title, slug, price_text, is_active, affiliate_url, origin_url, image_url, image_urls, tags, category"
+        "id, title, slug, price_text, previous_price, price_changed_at, is_active, affiliate_url, origin_url, source, image_url, image_urls, image_variants, tags, category, category_id"
       )
       .order("created_at", { ascending: false });
 
@@ -327,12 +321,36 @@ export default function AdminCopysPage() {
     void fetchProducts();
   }, [fetchProducts]);
 
+  useEffect(() => {
+    const fetchCampaigns = async () => {
+      const { data } = await supabase
+        .from("campaigns")
+        .select("*")
+        .eq("is_active", true)
+        .order("created_at", { ascending: false });
+      setCampaigns((data ?? []) as Campaign[]);
+    };
+    void fetchCampaigns();
+  }, []);
+
+  const selectedCampaign = useMemo(
+    () => campaigns.find((campaign) => campaign.id === campaignId) ?? null,
+    [campaigns, campaignId]
+  );
+
   const handleGenerate = async () => {
     if (!selectedProduct) return;
     setMessage(null);
     setError(null);
 
-    const generated = buildCopies(selectedProduct, linkMode, channel, tone, urgency);
+    const generated = buildCopies(
+      selectedProduct,
+      linkMode,
+      channel,
+      tone,
+      urgency,
+      selectedCampaign
+    );
     setCopies(generated);
 
     setSaving(true);
@@ -376,7 +394,7 @@ export default function AdminCopysPage() {
   };
 
   const showDraftWarning =
-    selectedProduct && !selectedProduct.is_active && linkMode === "out";
+    selectedProduct && !selectedProduct.is_active && linkMode !== "affiliate";
 
   const showAffiliateWarning =
     selectedProduct && linkMode === "affiliate" && !selectedProduct.affiliate_url;
@@ -420,9 +438,9 @@ export default function AdminCopysPage() {
                 className="min-w-[200px] rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
               >
                 <option value="all">Todas as categorias</option>
-                {CATEGORY_OPTIONS.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
+                {categoryOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
                   </option>
                 ))}
               </select>
@@ -432,8 +450,22 @@ export default function AdminCopysPage() {
                 className="min-w-[200px] rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
               >
                 <option value="out">Link com tracking (/out)</option>
+                <option value="go">Página intermediária (/go)</option>
                 <option value="affiliate">Link direto afiliado</option>
               </select>
+              <select
+                value={campaignId}
+                onChange={(event) => setCampaignId(event.target.value)}
+                disabled={linkMode === "affiliate"}
+                className="min-w-[200px] rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none disabled:opacity-60"
+              >
+                <option value="">Sem campanha (default)</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </select>
               <select
                 value={channel}
                 onChange={(event) => setChannel(event.target.value as CopyChannel)}
@@ -464,7 +496,7 @@ export default function AdminCopysPage() {
               <button
                 type="button"
                 onClick={handleGenerate}
-                disabled={!selectedProduct || saving}
+                disabled={!selectedProduct || saving || !canEdit}
                 className="rounded-xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
               >
                 {saving ? "Gerando..." : "Gerar copys"}
@@ -476,7 +508,7 @@ export default function AdminCopysPage() {
                 <p className="text-sm text-slate-500">Nenhum produto encontrado.</p>
               ) : (
                 filteredProducts.map((product) => {
-                  const images = getProductImages(product);
+                  const images = getProductImages(product, "thumb");
                   const selected = product.id === selectedId;
                   return (
                     <button
@@ -493,7 +525,7 @@ export default function AdminCopysPage() {
                         {images[0] ? (
                           // eslint-disable-next-line @next/next/no-img-element
                           <img
-                            src={images[0]}
+                            src={images[0].src}
                             alt={product.title}
                             className="h-full w-full object-cover"
                           />
@@ -1,696 +1,637 @@
 "use client";
 
-import { useState } from "react";
-import Papa from "papaparse";
+import { useMemo, useState } from "react";
+import Link from "next/link";
 import { supabase } from "@/lib/supabase/client";
-import { isValidUrl } from "@/lib/validation";
-import { slugify } from "@/lib/slugify";
-import { CATEGORY_OPTIONS } from "@/lib/categories";
-
-const expectedHeader = [
-  "Item Id",
-  "Item Name",
-  "Price",
-  "Sales",
-  "Shop Name",
-  "Commission Rate",
-  "Commission",
-  "Product Link",
-  "Offer Link",
-];
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
+import { fetchCategorySuggestions } from "@/lib/categorySuggestionClient";
+import { getRequestErrorMessage } from "@/lib/requestErrors";
+import {
+  createImportJob,
+  driveImportJob,
+  fetchImportResult,
+  getJobProgress,
+  isJobFinished,
+} from "@/lib/importJobClient";
+import { DEFAULT_IMPORTER_ID, getImporter, IMPORTERS } from "@/lib/importers";
+import {
+  buildImportPreview,
+  EXISTING_IMPORT_PRODUCT_SELECT,
+  getImportKey,
+} from "@/lib/importers/preview";
+import type {
+  ExistingImportProduct,
+  ImportPreviewRow,
+  ImportPreviewStatus,
+} from "@/lib/importers/preview";
+import { extractShopeeUrls, MAX_PASTED_LINKS } from "@/lib/shopeeLinks";
+import type { CategorySuggestion, ImportJob, ImportResult } from "@/lib/types";
+
+// Keeps the external_id list inside PostgREST's URL length limit.
+const EXISTING_LOOKUP_BATCH = 200;
+const KEEP_CATEGORY = "__keep__";
+
+const previewStatusLabels: Record<ImportPreviewStatus, string> = {
+  new: "Novo",
+  updated: "Atualizado",
+  unchanged: "Sem mudanças",
+  invalid: "Inválido",
+};
 
-const categoryRules: { category: string; keywords: string[] }[] = [
-  {
-    category: "Tech",
-    keywords: [
-      "tech",
-      "gadget",
-      "smart",
-      "bluetooth",
-      "wireless",
-      "usb",
-      "cabo",
-      "carregador",
-      "powerbank",
-      "hub",
-      "suporte",
-      "mouse",
-      "teclado",
-    ],
-  },
-  {
-    category: "Eletrônicos",
-    keywords: [
-      "fone",
-      "headset",
-      "tv",
-      "monitor",
-      "camera",
-      "celular",
-      "smartphone",
-      "tablet",
-      "notebook",
-      "laptop",
-      "relogio",
-      "smartwatch",
-      "caixa de som",
-      "soundbar",
-    ],
-  },
-  {
-    category: "Eletrodomésticos",
-    keywords: [
-      "airfryer",
-      "air fryer",
-      "liquidificador",
-      "cafeteira",
-      "microondas",
-      "geladeira",
-      "fogao",
-      "forno",
-      "lavadora",
-      "aspirador",
-      "ventilador",
-      "batedeira",
-    ],
-  },
-  {
-    category: "Bijoux",
-    keywords: [
-      "biju",
-      "bijoux",
-      "bijuteria",
-      "colar",
-      "brinco",
-      "anel",
-      "pulseira",
-      "choker",
-      "pingente",
-      "semijoia",
-      "semi joia",
-    ],
-  },
-  {
-    category: "Fitness",
-    keywords: [
-      "fitness",
-      "treino",
-      "academia",
-      "exercicio",
-      "yoga",
-      "pilates",
-      "halter",
-      "peso",
-      "elastico",
-      "resistencia",
-      "esteira",
-      "bicicleta",
-      "ergometrica",
-      "colchonete",
-      "tapete yoga",
-    ],
-  },
-  {
-    category: "Cama, mesa e banho",
-    keywords: [
-      "cama",
-      "mesa",
-      "banho",
-      "banheiro",
-      "lençol",
-      "lencol",
-      "toalha",
-      "edredom",
-      "cobertor",
-      "fronha",
-      "travesseiro",
-      "jogo de cama",
-      "jogo de toalha",
-    ],
-  },
-  {
-    category: "Moda Masculina",
-    keywords: [
-      "masculino",
-      "homem",
-      "camisa",
-      "camiseta",
-      "bermuda",
-      "calca",
-      "jeans",
-      "tenis",
-      "sapato",
-      "cueca",
-    ],
-  },
-  {
-    category: "Moda Feminina",
-    keywords: [
-      "feminino",
-      "mulher",
-      "vestido",
-      "saia",
-      "blusa",
-      "salto",
-      "bolsa",
-      "lingerie",
-      "biquini",
-    ],
-  },
-  {
-    category: "Moda Infantil",
-    keywords: [
-      "infantil",
-      "crianca",
-      "menino",
-      "menina",
-      "kids",
-      "escolar",
-    ],
-  },
-  {
-    category: "Bebe e Maternidade",
-    keywords: [
-      "bebe",
-      "maternidade",
-      "gestante",
-      "fralda",
-      "mamadeira",
-      "chupeta",
-      "carrinho",
-      "berco",
-      "banheira",
-    ],
-  },
-  {
-    category: "Brinquedos",
-    keywords: [
-      "brinquedo",
-      "lego",
-      "boneca",
-      "carrinho",
-      "jogo",
-      "puzzle",
-      "pelucia",
-      "playset",
-    ],
-  },
-  {
-    category: "Casa e decoração",
-    keywords: [
-      "decor",
-      "decoracao",
-      "almofada",
-      "tapete",
-      "cortina",
-      "luminaria",
-      "vaso",
-      "quadro",
-      "organizador",
-      "cozinha",
-    ],
-  },
-  {
-    category: "Pet",
-    keywords: [
-      "pet",
-      "cachorro",
-      "cao",
-      "gato",
-      "areia",
-      "racao",
-      "coleira",
-      "petisco",
-      "brinquedo",
-    ],
-  },
-  {
-    category: "Automóveis",
-    keywords: [
-      "carro",
-      "automotivo",
-      "veiculo",
-      "moto",
-      "motocicleta",
-      "pneu",
-      "capacete",
-      "farol",
-    ],
-  },
-  {
-    category: "Beleza e saúde",
-    keywords: [
-      "beleza",
-      "skin",
-      "skincare",
-      "maquiagem",
-      "creme",
-      "perfume",
-      "shampoo",
-      "vitamina",
-      "saude",
-      "barbeador",
-      "secador",
-      "chapinha",
-    ],
-  },
-  {
-    category: "Games",
-    keywords: [
-      "game",
-      "gamer",
-      "ps5",
-      "ps4",
-      "xbox",
-      "nintendo",
-      "switch",
-      "controle",
-      "joystick",
-    ],
-  },
-  {
-    category: "Produtos de Limpeza",
-    keywords: [
-      "limpeza",
-      "detergente",
-      "desinfetante",
-      "sabao",
-      "amaciante",
-      "alvejante",
-      "multiuso",
-    ],
-  },
-  {
-    category: "Alimentos",
-    keywords: [
-      "alimento",
-      "chocolate",
-      "cafe",
-      "cha",
-      "snack",
-      "biscoito",
-      "tempero",
-      "suco",
-    ],
-  },
-];
+const previewStatusStyles: Record<ImportPreviewStatus, string> = {
+  new: "bg-emerald-50 text-emerald-700",
+  updated: "bg-sky-50 text-sky-700",
+  unchanged: "bg-slate-100 text-slate-600",
+  invalid: "bg-rose-50 text-rose-700",
+};
 
-const normalizedCategorySet = new Set(
-  CATEGORY_OPTIONS.map((category) => category.toLowerCase())
-);
+const previewFilters: { value: "all" | ImportPreviewStatus; label: string }[] = [
+  { value: "all", label: "Todas" },
+  { value: "new", label: "Novos" },
+  { value: "updated", label: "Atualizados" },
+  { value: "unchanged", label: "Sem mudanças" },
+  { value: "invalid", label: "Inválidos" },
+];
 
-function normalizeText(value: string) {
-  return value
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toLowerCase();
-}
+const importErrorMessages = {
+  action: "importar produtos",
+  fallback: "Falha ao processar a importação.",
+  byStatus: { 413: "Arquivo muito grande para importar de uma vez." },
+};
 
-function inferCategory(title: string, storeName: string) {
-  const text = normalizeText(`${title} ${storeName}`.trim());
-  if (!text) return null;
-
-  let bestCategory: string | null = null;
-  let bestScore = 0;
-  let tie = false;
-
-  for (const rule of categoryRules) {
-    const score = rule.keywords.reduce((total, keyword) => {
-      if (!keyword) return total;
-      return text.includes(keyword) ? total + 1 : total;
-    }, 0);
-
-    if (score > bestScore) {
-      bestScore = score;
-      bestCategory = rule.category;
-      tie = false;
-    } else if (score > 0 && score === bestScore) {
-      tie = true;
-    }
-  }
+export default function AdminImportPage() {
+  const { canEdit } = useAdminRole();
+  const { options: categoryOptions } = useCategoryOptions();
+  const [importerId, setImporterId] = useState(DEFAULT_IMPORTER_ID);
+  const [file, setFile] = useState<File | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [autoEnrich, setAutoEnrich] = useState(false);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewFilter, setPreviewFilter] = useState<
+    "all" | ImportPreviewStatus
+  >("all");
+  const [selectedLines, setSelectedLines] = useState<number[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<
+    Record<number, string | null>
+  >({});
+  const [linksText, setLinksText] = useState("");
+
+  const pastedLinks = useMemo(() => extractShopeeUrls(linksText), [linksText]);
+
+  const previewCounts = useMemo(() => {
+    const counts: Record<ImportPreviewStatus, number> = {
+      new: 0,
+      updated: 0,
+      unchanged: 0,
+      invalid: 0,
+    };
+    (preview ?? []).forEach((row) => {
+      counts[row.status] += 1;
+    });
+    return counts;
+  }, [preview]);
+
+  const visiblePreview = useMemo(
+    () =>
+      (preview ?? []).filter(
+        (row) => previewFilter === "all" || row.status === previewFilter
+      ),
+    [preview, previewFilter]
+  );
 
-  if (!bestCategory || bestScore === 0 || tie) return null;
-  if (!normalizedCategorySet.has(bestCategory.toLowerCase())) return null;
-  return bestCategory;
-}
+  const resetPreview = () => {
+    setPreview(null);
+    setFileText(null);
+    setSelectedLines([]);
+    setCategoryOverrides({});
+    setPreviewFilter("all");
+  };
 
-type ImportRow = {
-  line: number;
-  external_id: string;
-  title: string;
-  price_text: string;
-  store_name: string;
-  origin_url: string;
-  affiliate_url: string | null;
-};
+  const importer = getImporter(importerId);
 
-type ImportError = {
-  line: number;
-  message: string;
-};
+  const handlePreview = async () => {
+    if (!file || !importer) return;
+    setPreviewing(true);
+    setResult(null);
+    setError(null);
+    setJob(null);
 
-type ImportResult = {
-  imported: number;
-  updated: number;
-  ignored: number;
-  imagesFetched: number;
-  errors: ImportError[];
-};
+    const text = await file.text();
+    const { rows, errors } = importer.parse(text);
+    const externalIds = rows.map((row) => row.external_id);
+    const existing: ExistingImportProduct[] = [];
 
-function parseShopeeCsv(text: string) {
-  const errors: ImportError[] = [];
-  const rows: ImportRow[] = [];
+    for (
+      let index = 0;
+      index < externalIds.length;
+      index += EXISTING_LOOKUP_BATCH
+    ) {
+      const { data, error: existingError } = await supabase
+        .from("products")
+        .select(EXISTING_IMPORT_PRODUCT_SELECT)
+        .eq("source", importer.source)
+        .in(
+          "external_id",
+          externalIds.slice(index, index + EXISTING_LOOKUP_BATCH)
+        );
+
+      if (existingError) {
+        setError(existingError.message);
+        setPreviewing(false);
+        return;
+      }
+      existing.push(...((data ?? []) as ExistingImportProduct[]));
+    }
 
-  const cleanText = text.replace(/^\uFEFF/, "");
-  const lines = cleanText.split(/\r?\n/).filter((line) => line.trim() !== "");
+    // Only new rows get a category from the import, so only they are sent.
+    const existingKeys = new Set(existing.map(getImportKey));
+    const newRows = rows.filter((row) => !existingKeys.has(getImportKey(row)));
+    const suggestions = new Map<number, CategorySuggestion | null>();
+    if (newRows.length > 0) {
+      const { suggestions: suggested, errorStatus } =
+        await fetchCategorySuggestions(
+          newRows.map((row) => ({
+            title: row.title,
+            store_name: row.store_name,
+          }))
+        );
+      if (errorStatus) {
+        setError(
+          "Falha ao sugerir categorias; elas serão calculadas na importação."
+        );
+      }
+      suggested.forEach((suggestion, index) => {
+        suggestions.set(newRows[index].line, suggestion);
+      });
+    }
 
-  if (lines.length === 0) {
-    errors.push({ line: 0, message: "Arquivo vazio." });
-    return { rows, errors };
-  }
+    const previewRows = buildImportPreview(rows, errors, existing, suggestions);
+    setFileText(text);
+    setPreview(previewRows);
+    setCategoryOverrides({});
+    setPreviewFilter("all");
+    setSelectedLines(
+      previewRows
+        .filter((row) => row.status === "new" || row.status === "updated")
+        .map((row) => row.line)
+    );
+    setPreviewing(false);
+  };
 
-  const headerParse = Papa.parse<string[]>(lines[0].trim());
-  const headerRow = headerParse.data?.[0] ?? [];
-  const normalizedHeader = headerRow.map((value) => value.trim());
+  const toggleLine = (line: number) => {
+    setSelectedLines((current) =>
+      current.includes(line)
+        ? current.filter((item) => item !== line)
+        : [...current, line]
+    );
+  };
 
-  const headerMatches =
-    normalizedHeader.length === expectedHeader.length &&
-    normalizedHeader.every(
-      (value, index) =>
-        value.toLowerCase() === expectedHeader[index].toLowerCase()
+  const handleSelectVisible = (selected: boolean) => {
+    const lines = visiblePreview
+      .filter((row) => row.status !== "invalid")
+      .map((row) => row.line);
+    setSelectedLines((current) =>
+      selected
+        ? Array.from(new Set([...current, ...lines]))
+        : current.filter((line) => !lines.includes(line))
     );
+  };
 
-  if (!headerMatches) {
-    errors.push({
-      line: 1,
-      message: `Cabecalho invalido. Esperado: ${expectedHeader.join(", ")}`,
+  const handleCategoryChange = (line: number, value: string) => {
+    setCategoryOverrides((current) => {
+      const next = { ...current };
+      if (value === KEEP_CATEGORY) {
+        delete next[line];
+      } else {
+        next[line] = value || null;
+      }
+      return next;
     });
-    return { rows, errors };
-  }
-
-  const seenIds = new Set<string>();
-  const parsePackedRow = (value: string) => {
-    let cleaned = value.trim();
-    if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
-      cleaned = cleaned.slice(1, -1);
-    }
-    cleaned = cleaned.replace(/""/g, '"');
-    return Papa.parse<string[]>(cleaned).data?.[0] ?? [];
   };
 
-  lines.slice(1).forEach((rawLine, index) => {
-    const lineNumber = index + 2;
-    const trimmed = rawLine.trim();
-    if (!trimmed) return;
-
-    const parsedRaw = Papa.parse<string[]>(trimmed);
-    const rawRow = parsedRaw.data?.[0] ?? [];
-    let row: string[] = [];
-
-    if (rawRow.length === expectedHeader.length) {
-      const packed = rawRow.slice(1).every((value) => value === "");
-      row = packed ? parsePackedRow(rawRow[0]) : rawRow;
-    } else if (rawRow.length === 1) {
-      row = parsePackedRow(rawRow[0]);
-    } else if (
-      rawRow.length > expectedHeader.length &&
-      rawRow.slice(1).every((value) => value === "")
-    ) {
-      row = parsePackedRow(rawRow[0]);
-    } else {
-      row = rawRow;
+  const getCategoryValue = (row: ImportPreviewRow) => {
+    if (row.line in categoryOverrides) {
+      return categoryOverrides[row.line] ?? "";
     }
+    return row.existing ? KEEP_CATEGORY : (row.inferredCategory ?? "");
+  };
 
-    if (row.length !== expectedHeader.length) {
-      errors.push({
-        line: lineNumber,
-        message: `Colunas invalidas (esperado ${expectedHeader.length}).`,
-      });
-      return;
-    }
+  const followJob = async (createdJob: ImportJob) => {
+    setJob(createdJob);
 
-    const [
-      itemId,
-      itemName,
-      price,
-      ,
-      shopName,
-      ,
-      ,
-      productLink,
-      offerLink,
-    ] = row.map((value) => value.trim());
-
-    if (!itemId) {
-      errors.push({ line: lineNumber, message: "Item Id ausente." });
-      return;
-    }
-    if (!itemName) {
-      errors.push({ line: lineNumber, message: "Item Name ausente." });
-      return;
-    }
-    if (!price) {
-      errors.push({ line: lineNumber, message: "Price ausente." });
-      return;
-    }
-    if (!productLink) {
-      errors.push({ line: lineNumber, message: "Product Link ausente." });
+    const finished = await driveImportJob(createdJob.id, setJob);
+    if (!finished.job) {
+      setError(
+        getRequestErrorMessage(finished.errorStatus, importErrorMessages)
+      );
       return;
     }
-    if (!isValidUrl(productLink)) {
-      errors.push({ line: lineNumber, message: "Product Link invalido." });
-      return;
-    }
-    if (offerLink && !isValidUrl(offerLink)) {
-      errors.push({ line: lineNumber, message: "Offer Link invalido." });
-      return;
-    }
-    if (seenIds.has(itemId)) {
-      errors.push({
-        line: lineNumber,
-        message: "Item Id duplicado no arquivo.",
-      });
-      return;
-    }
-    seenIds.add(itemId);
-
-    rows.push({
-      line: lineNumber,
-      external_id: itemId,
-      title: itemName,
-      price_text: price,
-      store_name: shopName,
-      origin_url: productLink,
-      affiliate_url: offerLink || null,
-    });
-  });
 
-  return { rows, errors };
-}
-
-export default function AdminImportPage() {
-  const [file, setFile] = useState<File | null>(null);
-  const [result, setResult] = useState<ImportResult | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [autoImages, setAutoImages] = useState(false);
+    const { result: importResult, error: resultError } =
+      await fetchImportResult(finished.job);
+    setResult(importResult);
+    setError(resultError ?? finished.job.last_error);
+  };
 
   const handleImport = async () => {
-    if (!file) return;
+    if (!file || !fileText || !importer || selectedLines.length === 0) return;
     setLoading(true);
     setResult(null);
-
-    const text = await file.text();
-    const { rows, errors } = parseShopeeCsv(text);
-
-    if (rows.length === 0) {
-      setResult({
-        imported: 0,
-        updated: 0,
-        ignored: 0,
-        imagesFetched: 0,
-        errors,
-      });
-      setLoading(false);
-      return;
-    }
-
-    const externalIds = rows.map((row) => row.external_id);
-    const { data: existingRows, error: existingError } = await supabase
-      .from("products")
-      .select("id, external_id")
-      .in("external_id", externalIds);
-
-    if (existingError) {
-      setResult({
-        imported: 0,
-        updated: 0,
-        ignored: 0,
-        imagesFetched: 0,
-        errors: [...errors, { line: 0, message: existingError.message }],
+    setError(null);
+    setJob(null);
+
+    try {
+      const created = await createImportJob({
+        kind: "csv_import",
+        importer: importer.id,
+        content: fileText,
+        fileName: file.name,
+        autoEnrich,
+        // Only categories picked here are sent; the job re-runs the
+        // suggestion for the rest, so a previewed guess is stored as a
+        // suggestion and not as an editor's choice.
+        selection: selectedLines.map((line) =>
+          line in categoryOverrides
+            ? { line, category: categoryOverrides[line] }
+            : { line }
+        ),
       });
+      if (!created.job) {
+        setError(
+          getRequestErrorMessage(created.errorStatus, importErrorMessages)
+        );
+        return;
+      }
+      resetPreview();
+      await followJob(created.job);
+    } catch {
+      setError(
+        "Conexão perdida. A importação continua em segundo plano; acompanhe no histórico."
+      );
+    } finally {
       setLoading(false);
-      return;
     }
+  };
 
-    const existingMap = new Map(
-      (existingRows ?? []).map((row) => [row.external_id, row.id])
-    );
-
-    let imported = 0;
-    let updated = 0;
-    let ignored = 0;
-    let imagesFetched = 0;
-
-    for (const row of rows) {
-      const existingId = existingMap.get(row.external_id);
-      if (existingId) {
-        const { error: updateError } = await supabase
-          .from("products")
-          .update({
-            price_text: row.price_text,
-            origin_url: row.origin_url,
-            affiliate_url: row.affiliate_url,
-          })
-          .eq("id", existingId);
-
-        if (updateError) {
-          errors.push({ line: row.line, message: updateError.message });
-        } else {
-          updated += 1;
-        }
-        continue;
-      }
-
-      const baseSlug = slugify(row.title);
-      const slug = baseSlug
-        ? `${baseSlug}-${row.external_id}`
-        : row.external_id;
-
-      const inferredCategory = inferCategory(row.title, row.store_name);
-      const { data: insertData, error: insertError } = await supabase
-        .from("products")
-        .insert({
-          external_id: row.external_id,
-          title: row.title,
-          slug,
-          description_short: null,
-          price_text: row.price_text,
-          image_url: null,
-          image_urls: [],
-          origin_url: row.origin_url,
-          affiliate_url: row.affiliate_url,
-          tags: ["shopee"],
-          store_name: row.store_name || null,
-          category: inferredCategory,
-          is_active: false,
-        })
-        .select("id")
-        .single();
-
-      if (insertError) {
-        errors.push({ line: row.line, message: insertError.message });
-        ignored += 1;
-      } else {
-        imported += 1;
-        if (insertData?.id && autoImages) {
-          try {
-            const response = await fetch("/api/products/enrich-image", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                productId: insertData.id,
-                originUrl: row.origin_url,
-              }),
-            });
-            if (response.ok) {
-              const payload = (await response.json()) as {
-                status?: string;
-                error?: string;
-              };
-              if (payload.status === "ok") {
-                imagesFetched += 1;
-              } else if (payload.error) {
-                if (payload.error !== "og_image_not_found") {
-                  errors.push({
-                    line: row.line,
-                    message: `Imagem: ${payload.error}`,
-                  });
-                }
-              } else {
-                errors.push({
-                  line: row.line,
-                  message: "Imagem: falha ao processar.",
-                });
-              }
-            } else {
-              errors.push({
-                line: row.line,
-                message: "Falha ao buscar imagem.",
-              });
-            }
-          } catch {
-            errors.push({
-              line: row.line,
-              message: "Falha ao buscar imagem.",
-            });
-          }
-        }
+  const handleImportLinks = async () => {
+    const { urls } = pastedLinks;
+    if (urls.length === 0 || urls.length > MAX_PASTED_LINKS) return;
+    setLoading(true);
+    setResult(null);
+    setError(null);
+    setJob(null);
+    resetPreview();
+
+    try {
+      const created = await createImportJob({ kind: "url_import", urls });
+      if (!created.job) {
+        setError(
+          getRequestErrorMessage(created.errorStatus, importErrorMessages)
+        );
+        return;
       }
+      setLinksText("");
+      await followJob(created.job);
+    } catch {
+      setError(
+        "Conexão perdida. A importação continua em segundo plano; acompanhe no histórico."
+      );
+    } finally {
+      setLoading(false);
     }
-
-    setResult({
-      imported,
-      updated,
-      ignored,
-      imagesFetched,
-      errors,
-    });
-    setLoading(false);
   };
 
   return (
     <div className="space-y-8">
-        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
-          <div>
-            <h2 className="text-lg font-semibold text-slate-900">
-              Importar CSV da Shopee
-            </h2>
-            <p className="text-sm text-slate-500">
-              O arquivo deve conter o cabecalho padrao e linhas encapsuladas em
-              aspas.
-            </p>
-            <p className="mt-2 text-xs text-slate-500">
-              Categoria sera atribuida automaticamente quando houver match de
-              palavra-chave (sem travar a importacao).
-            </p>
-          </div>
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Importar produtos
+          </h2>
+          <p className="text-sm text-slate-500">{importer?.description}</p>
+          <p className="mt-2 text-xs text-slate-500">
+            Categoria sera atribuida automaticamente quando houver match de
+            palavra-chave (sem travar a importacao).
+          </p>
+        </div>
         <div className="mt-6 flex flex-wrap items-center gap-4">
+          <select
+            value={importerId}
+            onChange={(event) => {
+              setImporterId(event.target.value);
+              resetPreview();
+            }}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-700 focus:border-slate-400 focus:outline-none"
+          >
+            {IMPORTERS.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.label}
+              </option>
+            ))}
+          </select>
           <input
             type="file"
-            accept=".csv"
-            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            accept={importer?.accept}
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null);
+              resetPreview();
+            }}
             className="text-sm"
           />
           <label className="flex items-center gap-2 text-xs text-slate-600">
             <input
               type="checkbox"
-              checked={autoImages}
-              onChange={(event) => setAutoImages(event.target.checked)}
+              checked={autoEnrich}
+              onChange={(event) => setAutoEnrich(event.target.checked)}
               className="h-4 w-4 rounded border-slate-300 text-slate-900"
             />
-            Buscar imagens automaticamente (beta)
+            Buscar dados e imagens da página (beta)
           </label>
           <button
             type="button"
-            onClick={handleImport}
-            disabled={!file || loading}
+            onClick={handlePreview}
+            disabled={!file || previewing || loading}
+            className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+          >
+            {previewing ? "Analisando..." : "Pré-visualizar"}
+          </button>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Colar links da Shopee
+          </h2>
+          <p className="text-sm text-slate-500">
+            Cole links de produto ou links curtos copiados do app (um por
+            linha ou no meio do texto). Cada produto novo vira um rascunho com
+            título, preço e imagens buscados na página; os que já estão no
+            catálogo são ignorados.
+          </p>
+        </div>
+        <textarea
+          value={linksText}
+          onChange={(event) => setLinksText(event.target.value)}
+          rows={5}
+          placeholder="https://s.shopee.com.br/..."
+          className="mt-4 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+        />
+        <div className="mt-3 flex flex-wrap items-center gap-4">
+          <button
+            type="button"
+            onClick={handleImportLinks}
+            disabled={
+              pastedLinks.urls.length === 0 ||
+              pastedLinks.urls.length > MAX_PASTED_LINKS ||
+              loading ||
+              !canEdit
+            }
             className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
           >
-            {loading ? "Importando..." : "Importar"}
+            {loading
+              ? "Importando..."
+              : `Importar links (${pastedLinks.urls.length})`}
           </button>
+          <p className="text-xs text-slate-500">
+            {pastedLinks.urls.length > MAX_PASTED_LINKS
+              ? `Limite de ${MAX_PASTED_LINKS} links por vez.`
+              : pastedLinks.ignored > 0
+                ? `${pastedLinks.ignored} link(s) fora da Shopee serão ignorados.`
+                : null}
+          </p>
         </div>
       </section>
 
+      {preview ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h3 className="text-base font-semibold text-slate-900">
+                Pré-visualização
+              </h3>
+              <p className="text-xs text-slate-500">
+                Nada foi gravado ainda. Desmarque linhas ou troque a categoria
+                antes de confirmar.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={resetPreview}
+                className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+              >
+                Cancelar
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={selectedLines.length === 0 || loading || !canEdit}
+                className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+              >
+                {loading
+                  ? "Importando..."
+                  : `Confirmar importação (${selectedLines.length})`}
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            {previewFilters.map((filter) => (
+              <button
+                key={filter.value}
+                type="button"
+                onClick={() => setPreviewFilter(filter.value)}
+                className={`rounded-full px-3 py-1.5 text-xs transition ${
+                  previewFilter === filter.value
+                    ? "bg-slate-900 text-white"
+                    : "border border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
+                }`}
+              >
+                {filter.label} (
+                {filter.value === "all"
+                  ? preview.length
+                  : previewCounts[filter.value]}
+                )
+              </button>
+            ))}
+            <span className="mx-2 h-4 w-px bg-slate-200" />
+            <button
+              type="button"
+              onClick={() => handleSelectVisible(true)}
+              className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Marcar visíveis
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSelectVisible(false)}
+              className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Desmarcar visíveis
+            </button>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="uppercase tracking-wide text-slate-400">
+                <tr>
+                  <th className="py-2 pr-3 font-medium" />
+                  <th className="py-2 pr-3 font-medium">Linha</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Produto</th>
+                  <th className="py-2 pr-3 font-medium">Alterações</th>
+                  <th className="py-2 font-medium">Categoria</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visiblePreview.map((row) => (
+                  <tr key={row.line} className="align-top">
+                    <td className="py-2 pr-3">
+                      {row.status !== "invalid" ? (
+                        <input
+                          type="checkbox"
+                          checked={selectedLines.includes(row.line)}
+                          onChange={() => toggleLine(row.line)}
+                          className="h-4 w-4 rounded border-slate-300 text-slate-900"
+                        />
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-500">{row.line}</td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={`whitespace-nowrap rounded-full px-2.5 py-0.5 font-semibold ${previewStatusStyles[row.status]}`}
+                      >
+                        {previewStatusLabels[row.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3">
+                      {row.row ? (
+                        <>
+                          <p className="font-medium text-slate-900">
+                            {row.row.title}
+                          </p>
+                          <p className="text-slate-400">
+                            {row.row.external_id} · {row.row.price_text}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-rose-600">{row.message}</p>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {row.diffs.length > 0 ? (
+                        <ul className="space-y-1">
+                          {row.diffs.map((diff) => (
+                            <li key={diff.field} className="break-all">
+                              <span className="font-medium text-slate-700">
+                                {diff.label}:
+                              </span>{" "}
+                              <span className="text-rose-700 line-through">
+                                {diff.before ?? "—"}
+                              </span>{" "}
+                              →{" "}
+                              <span className="text-emerald-700">
+                                {diff.after ?? "—"}
+                              </span>
+                              {!diff.applied ? (
+                                <span className="text-slate-400">
+                                  {" "}
+                                  (não sobrescreve)
+                                </span>
+                              ) : null}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-slate-400">—</span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {row.row ? (
+                        <select
+                          value={getCategoryValue(row)}
+                          onChange={(event) =>
+                            handleCategoryChange(row.line, event.target.value)
+                          }
+                          className="rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
+                        >
+                          {row.existing ? (
+                            <option value={KEEP_CATEGORY}>
+                              Manter ({row.existing.category ?? "sem categoria"})
+                            </option>
+                          ) : null}
+                          <option value="">Sem categoria</option>
+                          {categoryOptions.map((option) => (
+                            <option key={option.id} value={option.name}>
+                              {option.label}
+                              {option.name === row.inferredCategory &&
+                              !row.existing
+                                ? " (sugerida)"
+                                : ""}
+                            </option>
+                          ))}
+                        </select>
+                      ) : null}
+                      {row.row &&
+                      !row.existing &&
+                      row.suggestion &&
+                      !row.inferredCategory &&
+                      !(row.line in categoryOverrides) ? (
+                        <p className="mt-1 text-[11px] text-amber-600">
+                          Sugestão fraca: {row.suggestion.category} (
+                          {Math.round(row.suggestion.confidence * 100)}%), vai
+                          para revisão
+                        </p>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : null}
+
+      {job && !isJobFinished(job) ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-slate-600">
+            <span>
+              Processando {job.processed_rows} de {job.total_rows} linhas
+            </span>
+            <span className="font-semibold text-slate-900">
+              {getJobProgress(job)}%
+            </span>
+          </div>
+          <div className="mt-3 h-2 overflow-hidden rounded-full bg-slate-100">
+            <div
+              className="h-full rounded-full bg-slate-900 transition-all"
+              style={{ width: `${getJobProgress(job)}%` }}
+            />
+          </div>
+          <p className="mt-3 text-xs text-slate-500">
+            A importação roda no servidor: se fechar esta aba, ela continua em
+            segundo plano. Acompanhe em{" "}
+            <Link href="/admin/imports" className="underline">
+              Histórico de importações
+            </Link>
+            .
+          </p>
+        </section>
+      ) : null}
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
       {result ? (
         <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
           <h3 className="text-base font-semibold text-slate-900">
@@ -707,13 +648,14 @@ export default function AdminImportPage() {
               Ignorados: {result.ignored}
             </div>
             <div className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
-              Imagens salvas: {result.imagesFetched}
+              Enriquecidos: {result.enriched}
             </div>
           </div>
-          {!autoImages ? (
+          {!autoEnrich && job?.kind !== "url_import" ? (
             <p className="mt-4 text-xs text-slate-500">
-              A busca automatica de imagens esta desativada. Adicione imagens
-              manualmente no painel de produtos.
+              A busca automatica de dados esta desativada. Use &quot;Enriquecer
+              selecionados&quot; no painel de produtos ou adicione imagens
+              manualmente.
             </p>
           ) : null}
           {result.errors.length > 0 ? (
@@ -724,7 +666,8 @@ export default function AdminImportPage() {
               <ul className="mt-2 space-y-2 text-xs text-rose-600">
                 {result.errors.map((err, index) => (
                   <li key={`${err.line}-${index}`}>
-                    Linha {err.line}: {err.message}
+                    {job?.kind === "url_import" ? "Link" : "Linha"}{" "}
+                    {err.line}: {err.message}
                   </li>
                 ))}
               </ul>
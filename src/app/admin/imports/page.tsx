@@ -0,0 +1,361 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { getImporter } from "@/lib/importers";
+import { getRequestErrorMessage } from "@/lib/requestErrors";
+import {
+  driveImportJob,
+  fetchImportResult,
+  getJobProgress,
+  isJobFinished,
+  retryImportJob,
+} from "@/lib/importJobClient";
+import type {
+  ImportJob,
+  ImportJobKind,
+  ImportJobStatus,
+  ImportResult,
+} from "@/lib/types";
+
+const PAGE_LIMIT = 50;
+const REFRESH_INTERVAL_MS = 5000;
+
+const kindLabels: Record<ImportJobKind, string> = {
+  csv_import: "Arquivo",
+  url_import: "Links da Shopee",
+  enrichment: "Enriquecimento",
+};
+
+const lineLabels: Record<ImportJobKind, string> = {
+  csv_import: "Linha",
+  url_import: "Link",
+  enrichment: "Produto",
+};
+
+const statusLabels: Record<ImportJobStatus, string> = {
+  queued: "Na fila",
+  running: "Processando",
+  completed: "Concluída",
+  failed: "Falhou",
+};
+
+const statusStyles: Record<ImportJobStatus, string> = {
+  queued: "bg-slate-100 text-slate-600",
+  running: "bg-sky-50 text-sky-700",
+  completed: "bg-emerald-50 text-emerald-700",
+  failed: "bg-rose-50 text-rose-700",
+};
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("pt-BR", {
+        dateStyle: "short",
+        timeStyle: "short",
+      })
+    : "—";
+
+export default function AdminImportsPage() {
+  const { canEdit } = useAdminRole();
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [results, setResults] = useState<Record<string, ImportResult>>({});
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from("import_jobs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(PAGE_LIMIT);
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setJobs((data ?? []) as ImportJob[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void fetchJobs();
+  }, [fetchJobs]);
+
+  const hasActiveJobs = jobs.some((job) => !isJobFinished(job));
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = window.setInterval(() => {
+      void fetchJobs();
+    }, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [hasActiveJobs, fetchJobs]);
+
+  const updateJob = (job: ImportJob) => {
+    setJobs((current) =>
+      current.map((item) => (item.id === job.id ? job : item))
+    );
+  };
+
+  const handleToggleErrors = async (job: ImportJob) => {
+    if (results[job.id]) {
+      setResults((current) => {
+        const next = { ...current };
+        delete next[job.id];
+        return next;
+      });
+      return;
+    }
+
+    const { result, error: resultError } = await fetchImportResult(job);
+    if (resultError || !result) {
+      setError(resultError ?? "Falha ao carregar erros.");
+      return;
+    }
+    setResults((current) => ({ ...current, [job.id]: result }));
+  };
+
+  const handleResume = async (job: ImportJob) => {
+    setBusyJobId(job.id);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const finished = await driveImportJob(job.id, updateJob);
+      if (!finished.job) {
+        setError(
+          getRequestErrorMessage(finished.errorStatus, {
+            action: "processar importações",
+            fallback: "Falha ao processar a importação.",
+          })
+        );
+      } else {
+        setMessage("Importação concluída.");
+      }
+    } catch {
+      setError("Conexão perdida. A importação continua em segundo plano.");
+    } finally {
+      setBusyJobId(null);
+      await fetchJobs();
+    }
+  };
+
+  const handleRetry = async (job: ImportJob) => {
+    setBusyJobId(job.id);
+    setMessage(null);
+    setError(null);
+
+    const retried = await retryImportJob(job.id);
+    setBusyJobId(null);
+
+    if (!retried.job) {
+      setError(
+        retried.errorStatus === 409
+          ? "A importação ainda está em andamento."
+          : retried.errorStatus === 403
+            ? "Seu papel não permite reprocessar importações."
+            : "Falha ao reprocessar as linhas com erro."
+      );
+      return;
+    }
+
+    updateJob(retried.job);
+    setResults((current) => {
+      const next = { ...current };
+      delete next[job.id];
+      return next;
+    });
+    await handleResume(retried.job);
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              Histórico de importações
+            </h2>
+            <p className="text-sm text-slate-500">
+              Importações de arquivos dos marketplaces e enriquecimentos em
+              massa processados no servidor, em lotes.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Link
+              href="/admin/import"
+              className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800"
+            >
+              Nova importação
+            </Link>
+            <button
+              type="button"
+              onClick={fetchJobs}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Atualizar
+            </button>
+          </div>
+        </div>
+
+        {message ? (
+          <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+            {message}
+          </div>
+        ) : null}
+        {error ? (
+          <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+            {error}
+          </div>
+        ) : null}
+      </section>
+
+      <section className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-slate-500">Carregando importações...</p>
+        ) : null}
+        {!loading && jobs.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
+            Nenhuma importação registrada ainda.
+          </div>
+        ) : null}
+        {jobs.map((job) => {
+          const progress = getJobProgress(job);
+          const result = results[job.id];
+          const finished = isJobFinished(job);
+
+          return (
+            <article
+              key={job.id}
+              className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span
+                      className={`rounded-full px-2.5 py-0.5 font-semibold ${statusStyles[job.status]}`}
+                    >
+                      {statusLabels[job.status]}
+                    </span>
+                    <span className="text-slate-500">
+                      {getImporter(job.importer)?.label ??
+                        kindLabels[job.kind]}
+                    </span>
+                    <span className="text-slate-400">
+                      {formatDate(job.created_at)}
+                    </span>
+                  </div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {job.file_name ?? `${job.total_rows} produtos`}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {job.kind === "csv_import" && job.auto_enrich
+                      ? "Com enriquecimento · "
+                      : ""}
+                    {job.finished_at
+                      ? `Finalizada em ${formatDate(job.finished_at)}`
+                      : job.started_at
+                        ? `Iniciada em ${formatDate(job.started_at)}`
+                        : "Aguardando processamento"}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {job.error_count > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => handleToggleErrors(job)}
+                      className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                    >
+                      {result ? "Ocultar erros" : "Ver erros"}
+                    </button>
+                  ) : null}
+                  {!finished ? (
+                    <button
+                      type="button"
+                      onClick={() => handleResume(job)}
+                      disabled={busyJobId !== null || !canEdit}
+                      className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+                    >
+                      {busyJobId === job.id ? "Processando..." : "Continuar"}
+                    </button>
+                  ) : null}
+                  {finished && job.error_count > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => handleRetry(job)}
+                      disabled={busyJobId !== null || !canEdit}
+                      className="rounded-full border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+                    >
+                      {busyJobId === job.id
+                        ? "Reprocessando..."
+                        : "Reprocessar falhas"}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              <div className="mt-4">
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>
+                    {job.processed_rows} de {job.total_rows} linhas
+                  </span>
+                  <span className="font-semibold text-slate-700">
+                    {progress}%
+                  </span>
+                </div>
+                <div className="mt-2 h-2 overflow-hidden rounded-full bg-slate-100">
+                  <div
+                    className={`h-full rounded-full transition-all ${
+                      job.status === "failed" ? "bg-rose-500" : "bg-slate-900"
+                    }`}
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="mt-4 grid gap-3 text-xs text-slate-600 sm:grid-cols-3 md:grid-cols-5">
+                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                  Importados: {job.imported}
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                  Atualizados: {job.updated}
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                  Ignorados: {job.ignored}
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                  Enriquecidos: {job.enriched}
+                </div>
+                <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                  Erros: {job.error_count}
+                </div>
+              </div>
+
+              {job.last_error ? (
+                <p className="mt-3 text-xs text-rose-600">
+                  Último erro: {job.last_error}
+                  {job.attempts > 0 ? ` (tentativa ${job.attempts})` : ""}
+                </p>
+              ) : null}
+
+              {result ? (
+                <ul className="mt-4 space-y-2 text-xs text-rose-600">
+                  {result.errors.map((err, index) => (
+                    <li key={`${err.line}-${index}`}>
+                      {lineLabels[job.kind]}{" "}
+                      {err.line}: {err.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </article>
+          );
+        })}
+      </section>
+    </div>
+  );
+}
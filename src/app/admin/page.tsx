@@ -1,11 +1,37 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "@/lib/supabase/client";
+import Link from "next/link";
+import { getAuthHeaders, supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { useCategoryOptions } from "@/components/admin/useCategoryOptions";
 import { slugify } from "@/lib/slugify";
+import { getRequestErrorMessage } from "@/lib/requestErrors";
 import { isValidUrl } from "@/lib/validation";
-import { CATEGORY_OPTIONS } from "@/lib/categories";
-import type { Product } from "@/lib/types";
+import { isConfidentSuggestion } from "@/lib/categoryClassifier";
+import { fetchCategorySuggestions } from "@/lib/categorySuggestionClient";
+import { formatCommissionRate } from "@/lib/commission";
+import { formatPrice, parsePriceText } from "@/lib/pricing";
+import {
+  detectSource,
+  getSourceLabel,
+  isProductSource,
+  MARKETPLACES,
+  PRODUCT_SOURCES,
+} from "@/lib/marketplaces";
+import {
+  fromDateTimeInput,
+  getScheduleStatus,
+  isValidSchedule,
+  toDateTimeInput,
+} from "@/lib/schedule";
+import type { ScheduleStatus } from "@/lib/schedule";
+import {
+  createImportJob,
+  driveImportJob,
+  getJobProgress,
+} from "@/lib/importJobClient";
+import type { Product, ProductImageVariants } from "@/lib/types";
 
 type FormState = {
   id?: string;
@@ -14,11 +40,14 @@ type FormState = {
   description_short: string;
   price_text: string;
   image_urls: string[];
+  image_variants: ProductImageVariants[];
   origin_url: string;
   affiliate_url: string;
+  // Empty means "detect from the product link" on save.
+  source: string;
   tags: string;
   store_name: string;
-  category: string;
+  category_id: string;
   is_featured: boolean;
   is_exclusive: boolean;
   is_trending: boolean;
@@ -27,6 +56,8 @@ type FormState = {
   exclusive_rank: string;
   trending_rank: string;
   hot_rank: string;
+  publish_at: string;
+  expire_at: string;
   is_active: boolean;
 };
 
@@ -36,11 +67,13 @@ const emptyForm: FormState = {
   description_short: "",
   price_text: "",
   image_urls: [],
+  image_variants: [],
   origin_url: "",
   affiliate_url: "",
+  source: "",
   tags: "",
   store_name: "",
-  category: "",
+  category_id: "",
   is_featured: false,
   is_exclusive: false,
   is_trending: false,
@@ -49,11 +82,51 @@ const emptyForm: FormState = {
   exclusive_rank: "",
   trending_rank: "",
   hot_rank: "",
+  publish_at: "",
+  expire_at: "",
   is_active: false,
 };
 
+const scheduleStatusLabels: Record<ScheduleStatus, string> = {
+  live: "Publicado",
+  scheduled: "Agendado",
+  expired: "Expirado",
+  inactive: "Rascunho",
+};
+
+const scheduleStatusStyles: Record<ScheduleStatus, string> = {
+  live: "bg-emerald-100 text-emerald-700",
+  scheduled: "bg-sky-100 text-sky-700",
+  expired: "bg-amber-100 text-amber-700",
+  inactive: "bg-slate-200 text-slate-600",
+};
+
+type SortOrder = "recent" | "commission-value" | "commission-rate" | "sales";
+
+const sortOptions: { value: SortOrder; label: string }[] = [
+  { value: "recent", label: "Mais recentes" },
+  { value: "commission-value", label: "Maior comissao (R$)" },
+  { value: "commission-rate", label: "Maior taxa de comissao" },
+  { value: "sales", label: "Mais vendidos" },
+];
+
+function sortProducts(list: Product[], sortOrder: SortOrder) {
+  if (sortOrder === "recent") return list;
+
+  const getValue = (product: Product) => {
+    if (sortOrder === "commission-value") return product.commission_value;
+    if (sortOrder === "commission-rate") return product.commission_rate;
+    return product.sales;
+  };
+
+  return [...list].sort(
+    (a, b) => (getValue(b) ?? -Infinity) - (getValue(a) ?? -Infinity)
+  );
+}
 
 export default function AdminProductsPage() {
+  const { canEdit } = useAdminRole();
+  const { options: categoryOptions } = useCategoryOptions();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -64,10 +137,17 @@ export default function AdminProductsPage() {
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<
-    "all" | "published" | "draft"
+    "all" | "published" | "draft" | "broken"
   >("all");
+  const [checkingLinks, setCheckingLinks] = useState(false);
+  const [enriching, setEnriching] = useState(false);
+  const [inferringCategories, setInferringCategories] = useState(false);
+  const [suggestingCategory, setSuggestingCategory] = useState(false);
+  const [categoryHint, setCategoryHint] = useState<string | null>(null);
   const [categorySelections, setCategorySelections] = useState<string[]>([]);
   const [bulkCategory, setBulkCategory] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("recent");
+  const [minCommissionRate, setMinCommissionRate] = useState("");
   const [imageUrlInput, setImageUrlInput] = useState("");
   const [uploading, setUploading] = useState(false);
   const formRef = useRef<HTMLDivElement | null>(null);
@@ -82,26 +162,34 @@ export default function AdminProductsPage() {
       list = list.filter((product) => product.is_active);
     } else if (statusFilter === "draft") {
       list = list.filter((product) => !product.is_active);
+    } else if (statusFilter === "broken") {
+      list = list.filter((product) => product.link_status === "broken");
     }
 
     if (categorySelections.length > 0) {
       list = list.filter((product) => {
-        const isUncategorized =
-          !product.category || !product.category.trim();
+        const isUncategorized = !product.category_id;
         const matchesUncategorized = categorySelections.includes(
           "__uncategorized__"
         );
-        const matchesCategory = product.category
-          ? categorySelections.includes(product.category)
+        const matchesCategory = product.category_id
+          ? categorySelections.includes(product.category_id)
           : false;
         return (matchesUncategorized && isUncategorized) || matchesCategory;
       });
     }
 
+    const minRate = Number(minCommissionRate.replace(",", "."));
+    if (minCommissionRate.trim() && Number.isFinite(minRate)) {
+      list = list.filter(
+        (product) => (product.commission_rate ?? 0) >= minRate
+      );
+    }
+
     const term = searchQuery.trim().toLowerCase();
-    if (!term) return list;
+    if (!term) return sortProducts(list, sortOrder);
 
-    return list.filter((product) => {
+    const matches = list.filter((product) => {
       const title = product.title?.toLowerCase() ?? "";
       const slug = product.slug?.toLowerCase() ?? "";
       const store = product.store_name?.toLowerCase() ?? "";
@@ -120,22 +208,38 @@ export default function AdminProductsPage() {
         tags
       );
     });
-  }, [products, statusFilter, categorySelections, searchQuery]);
+    return sortProducts(matches, sortOrder);
+  }, [
+    products,
+    statusFilter,
+    categorySelections,
+    searchQuery,
+    minCommissionRate,
+    sortOrder,
+  ]);
 
   const publishedCount = useMemo(
     () => products.filter((product) => product.is_active).length,
     [products]
   );
   const draftCount = products.length - publishedCount;
+  const brokenCount = useMemo(
+    () =>
+      products.filter((product) => product.link_status === "broken").length,
+    [products]
+  );
   const uncategorizedCount = useMemo(
-    () => products.filter((product) => !product.category).length,
+    () => products.filter((product) => !product.category_id).length,
     [products]
   );
   const categoryCounts = useMemo(() => {
     const counts = new Map<string, number>();
     products.forEach((product) => {
-      if (!product.category) return;
-      counts.set(product.category, (counts.get(product.category) ?? 0) + 1);
+      if (!product.category_id) return;
+      counts.set(
+        product.category_id,
+        (counts.get(product.category_id) ?? 0) + 1
+      );
     });
     return counts;
   }, [products]);
@@ -190,6 +294,57 @@ export default function AdminProductsPage() {
   const resetForm = () => {
     setForm(emptyForm);
     setImageUrlInput("");
+    setCategoryHint(null);
+  };
+
+  const handleSuggestCategory = async () => {
+    if (!form.title.trim()) {
+      setCategoryHint("Preencha o título para sugerir uma categoria.");
+      return;
+    }
+    setSuggestingCategory(true);
+    setCategoryHint(null);
+
+    try {
+      const { suggestions, errorStatus } = await fetchCategorySuggestions([
+        { title: form.title, store_name: form.store_name },
+      ]);
+      if (errorStatus) {
+        setCategoryHint(
+          getRequestErrorMessage(errorStatus, {
+            action: "sugerir categorias",
+            fallback: "Falha ao sugerir categoria.",
+          })
+        );
+        return;
+      }
+
+      const [suggestion] = suggestions;
+      if (!suggestion) {
+        setCategoryHint("Nenhuma sugestão para este título.");
+        return;
+      }
+      const option = categoryOptions.find(
+        (item) => item.name === suggestion.category
+      );
+      if (!option) {
+        setCategoryHint("Nenhuma sugestão para este título.");
+        return;
+      }
+      handleChange("category_id", option.id);
+      const confidence = Math.round(suggestion.confidence * 100);
+      setCategoryHint(
+        suggestion.method === "rules"
+          ? `${suggestion.category}: pelas regras de categoria.`
+          : isConfidentSuggestion(suggestion)
+            ? `${suggestion.category}: ${confidence}% de confiança.`
+            : `${suggestion.category}: só ${confidence}% de confiança, confira antes de salvar.`
+      );
+    } catch {
+      setCategoryHint("Falha ao sugerir categoria.");
+    } finally {
+      setSuggestingCategory(false);
+    }
   };
 
   const validateForm = () => {
@@ -222,6 +377,15 @@ export default function AdminProductsPage() {
       }
     }
 
+    if (
+      !isValidSchedule(
+        fromDateTimeInput(form.publish_at),
+        fromDateTimeInput(form.expire_at)
+      )
+    ) {
+      return "A expiracao deve ser depois da publicacao.";
+    }
+
     return null;
   };
 
@@ -261,11 +425,17 @@ export default function AdminProductsPage() {
       price_text: form.price_text.trim() || null,
       image_urls: form.image_urls,
       image_url: form.image_urls[0] ?? null,
+      image_variants: form.image_variants.filter((variants) =>
+        form.image_urls.includes(variants.full.url)
+      ),
       origin_url: form.origin_url.trim(),
       affiliate_url: form.affiliate_url.trim() || null,
+      source: isProductSource(form.source)
+        ? form.source
+        : detectSource(form.origin_url.trim()),
       tags: tagsArray,
       store_name: form.store_name.trim() || null,
-      category: form.category.trim() || null,
+      category_id: form.category_id || null,
       is_featured: form.is_featured,
       is_exclusive: form.is_exclusive,
       is_trending: form.is_trending,
@@ -274,33 +444,65 @@ export default function AdminProductsPage() {
       exclusive_rank: form.is_exclusive ? parseRank(form.exclusive_rank) : null,
       trending_rank: form.is_trending ? parseRank(form.trending_rank) : null,
       hot_rank: form.is_hot ? parseRank(form.hot_rank) : null,
+      publish_at: fromDateTimeInput(form.publish_at),
+      expire_at: fromDateTimeInput(form.expire_at),
       is_active: form.is_active,
     };
 
     setSaving(true);
 
+    const recordPrice = async (productId: string) => {
+      if (!payload.price_text) return;
+      const { error: historyError } = await supabase
+        .from("price_history")
+        .insert({
+          product_id: productId,
+          price_text: payload.price_text,
+          price: parsePriceText(payload.price_text),
+          source: "admin",
+        });
+      if (historyError) {
+        setError(`Historico de precos: ${historyError.message}`);
+      }
+    };
+
     if (isEditing && form.id) {
+      const previous = products.find((product) => product.id === form.id);
+      const previousPriceText = previous?.price_text ?? null;
+      // Saving other fields keeps a suggested category marked as suggested.
+      const categoryChanged =
+        payload.category_id !== (previous?.category_id ?? null);
       const { error: updateError } = await supabase
         .from("products")
-        .update(payload)
+        .update(
+          categoryChanged ? { ...payload, category_source: "manual" } : payload
+        )
         .eq("id", form.id);
 
       if (updateError) {
         setError(updateError.message);
       } else {
+        if (payload.price_text !== previousPriceText) {
+          await recordPrice(form.id);
+        }
         setMessage("Produto atualizado.");
         resetForm();
         setImageUrlInput("");
         await fetchProducts();
       }
     } else {
-      const { error: insertError } = await supabase
+      const { data: insertData, error: insertError } = await supabase
         .from("products")
-        .insert(payload);
+        .insert({ ...payload, category_source: "manual" })
+        .select("id")
+        .single();
 
       if (insertError) {
         setError(insertError.message);
       } else {
+        if (insertData?.id) {
+          await recordPrice(insertData.id);
+        }
         setMessage("Produto criado.");
         resetForm();
         setImageUrlInput("");
@@ -315,6 +517,11 @@ export default function AdminProductsPage() {
     setMessage(null);
     setError(null);
     setImageUrlInput("");
+    setCategoryHint(
+      !product.category && product.category_suggestion
+        ? `Sugestão pendente de revisão: ${product.category_suggestion} (${Math.round((product.category_confidence ?? 0) * 100)}%).`
+        : null
+    );
     setForm({
       id: product.id,
       title: product.title ?? "",
@@ -327,11 +534,13 @@ export default function AdminProductsPage() {
           : product.image_url
             ? [product.image_url]
             : [],
+      image_variants: product.image_variants ?? [],
       origin_url: product.origin_url ?? "",
       affiliate_url: product.affiliate_url ?? "",
+      source: product.source ?? "",
       tags: (product.tags ?? []).join(", "),
       store_name: product.store_name ?? "",
-      category: product.category ?? "",
+      category_id: product.category_id ?? "",
       is_featured: product.is_featured ?? false,
       is_exclusive: product.is_exclusive ?? false,
       is_trending: product.is_trending ?? false,
@@ -352,6 +561,8 @@ export default function AdminProductsPage() {
         product.hot_rank !== null && product.hot_rank !== undefined
           ? String(product.hot_rank)
           : "",
+      publish_at: toDateTimeInput(product.publish_at),
+      expire_at: toDateTimeInput(product.expire_at),
       is_active: product.is_active ?? false,
     });
 
@@ -395,6 +606,8 @@ export default function AdminProductsPage() {
     setStatusFilter("all");
     setSearchQuery("");
     setCategorySelections([]);
+    setSortOrder("recent");
+    setMinCommissionRate("");
   };
 
   const handleToggleSelect = (productId: string) => {
@@ -439,6 +652,129 @@ export default function AdminProductsPage() {
     setSaving(false);
   };
 
+  const handleCheckLinks = async () => {
+    setCheckingLinks(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/products/check-links", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        setError(
+          getRequestErrorMessage(response.status, {
+            action: "verificar links",
+            fallback: "Falha ao verificar links.",
+          })
+        );
+        return;
+      }
+
+      const payload = (await response.json()) as {
+        checked: number;
+        broken: number;
+        unpublished: number;
+        republished: number;
+      };
+      setMessage(
+        `${payload.checked} produtos verificados: ${payload.broken} com link quebrado, ${payload.unpublished} despublicados, ${payload.republished} republicados.`
+      );
+      await fetchProducts();
+    } catch {
+      setError("Falha ao verificar links.");
+    } finally {
+      setCheckingLinks(false);
+    }
+  };
+
+  const handleInferCategories = async () => {
+    setInferringCategories(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/products/infer-categories", {
+        method: "POST",
+        headers: await getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        setError(
+          getRequestErrorMessage(response.status, {
+            action: "categorizar produtos",
+            fallback: "Falha ao categorizar produtos.",
+          })
+        );
+        return;
+      }
+
+      const payload = (await response.json()) as {
+        checked: number;
+        updated: number;
+        queued: number;
+      };
+      setMessage(
+        `${payload.checked} produtos sem categoria analisados: ${payload.updated} categorizados e ${payload.queued} enviados para revisão.`
+      );
+      await fetchProducts();
+    } catch {
+      setError("Falha ao categorizar produtos.");
+    } finally {
+      setInferringCategories(false);
+    }
+  };
+
+  const handleEnrichSelected = async () => {
+    if (selectedIds.length === 0) return;
+
+    setEnriching(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const created = await createImportJob({
+        kind: "enrichment",
+        productIds: selectedIds,
+      });
+      if (!created.job) {
+        setError(
+          getRequestErrorMessage(created.errorStatus, {
+            action: "enriquecer produtos",
+            fallback: "Falha ao enriquecer produtos.",
+          })
+        );
+        return;
+      }
+      setSelectedIds([]);
+
+      const finished = await driveImportJob(created.job.id, (job) =>
+        setMessage(
+          `Enriquecendo produtos: ${getJobProgress(job)}% (${job.processed_rows}/${job.total_rows}).`
+        )
+      );
+      if (!finished.job) {
+        setError(
+          "Falha ao enriquecer produtos. Veja o histórico de importações."
+        );
+        return;
+      }
+
+      setMessage(
+        `${finished.job.enriched} produtos enriquecidos, ${finished.job.error_count} com falha.`
+      );
+    } catch {
+      setError(
+        "Conexão perdida. O enriquecimento continua em segundo plano; acompanhe no histórico de importações."
+      );
+    } finally {
+      setEnriching(false);
+      await fetchProducts();
+    }
+  };
+
   const handleApplyCategorySelected = async () => {
     if (selectedIds.length === 0) return;
     if (!bulkCategory.trim()) {
@@ -451,7 +787,7 @@ export default function AdminProductsPage() {
 
     const { error: updateError } = await supabase
       .from("products")
-      .update({ category: bulkCategory })
+      .update({ category_id: bulkCategory, category_source: "manual" })
       .in("id", selectedIds);
 
     if (updateError) {
@@ -524,17 +860,28 @@ export default function AdminProductsPage() {
         const dataUrl = reader.result as string;
         const response = await fetch("/api/products/upload-image", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ dataUrl, fileName: file.name }),
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({ dataUrl, productId: form.id }),
         });
 
         if (!response.ok) {
-          setError("Falha ao enviar imagem.");
+          setError(
+            getRequestErrorMessage(response.status, {
+              action: "enviar imagens",
+              fallback: "Falha ao enviar imagem.",
+            })
+          );
           setUploading(false);
           return;
         }
 
-        const payload = (await response.json()) as { url?: string };
+        const payload = (await response.json()) as {
+          url?: string;
+          variants?: ProductImageVariants;
+        };
         if (!payload.url) {
           setError("Falha ao enviar imagem.");
           setUploading(false);
@@ -544,6 +891,9 @@ export default function AdminProductsPage() {
         setForm((prev) => ({
           ...prev,
           image_urls: [...prev.image_urls, payload.url!],
+          image_variants: payload.variants
+            ? [...prev.image_variants, payload.variants]
+            : prev.image_variants,
         }));
       } catch {
         setError("Falha ao enviar imagem.");
@@ -631,21 +981,36 @@ export default function AdminProductsPage() {
               />
             </label>
             <label className="text-sm font-medium text-slate-700">
-              Categoria
+              <span className="flex items-center justify-between gap-2">
+                Categoria
+                <button
+                  type="button"
+                  onClick={handleSuggestCategory}
+                  disabled={suggestingCategory || !canEdit}
+                  className="text-xs font-normal text-slate-500 underline-offset-2 hover:text-slate-900 hover:underline disabled:opacity-60"
+                >
+                  {suggestingCategory ? "Sugerindo..." : "Sugerir categoria"}
+                </button>
+              </span>
               <select
-                value={form.category}
+                value={form.category_id}
                 onChange={(event) =>
-                  handleChange("category", event.target.value)
+                  handleChange("category_id", event.target.value)
                 }
                 className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
               >
                 <option value="">Sem categoria</option>
-                {CATEGORY_OPTIONS.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
+                {categoryOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
                   </option>
                 ))}
               </select>
+              {categoryHint ? (
+                <span className="mt-1 block text-xs font-normal text-slate-500">
+                  {categoryHint}
+                </span>
+              ) : null}
             </label>
             <label className="text-sm font-medium text-slate-700">
               Loja
@@ -690,7 +1055,7 @@ export default function AdminProductsPage() {
                     }
                     event.currentTarget.value = "";
                   }}
-                  disabled={uploading}
+                  disabled={uploading || !canEdit}
                 />
                 {uploading ? "Enviando..." : "Enviar arquivo"}
               </label>
@@ -736,6 +1101,24 @@ export default function AdminProductsPage() {
               required
             />
           </label>
+          <label className="text-sm font-medium text-slate-700">
+            Marketplace
+            <select
+              value={form.source}
+              onChange={(event) => handleChange("source", event.target.value)}
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            >
+              <option value="">
+                Detectar pelo link (
+                {getSourceLabel(detectSource(form.origin_url.trim()))})
+              </option>
+              {PRODUCT_SOURCES.map((source) => (
+                <option key={source} value={source}>
+                  {MARKETPLACES[source].label}
+                </option>
+              ))}
+            </select>
+          </label>
           <label className="text-sm font-medium text-slate-700">
             Link de afiliado
             <input
@@ -768,6 +1151,34 @@ export default function AdminProductsPage() {
             />
             Publicar agora
           </label>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="text-sm font-medium text-slate-700">
+              Publicar em (opcional)
+              <input
+                type="datetime-local"
+                value={form.publish_at}
+                onChange={(event) =>
+                  handleChange("publish_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Expira em (opcional)
+              <input
+                type="datetime-local"
+                value={form.expire_at}
+                onChange={(event) =>
+                  handleChange("expire_at", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              />
+            </label>
+            <p className="text-xs text-slate-500 md:col-span-2">
+              Com &quot;Publicar agora&quot; marcado, a oferta so aparece no
+              site entre essas datas. Deixe vazio para nao limitar.
+            </p>
+          </div>
           <div className="grid gap-3 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-700 md:grid-cols-2">
             <label className="flex items-center gap-3">
               <input
@@ -879,7 +1290,7 @@ export default function AdminProductsPage() {
           ) : null}
           <button
             type="submit"
-            disabled={saving}
+            disabled={saving || !canEdit}
             className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
           >
             {saving
@@ -909,6 +1320,28 @@ export default function AdminProductsPage() {
               placeholder="Buscar produto"
               className="w-full min-w-[220px] rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none sm:w-auto"
             />
+            <select
+              value={sortOrder}
+              onChange={(event) =>
+                setSortOrder(event.target.value as SortOrder)
+              }
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={minCommissionRate}
+              onChange={(event) => setMinCommissionRate(event.target.value)}
+              placeholder="Comissao min. (%)"
+              className="w-40 rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
+            />
             <div className="flex flex-wrap items-center gap-2 rounded-full border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600">
               <button
                 type="button"
@@ -943,6 +1376,17 @@ export default function AdminProductsPage() {
               >
                 Rascunhos ({draftCount})
               </button>
+              <button
+                type="button"
+                onClick={() => setStatusFilter("broken")}
+                className={`rounded-full px-3 py-1.5 transition ${
+                  statusFilter === "broken"
+                    ? "bg-slate-900 text-white"
+                    : "hover:bg-slate-100"
+                }`}
+              >
+                Links quebrados ({brokenCount})
+              </button>
             </div>
             <button
               type="button"
@@ -971,16 +1415,18 @@ export default function AdminProductsPage() {
               className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 focus:border-slate-400 focus:outline-none"
             >
               <option value="">Categoria em massa</option>
-              {CATEGORY_OPTIONS.map((category) => (
-                <option key={category} value={category}>
-                  {category}
+              {categoryOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
                 </option>
               ))}
             </select>
             <button
               type="button"
               onClick={handleApplyCategorySelected}
-              disabled={selectedIds.length === 0 || !bulkCategory || saving}
+              disabled={
+                selectedIds.length === 0 || !bulkCategory || saving || !canEdit
+              }
               className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
             >
               Aplicar categoria ({selectedIds.length})
@@ -988,15 +1434,25 @@ export default function AdminProductsPage() {
             <button
               type="button"
               onClick={handlePublishSelected}
-              disabled={selectedIds.length === 0 || saving}
+              disabled={selectedIds.length === 0 || saving || !canEdit}
               className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
             >
               Publicar selecionados ({selectedIds.length})
             </button>
+            <button
+              type="button"
+              onClick={handleEnrichSelected}
+              disabled={selectedIds.length === 0 || enriching || !canEdit}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+            >
+              {enriching
+                ? "Enriquecendo..."
+                : `Enriquecer selecionados (${selectedIds.length})`}
+            </button>
             <button
               type="button"
               onClick={handleDeleteSelected}
-              disabled={selectedIds.length === 0 || deleting}
+              disabled={selectedIds.length === 0 || deleting || !canEdit}
               className="rounded-full border border-rose-200 px-4 py-2 text-xs font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
             >
               Excluir selecionados ({selectedIds.length})
@@ -1008,6 +1464,24 @@ export default function AdminProductsPage() {
             >
               Atualizar lista
             </button>
+            <button
+              type="button"
+              onClick={handleCheckLinks}
+              disabled={checkingLinks || !canEdit}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+            >
+              {checkingLinks ? "Verificando links..." : "Verificar links"}
+            </button>
+            <button
+              type="button"
+              onClick={handleInferCategories}
+              disabled={inferringCategories || !canEdit}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+            >
+              {inferringCategories
+                ? "Categorizando..."
+                : "Categorizar sem categoria"}
+            </button>
           </div>
         </div>
 
@@ -1039,18 +1513,18 @@ export default function AdminProductsPage() {
               />
               Sem categoria ({uncategorizedCount})
             </label>
-            {CATEGORY_OPTIONS.map((category) => (
+            {categoryOptions.map((option) => (
               <label
-                key={category}
+                key={option.id}
                 className="flex items-center gap-2 text-xs text-slate-600"
               >
                 <input
                   type="checkbox"
-                  checked={categorySelections.includes(category)}
-                  onChange={() => toggleCategorySelection(category)}
+                  checked={categorySelections.includes(option.id)}
+                  onChange={() => toggleCategorySelection(option.id)}
                   className="h-4 w-4 rounded border-slate-300 text-slate-900"
                 />
-                {category} ({categoryCounts.get(category) ?? 0})
+                {option.label} ({categoryCounts.get(option.id) ?? 0})
               </label>
             ))}
           </div>
@@ -1097,18 +1571,24 @@ export default function AdminProductsPage() {
                         </h3>
                         <span
                           className={`rounded-full px-2.5 py-1 text-[11px] uppercase tracking-wide ${
-                            product.is_active
-                              ? "bg-emerald-100 text-emerald-700"
-                              : "bg-slate-200 text-slate-600"
+                            scheduleStatusStyles[getScheduleStatus(product)]
                           }`}
                         >
-                          {product.is_active ? "Publicado" : "Rascunho"}
+                          {scheduleStatusLabels[getScheduleStatus(product)]}
                         </span>
                         {attention ? (
                           <span className="rounded-full bg-amber-100 px-2.5 py-1 text-[11px] uppercase tracking-wide text-amber-700">
                             Completar imagem/categoria
                           </span>
                         ) : null}
+                        {product.link_status === "broken" ? (
+                          <span
+                            className="rounded-full bg-rose-100 px-2.5 py-1 text-[11px] uppercase tracking-wide text-rose-700"
+                            title={`${product.link_error ?? "erro"} (${product.link_failure_streak ?? 0}x seguidas)`}
+                          >
+                            Link quebrado
+                          </span>
+                        ) : null}
                         {selected ? (
                           <span className="rounded-full bg-slate-900 px-2.5 py-1 text-[11px] uppercase tracking-wide text-white">
                             Selecionado
@@ -1136,10 +1616,17 @@ export default function AdminProductsPage() {
                     >
                       Editar
                     </button>
+                    <Link
+                      href={`/admin/audit?table=products&row=${product.id}`}
+                      className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                    >
+                      Histórico
+                    </Link>
                     <button
                       type="button"
                       onClick={() => handleDelete(product.id)}
-                      className="rounded-full border border-rose-200 px-4 py-2 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700"
+                      disabled={!canEdit}
+                      className="rounded-full border border-rose-200 px-4 py-2 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
                     >
                       Excluir
                     </button>
@@ -1147,8 +1634,19 @@ export default function AdminProductsPage() {
                 </div>
                 <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-500">
                   <span>Preço: {product.price_text ?? "sem preço"}</span>
+                  <span>Marketplace: {getSourceLabel(product.source)}</span>
                   <span>Loja: {product.store_name ?? "-"}</span>
                   <span>Categoria: {product.category ?? "-"}</span>
+                  <span>
+                    Comissao:{" "}
+                    {product.commission_rate != null
+                      ? formatCommissionRate(product.commission_rate)
+                      : "-"}
+                    {product.commission_value != null
+                      ? ` (${formatPrice(product.commission_value)})`
+                      : ""}
+                  </span>
+                  <span>Vendas: {product.sales ?? "-"}</span>
                   <span>
                     Imagens:{" "}
                     {(product.image_urls?.length ?? 0) > 0
@@ -0,0 +1,489 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import { buildInternalLink } from "@/lib/campaigns";
+import {
+  SHORT_LINK_TARGETS,
+  generateShortCode,
+  isValidShortCode,
+} from "@/lib/shortLinks";
+import type {
+  Campaign,
+  Collection,
+  HomeBanner,
+  Product,
+  ShortLink,
+  ShortLinkTarget,
+} from "@/lib/types";
+
+type ShortLinkFormState = {
+  id?: string;
+  code: string;
+  target_type: ShortLinkTarget;
+  target_id: string;
+  src: string;
+  camp: string;
+  is_active: boolean;
+};
+
+const emptyForm: ShortLinkFormState = {
+  code: "",
+  target_type: "product",
+  target_id: "",
+  src: "whats",
+  camp: "",
+  is_active: true,
+};
+
+const targetColumn: Record<ShortLinkTarget, keyof ShortLink> = {
+  product: "product_id",
+  collection: "collection_id",
+  banner: "banner_id",
+};
+
+export default function AdminShortLinksPage() {
+  const { canEdit } = useAdminRole();
+  const [links, setLinks] = useState<ShortLink[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [banners, setBanners] = useState<HomeBanner[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ShortLinkFormState>(emptyForm);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = Boolean(form.id);
+
+  const fetchLinks = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await supabase
+      .from("short_links")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setLinks((data ?? []) as ShortLink[]);
+    }
+    setLoading(false);
+  }, []);
+
+  const fetchTargets = useCallback(async () => {
+    const [productsResult, collectionsResult, bannersResult, campaignsResult] =
+      await Promise.all([
+        supabase
+          .from("products")
+          .select("id, title, slug, is_active")
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("collections")
+          .select("id, name, slug, is_active")
+          .order("name", { ascending: true }),
+        supabase
+          .from("home_banners")
+          .select("id, title, cta_url, is_active")
+          .order("sort_order", { ascending: true }),
+        supabase
+          .from("campaigns")
+          .select("id, name, slug")
+          .eq("is_active", true)
+          .order("created_at", { ascending: false }),
+      ]);
+
+    setProducts((productsResult.data ?? []) as Product[]);
+    setCollections((collectionsResult.data ?? []) as Collection[]);
+    setBanners((bannersResult.data ?? []) as HomeBanner[]);
+    setCampaigns((campaignsResult.data ?? []) as Campaign[]);
+  }, []);
+
+  useEffect(() => {
+    void fetchLinks();
+    void fetchTargets();
+  }, [fetchLinks, fetchTargets]);
+
+  const targetOptions = useMemo(() => {
+    if (form.target_type === "collection") {
+      return collections.map((collection) => ({
+        id: collection.id,
+        label: collection.name,
+      }));
+    }
+    if (form.target_type === "banner") {
+      return banners.map((banner) => ({
+        id: banner.id,
+        label: banner.cta_url
+          ? banner.title
+          : `${banner.title} (sem link de CTA)`,
+      }));
+    }
+    return products.map((product) => ({
+      id: product.id,
+      label: product.is_active ? product.title : `${product.title} (rascunho)`,
+    }));
+  }, [form.target_type, products, collections, banners]);
+
+  const getTargetLabel = (link: ShortLink) => {
+    if (link.target_type === "collection") {
+      return (
+        collections.find((item) => item.id === link.collection_id)?.name ??
+        "Lista removida"
+      );
+    }
+    if (link.target_type === "banner") {
+      return (
+        banners.find((item) => item.id === link.banner_id)?.title ??
+        "Banner removido"
+      );
+    }
+    return (
+      products.find((item) => item.id === link.product_id)?.title ??
+      "Produto removido"
+    );
+  };
+
+  const handleChange = (
+    field: keyof ShortLinkFormState,
+    value: string | boolean
+  ) => {
+    setForm((prev) => ({
+      ...prev,
+      [field]: value,
+      ...(field === "target_type" ? { target_id: "" } : {}),
+    }));
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const code = form.code.trim() || generateShortCode();
+    if (!isValidShortCode(code)) {
+      setError("Código inválido. Use de 3 a 32 letras, números, - ou _.");
+      return;
+    }
+    if (!form.target_id) {
+      setError("Selecione o destino do link.");
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      code,
+      target_type: form.target_type,
+      product_id: form.target_type === "product" ? form.target_id : null,
+      collection_id: form.target_type === "collection" ? form.target_id : null,
+      banner_id: form.target_type === "banner" ? form.target_id : null,
+      src: form.src.trim() || null,
+      camp: form.camp.trim() || null,
+      is_active: form.is_active,
+    };
+
+    const { error: saveError } =
+      isEditing && form.id
+        ? await supabase.from("short_links").update(payload).eq("id", form.id)
+        : await supabase.from("short_links").insert(payload);
+
+    if (saveError) {
+      setError(
+        saveError.code === "23505"
+          ? "Esse código já está em uso."
+          : saveError.message
+      );
+    } else {
+      setMessage(isEditing ? "Link curto atualizado." : "Link curto criado.");
+      resetForm();
+      await fetchLinks();
+    }
+
+    setSaving(false);
+  };
+
+  const handleEdit = (link: ShortLink) => {
+    setForm({
+      id: link.id,
+      code: link.code,
+      target_type: link.target_type,
+      target_id: (link[targetColumn[link.target_type]] as string | null) ?? "",
+      src: link.src ?? "",
+      camp: link.camp ?? "",
+      is_active: link.is_active,
+    });
+  };
+
+  const handleToggle = async (link: ShortLink) => {
+    const { error: updateError } = await supabase
+      .from("short_links")
+      .update({ is_active: !link.is_active })
+      .eq("id", link.id);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      setMessage(link.is_active ? "Link desativado." : "Link reativado.");
+      await fetchLinks();
+    }
+  };
+
+  const handleDelete = async (linkId: string) => {
+    const confirmed = window.confirm("Deseja remover este link curto?");
+    if (!confirmed) return;
+
+    const { error: deleteError } = await supabase
+      .from("short_links")
+      .delete()
+      .eq("id", linkId);
+
+    if (deleteError) {
+      setError(deleteError.message);
+    } else {
+      setMessage("Link curto removido.");
+      await fetchLinks();
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(buildInternalLink(`/s/${code}`));
+      setMessage("Link copiado para a área de transferência.");
+    } catch {
+      setError("Nao foi possivel copiar. Tente novamente.");
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              {isEditing ? "Editar link curto" : "Novo link curto"}
+            </h2>
+            <p className="text-sm text-slate-500">
+              Links /s/codigo para produtos, listas ou banners, com src e camp.
+            </p>
+          </div>
+          {isEditing ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Cancelar edição
+            </button>
+          ) : null}
+        </div>
+        <form className="mt-6 grid gap-4" onSubmit={handleSubmit}>
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm font-medium text-slate-700">
+              Código
+              <input
+                type="text"
+                value={form.code}
+                onChange={(event) => handleChange("code", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Vazio = gerado automaticamente"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Tipo de destino
+              <select
+                value={form.target_type}
+                onChange={(event) =>
+                  handleChange("target_type", event.target.value)
+                }
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              >
+                {SHORT_LINK_TARGETS.map((target) => (
+                  <option key={target.value} value={target.value}>
+                    {target.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Destino
+              <select
+                value={form.target_id}
+                onChange={(event) => handleChange("target_id", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+              >
+                <option value="">Selecione</option>
+                {targetOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="text-sm font-medium text-slate-700">
+              Origem (src)
+              <input
+                type="text"
+                value={form.src}
+                onChange={(event) => handleChange("src", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="Ex: whats, insta"
+              />
+            </label>
+            <label className="text-sm font-medium text-slate-700">
+              Campanha (camp)
+              <input
+                type="text"
+                list="short-link-campaigns"
+                value={form.camp}
+                onChange={(event) => handleChange("camp", event.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                placeholder="default"
+              />
+              <datalist id="short-link-campaigns">
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.slug}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </datalist>
+            </label>
+          </div>
+          <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(event) => handleChange("is_active", event.target.checked)}
+              className="h-4 w-4 rounded border-slate-300 text-slate-900"
+            />
+            Link ativo
+          </label>
+          {message ? (
+            <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+              {message}
+            </div>
+          ) : null}
+          {error ? (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+              {error}
+            </div>
+          ) : null}
+          <button
+            type="submit"
+            disabled={saving || !canEdit}
+            className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving
+              ? "Salvando..."
+              : isEditing
+                ? "Atualizar link"
+                : "Criar link"}
+          </button>
+        </form>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Links curtos</h2>
+            <p className="text-sm text-slate-500">
+              Links desativados redirecionam para a home.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={fetchLinks}
+            className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Atualizar
+          </button>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          {loading ? (
+            <p className="text-sm text-slate-500">Carregando links...</p>
+          ) : null}
+          {!loading && links.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Nenhum link curto criado ainda.
+            </p>
+          ) : null}
+          {links.map((link) => (
+            <div
+              key={link.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3"
+            >
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="text-base font-semibold text-slate-900">
+                    /s/{link.code}
+                  </h3>
+                  {link.is_active ? (
+                    <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-[11px] uppercase tracking-wide text-emerald-700">
+                      ativo
+                    </span>
+                  ) : (
+                    <span className="rounded-full bg-slate-200 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
+                      desativado
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500">
+                  {SHORT_LINK_TARGETS.find(
+                    (target) => target.value === link.target_type
+                  )?.label ?? link.target_type}
+                  : {getTargetLabel(link)}
+                  {link.src ? ` · src=${link.src}` : ""}
+                  {link.camp ? ` · camp=${link.camp}` : ""}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold text-slate-900">
+                  {link.click_count} cliques
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleCopy(link.code)}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                >
+                  Copiar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleEdit(link)}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                >
+                  Editar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleToggle(link)}
+                  disabled={!canEdit}
+                  className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+                >
+                  {link.is_active ? "Desativar" : "Ativar"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(link.id)}
+                  disabled={!canEdit}
+                  className="rounded-full border border-rose-200 px-3 py-1.5 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase/client";
+import { useAdminRole } from "@/components/admin/AdminRoleContext";
+import type { TagStat } from "@/lib/types";
+
+export default function AdminTagsPage() {
+  const { canEdit } = useAdminRole();
+  const [tags, setTags] = useState<TagStat[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [target, setTarget] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    setLoading(true);
+    const { data, error: fetchError } = await supabase.rpc("tag_stats");
+
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setTags((data ?? []) as TagStat[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void fetchTags();
+  }, [fetchTags]);
+
+  // Spellings that land on the same /tag/[slug] page ("Fone" and "fone").
+  const variantsBySlug = useMemo(() => {
+    const map = new Map<string, TagStat[]>();
+    tags.forEach((item) => {
+      map.set(item.slug, [...(map.get(item.slug) ?? []), item]);
+    });
+    return map;
+  }, [tags]);
+
+  const filteredTags = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return tags;
+    return tags.filter(
+      (item) =>
+        item.tag.toLowerCase().includes(term) || item.slug.includes(term)
+    );
+  }, [tags, search]);
+
+  const selectedProducts = useMemo(
+    () =>
+      tags
+        .filter((item) => selected.includes(item.tag))
+        .reduce((total, item) => total + item.products, 0),
+    [tags, selected]
+  );
+
+  const toggleTag = (tag: string) => {
+    setSelected((current) =>
+      current.includes(tag)
+        ? current.filter((item) => item !== tag)
+        : [...current, tag]
+    );
+  };
+
+  const selectVariants = (slug: string) => {
+    const variants = variantsBySlug.get(slug) ?? [];
+    setSelected(variants.map((item) => item.tag));
+    setTarget(variants[0]?.tag ?? "");
+  };
+
+  const clearSelection = () => {
+    setSelected([]);
+    setTarget("");
+  };
+
+  const replaceTags = async (targetTag: string | null) => {
+    setMessage(null);
+    setError(null);
+    setSaving(true);
+
+    const { data, error: replaceError } = await supabase.rpc(
+      "replace_product_tags",
+      { source_tags: selected, target_tag: targetTag }
+    );
+
+    if (replaceError) {
+      setError(replaceError.message);
+    } else {
+      const updated = typeof data === "number" ? data : 0;
+      setMessage(
+        targetTag
+          ? `${selected.length === 1 ? "Tag renomeada" : "Tags mescladas"} para "${targetTag}" em ${updated} produtos.`
+          : `Tags removidas de ${updated} produtos.`
+      );
+      clearSelection();
+      await fetchTags();
+    }
+
+    setSaving(false);
+  };
+
+  const handleRename = async () => {
+    const targetTag = target.trim();
+    if (!targetTag) {
+      setError("Informe o novo nome da tag.");
+      return;
+    }
+    if (selected.length === 1 && selected[0] === targetTag) {
+      setError("Escolha um nome diferente do atual.");
+      return;
+    }
+    const confirmed = window.confirm(
+      `Trocar ${selected.map((tag) => `"${tag}"`).join(", ")} por "${targetTag}" em ${selectedProducts} produtos?`
+    );
+    if (!confirmed) return;
+    await replaceTags(targetTag);
+  };
+
+  const handleDelete = async () => {
+    const confirmed = window.confirm(
+      `Remover ${selected.map((tag) => `"${tag}"`).join(", ")} de ${selectedProducts} produtos?`
+    );
+    if (!confirmed) return;
+    await replaceTags(null);
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Tags</h2>
+          <p className="text-sm text-slate-500">
+            Todas as tags usadas nos produtos. Selecione uma para renomear,
+            várias para mesclar em uma só, ou exclua de todos os produtos.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void fetchTags()}
+          disabled={loading}
+          className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:opacity-60"
+        >
+          Atualizar
+        </button>
+      </div>
+
+      <input
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Buscar tag"
+        className="mt-6 w-full rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+      />
+
+      {selected.length > 0 ? (
+        <div className="mt-4 space-y-3 rounded-2xl border border-slate-200 bg-slate-50 p-4">
+          <p className="text-sm text-slate-700">
+            {selected.length} tags selecionadas · {selectedProducts} produtos
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={target}
+              onChange={(event) => setTarget(event.target.value)}
+              placeholder="Novo nome"
+              className="min-w-[200px] flex-1 rounded-xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={handleRename}
+              disabled={saving || !canEdit}
+              className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-800 disabled:opacity-60"
+            >
+              {selected.length === 1 ? "Renomear" : "Mesclar"}
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={saving || !canEdit}
+              className="rounded-full border border-rose-200 px-4 py-2 text-xs text-rose-600 transition hover:border-rose-300 hover:text-rose-700 disabled:opacity-60"
+            >
+              Excluir
+            </button>
+            <button
+              type="button"
+              onClick={clearSelection}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Limpar seleção
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {message ? (
+        <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-xs text-emerald-700">
+          {message}
+        </div>
+      ) : null}
+      {error ? (
+        <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-2 text-xs text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-2">
+        {loading ? (
+          <p className="text-sm text-slate-500">Carregando tags...</p>
+        ) : null}
+        {!loading && filteredTags.length === 0 ? (
+          <p className="text-sm text-slate-500">Nenhuma tag encontrada.</p>
+        ) : null}
+        {filteredTags.map((item) => {
+          const variants = variantsBySlug.get(item.slug) ?? [];
+          return (
+            <div
+              key={item.tag}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3"
+            >
+              <label className="flex items-center gap-3 text-sm text-slate-900">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(item.tag)}
+                  onChange={() => toggleTag(item.tag)}
+                  className="h-4 w-4 rounded border-slate-300 text-slate-900"
+                />
+                <span className="font-medium">{item.tag}</span>
+                {variants.length > 1 ? (
+                  <button
+                    type="button"
+                    onClick={() => selectVariants(item.slug)}
+                    className="rounded-full bg-amber-100 px-2.5 py-1 text-[11px] text-amber-700 transition hover:bg-amber-200"
+                  >
+                    {variants.length} grafias
+                  </button>
+                ) : null}
+              </label>
+              <div className="flex items-center gap-3 text-xs text-slate-500">
+                {item.slug && item.published > 0 ? (
+                  <Link
+                    href={`/tag/${item.slug}`}
+                    className="hover:text-slate-700"
+                    target="_blank"
+                  >
+                    /tag/{item.slug}
+                  </Link>
+                ) : null}
+                <span>{item.published} publicados</span>
+                <span className="text-sm font-semibold text-slate-900">
+                  {item.products} produtos
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
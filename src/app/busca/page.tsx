@@ -0,0 +1,128 @@
+import Link from "next/link";
+import { createServerClient } from "@/lib/supabase/server";
+import { ProductCard } from "@/components/ProductCard";
+import { SearchSuggest } from "@/components/SearchSuggest";
+import {
+  PAGE_SIZE,
+  fetchSearchResults,
+  parsePageParam,
+  priceRanges,
+} from "@/lib/catalog";
+
+export const revalidate = 60;
+
+type SearchPageProps = {
+  searchParams?: {
+    q?: string;
+    price?: string;
+    page?: string;
+  };
+};
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const query = typeof searchParams?.q === "string" ? searchParams.q.trim() : "";
+  const selectedPrice =
+    typeof searchParams?.price === "string" ? searchParams.price : "all";
+  const selectedPage = parsePageParam(searchParams?.page);
+  const supabase = createServerClient();
+
+  const results =
+    supabase && query
+      ? await fetchSearchResults(supabase, query, selectedPrice, selectedPage)
+      : { products: [], total: 0 };
+
+  const totalPages = Math.max(1, Math.ceil(results.total / PAGE_SIZE));
+
+  const buildPageHref = (page: number) => {
+    const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (selectedPrice !== "all") params.set("price", selectedPrice);
+    if (page > 1) params.set("page", String(page));
+    return `/busca?${params.toString()}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
+      <div className="mx-auto w-full max-w-5xl">
+        <Link
+          href="/"
+          className="text-sm text-slate-500 transition hover:text-slate-700"
+        >
+          Voltar para a vitrine
+        </Link>
+        <h1 className="mt-3 text-3xl font-semibold text-slate-900">
+          {query ? `Resultados para "${query}"` : "Buscar ofertas"}
+        </h1>
+        <p className="mt-2 text-sm text-slate-600">
+          {query
+            ? `${results.total} ofertas encontradas.`
+            : "Digite o nome do produto, marca, loja ou categoria."}
+        </p>
+
+        <form className="mt-6 flex flex-wrap gap-3" method="get" action="/busca">
+          <SearchSuggest
+            defaultValue={query}
+            placeholder="Ex.: fone bluetooth, tenis corrida"
+            className="min-w-[220px] flex-1"
+          />
+          <select
+            name="price"
+            defaultValue={selectedPrice}
+            className="min-w-[180px] rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            {priceRanges.map((range) => (
+              <option key={range.value} value={range.value}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="w-full rounded-2xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 sm:w-auto"
+          >
+            Buscar
+          </button>
+        </form>
+
+        {query ? (
+          <div className="mt-8 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {results.products.length === 0 ? (
+              <div className="col-span-full rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
+                Nenhuma oferta encontrada. Tente outras palavras ou confira a
+                grafia.
+              </div>
+            ) : (
+              results.products.map((product) => (
+                <ProductCard key={product.id} product={product} />
+              ))
+            )}
+          </div>
+        ) : null}
+
+        {query && totalPages > 1 ? (
+          <nav className="mt-6 flex flex-wrap items-center justify-center gap-3 text-xs text-slate-500">
+            {selectedPage > 1 ? (
+              <Link
+                href={buildPageHref(selectedPage - 1)}
+                className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+              >
+                Anterior
+              </Link>
+            ) : null}
+            <span>
+              Página {selectedPage} de {totalPages}
+            </span>
+            {selectedPage < totalPages ? (
+              <Link
+                href={buildPageHref(selectedPage + 1)}
+                className="rounded-full border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+              >
+                Próxima
+              </Link>
+            ) : null}
+          </nav>
+        ) : null}
+      </div>
+    </div>
+  );
+}
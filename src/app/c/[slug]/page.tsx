@@ -1,69 +1,175 @@
 ﻿import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
 import { createServerClient } from "@/lib/supabase/server";
-import { slugify } from "@/lib/slugify";
-import { ProductCard } from "@/components/ProductCard";
-import { CATEGORY_OPTIONS } from "@/lib/categories";
-import type { Product } from "@/lib/types";
+import { InfiniteProductGrid } from "@/components/InfiniteProductGrid";
+import { getCategoryPath, getChildCategories } from "@/lib/categories";
+import {
+  fetchCatalogPage,
+  fetchCategoryFilter,
+  priceRanges,
+  sortOptions,
+} from "@/lib/catalog";
 
 export const revalidate = 60;
 
 type PageProps = {
   params: { slug: string };
+  searchParams?: {
+    price?: string;
+    sort?: string;
+    cursor?: string;
+  };
 };
 
-export default async function CategoryPage({ params }: PageProps) {
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const supabase = createServerClient();
+  if (!supabase) return {};
+  const { category } = await fetchCategoryFilter(supabase, params.slug);
+  if (!category) return {};
+  return {
+    title: `${category.name} | Vitrine de Promoções`,
+    description: category.description ?? undefined,
+  };
+}
+
+export default async function CategoryPage({ params, searchParams }: PageProps) {
   const slugParam = typeof params?.slug === "string" ? params.slug : "";
+  const selectedPrice =
+    typeof searchParams?.price === "string" ? searchParams.price : "all";
+  const selectedSort =
+    typeof searchParams?.sort === "string" ? searchParams.sort : "recent";
+  const cursorParam =
+    typeof searchParams?.cursor === "string" ? searchParams.cursor : null;
   const supabase = createServerClient();
-  const { data } = supabase
-    ? await supabase
-        .from("products")
-        .select(
-          "id, slug, title, description_short, price_text, image_url, image_urls, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, is_active, created_at"
-        )
-        .eq("is_active", true)
-        .order("created_at", { ascending: false })
-    : { data: [] };
 
-  const products = (data ?? []) as Product[];
-  const filtered = products.filter((product) => {
-    if (!product.category) return false;
-    return slugify(product.category) === slugParam;
-  });
+  const { categories, category, categoryIds } = supabase
+    ? await fetchCategoryFilter(supabase, slugParam)
+    : { categories: [], category: null, categoryIds: [] };
+  if (!category) notFound();
 
-  const knownCategory =
-    CATEGORY_OPTIONS.find((category) => slugify(category) === slugParam) ??
-    null;
-  const fallbackName = slugParam ? slugParam.replace(/-/g, " ") : "Categoria";
-  const categoryName =
-    filtered[0]?.category ?? knownCategory ?? fallbackName ?? "Categoria";
+  const path = getCategoryPath(categories, category.id);
+  const subcategories = getChildCategories(categories, category.id);
+
+  const catalog =
+    supabase && categoryIds.length > 0
+      ? await fetchCatalogPage(
+          supabase,
+          {
+            query: "",
+            categoryIds,
+            tags: null,
+            price: selectedPrice,
+            sort: selectedSort,
+          },
+          cursorParam,
+          true
+        )
+      : { products: [], nextCursor: null, total: 0 };
+
+  const gridFilters: Record<string, string> = { cat: slugParam };
+  if (selectedPrice !== "all") gridFilters.price = selectedPrice;
+  if (selectedSort !== "recent") gridFilters.sort = selectedSort;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
       <div className="mx-auto w-full max-w-5xl">
-        <Link
-          href="/c"
-          className="text-sm text-slate-500 transition hover:text-slate-700"
+        <nav
+          aria-label="Trilha de navegação"
+          className="flex flex-wrap items-center gap-2 text-sm text-slate-500"
         >
-          Voltar para categorias
-        </Link>
+          <Link href="/" className="transition hover:text-slate-700">
+            Vitrine
+          </Link>
+          <span>/</span>
+          <Link href="/c" className="transition hover:text-slate-700">
+            Categorias
+          </Link>
+          {path.slice(0, -1).map((ancestor) => (
+            <span key={ancestor.id} className="flex items-center gap-2">
+              <span>/</span>
+              <Link
+                href={`/c/${ancestor.slug}`}
+                className="transition hover:text-slate-700"
+              >
+                {ancestor.name}
+              </Link>
+            </span>
+          ))}
+          <span>/</span>
+          <span className="text-slate-700">{category.name}</span>
+        </nav>
         <h1 className="mt-3 text-3xl font-semibold text-slate-900">
-          {categoryName}
+          {category.icon ? `${category.icon} ` : ""}
+          {category.name}
         </h1>
+        {category.description ? (
+          <p className="mt-2 max-w-3xl text-sm text-slate-600">
+            {category.description}
+          </p>
+        ) : null}
         <p className="mt-2 text-sm text-slate-600">
-          {filtered.length} ofertas selecionadas para esta categoria.
+          {catalog.total !== null
+            ? `${catalog.total} ofertas selecionadas para esta categoria.`
+            : "Continuando a lista de ofertas desta categoria."}
         </p>
 
-        <div className="mt-8 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {filtered.length === 0 ? (
-            <div className="col-span-full rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
-              Nenhuma oferta publicada nesta categoria ainda.
-            </div>
-          ) : (
-            filtered.map((product) => (
-              <ProductCard key={product.id} product={product} />
-            ))
-          )}
-        </div>
+        {subcategories.length > 0 ? (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {subcategories.map((subcategory) => (
+              <Link
+                key={subcategory.id}
+                href={`/c/${subcategory.slug}`}
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+              >
+                {subcategory.icon ? `${subcategory.icon} ` : ""}
+                {subcategory.name}
+              </Link>
+            ))}
+          </div>
+        ) : null}
+
+        <form className="mt-6 flex flex-wrap gap-3" method="get">
+          <select
+            name="price"
+            defaultValue={selectedPrice}
+            className="min-w-[180px] flex-1 rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            {priceRanges.map((range) => (
+              <option key={range.value} value={range.value}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          <select
+            name="sort"
+            defaultValue={selectedSort}
+            className="min-w-[180px] flex-1 rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            {sortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="w-full rounded-2xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 sm:w-auto"
+          >
+            Filtrar
+          </button>
+        </form>
+
+        <InfiniteProductGrid
+          key={JSON.stringify([gridFilters, cursorParam])}
+          initialProducts={catalog.products}
+          initialCursor={catalog.nextCursor}
+          filters={gridFilters}
+          basePath={`/c/${slugParam}`}
+          emptyMessage="Nenhuma oferta publicada nesta categoria ainda."
+        />
       </div>
     </div>
   );
@@ -1,50 +1,41 @@
 ﻿import Link from "next/link";
 import { createServerClient } from "@/lib/supabase/server";
-import { slugify } from "@/lib/slugify";
-import type { Product } from "@/lib/types";
+import {
+  fetchCategoryCounts,
+  priceRanges,
+  summarizeCategories,
+} from "@/lib/catalog";
+import { loadCategories } from "@/lib/categories";
 
 export const revalidate = 60;
 
-type CategorySummary = {
-  name: string;
-  slug: string;
-  count: number;
+type PageProps = {
+  searchParams?: { price?: string };
 };
 
-function buildCategories(products: Product[]): CategorySummary[] {
-  const map = new Map<string, CategorySummary>();
-
-  products.forEach((product) => {
-    const name = product.category?.trim();
-    if (!name) return;
-    const slug = slugify(name);
-    if (!slug) return;
-
-    const existing = map.get(slug);
-    if (existing) {
-      existing.count += 1;
-    } else {
-      map.set(slug, { name, slug, count: 1 });
-    }
-  });
-
-  return Array.from(map.values()).sort((a, b) => {
-    if (b.count !== a.count) return b.count - a.count;
-    return a.name.localeCompare(b.name);
-  });
-}
-
-export default async function CategoriesPage() {
+export default async function CategoriesPage({ searchParams }: PageProps) {
+  const selectedPrice =
+    typeof searchParams?.price === "string" ? searchParams.price : "all";
   const supabase = createServerClient();
-  const { data } = supabase
-    ? await supabase
-        .from("products")
-        .select("id, category, is_active")
-        .eq("is_active", true)
-    : { data: [] };
 
-  const products = (data ?? []) as Product[];
-  const categories = buildCategories(products);
+  const categoryCounts = supabase
+    ? await fetchCategoryCounts(supabase, selectedPrice)
+    : new Map<string, number>();
+  const { categories: allCategories } = supabase
+    ? await loadCategories(supabase, { activeOnly: true })
+    : { categories: [] };
+
+  const summaries = summarizeCategories(allCategories, categoryCounts).filter(
+    (category) => category.count > 0
+  );
+  const activeIds = new Set(allCategories.map((category) => category.id));
+  const categories = summaries.filter(
+    (category) => !category.parent_id || !activeIds.has(category.parent_id)
+  );
+  const priceQuery =
+    selectedPrice !== "all"
+      ? `?price=${encodeURIComponent(selectedPrice)}`
+      : "";
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
@@ -64,6 +55,25 @@ export default async function CategoriesPage() {
               {categories.length} categorias com ofertas ativas.
             </p>
           </div>
+          <form className="flex flex-wrap gap-3" method="get">
+            <select
+              name="price"
+              defaultValue={selectedPrice}
+              className="min-w-[180px] rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+            >
+              {priceRanges.map((range) => (
+                <option key={range.value} value={range.value}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="rounded-2xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800"
+            >
+              Filtrar
+            </button>
+          </form>
         </div>
 
         <div className="mt-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -72,23 +82,47 @@ export default async function CategoriesPage() {
               Nenhuma categoria encontrada ainda.
             </div>
           ) : (
-            categories.map((category) => (
-              <Link
-                key={category.slug}
-                href={`/c/${category.slug}`}
-                className="rounded-3xl border border-white/70 bg-white/90 p-6 shadow-sm transition hover:-translate-y-1 hover:shadow-lg"
-              >
-                <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
-                  Categoria
-                </p>
-                <h2 className="mt-2 text-xl font-semibold text-slate-900">
-                  {category.name}
-                </h2>
-                <p className="mt-2 text-sm text-slate-500">
-                  {category.count} ofertas
-                </p>
-              </Link>
-            ))
+            categories.map((category) => {
+              const subcategories = summaries.filter(
+                (item) => item.parent_id === category.id
+              );
+              return (
+                <div
+                  key={category.id}
+                  className="rounded-3xl border border-white/70 bg-white/90 p-6 shadow-sm transition hover:-translate-y-1 hover:shadow-lg"
+                >
+                  <Link href={`/c/${category.slug}${priceQuery}`}>
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
+                      {category.icon ? `${category.icon} ` : ""}Categoria
+                    </p>
+                    <h2 className="mt-2 text-xl font-semibold text-slate-900">
+                      {category.name}
+                    </h2>
+                    {category.description ? (
+                      <p className="mt-2 line-clamp-2 text-sm text-slate-600">
+                        {category.description}
+                      </p>
+                    ) : null}
+                    <p className="mt-2 text-sm text-slate-500">
+                      {category.count} ofertas
+                    </p>
+                  </Link>
+                  {subcategories.length > 0 ? (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      {subcategories.map((subcategory) => (
+                        <Link
+                          key={subcategory.id}
+                          href={`/c/${subcategory.slug}${priceQuery}`}
+                          className="rounded-full border border-slate-200 px-3 py-1 text-xs text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                        >
+                          {subcategory.name} ({subcategory.count})
+                        </Link>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })
           )}
         </div>
       </div>
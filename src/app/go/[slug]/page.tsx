@@ -1,6 +1,8 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { createServerClient } from "@/lib/supabase/server";
+import { onlyPublished } from "@/lib/schedule";
+import { getSourceDestination } from "@/lib/marketplaces";
 import type { Product } from "@/lib/types";
 
 export const revalidate = 60;
@@ -21,12 +23,13 @@ function buildOutUrl(slug: string, src?: string, camp?: string) {
 export default async function GoPage({ params, searchParams }: PageProps) {
   const supabase = createServerClient();
   const { data } = supabase
-    ? await supabase
-        .from("products")
-        .select("title, price_text, image_url, is_active, slug")
-        .eq("slug", params.slug)
-        .eq("is_active", true)
-        .single()
+    ? await onlyPublished(
+        supabase
+          .from("products")
+          .select("title, price_text, image_url, is_active, slug, source")
+          .eq("slug", params.slug)
+          .eq("is_active", true)
+      ).single()
     : { data: null };
 
   if (!data) {
@@ -81,7 +84,7 @@ export default async function GoPage({ params, searchParams }: PageProps) {
                 className="rounded-2xl bg-slate-900 px-5 py-4 text-center text-sm font-semibold text-white transition hover:bg-slate-800"
                 rel="nofollow"
               >
-                Ir para o produto na Shopee
+                Ir para o produto {getSourceDestination(product.source)}
               </a>
             </div>
 
@@ -3,6 +3,7 @@ import { createServerClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { ProductCard } from "@/components/ProductCard";
 import { slugify } from "@/lib/slugify";
+import { isPublished } from "@/lib/schedule";
 import type { Collection, CollectionItem, Product } from "@/lib/types";
 
 export const revalidate = 60;
@@ -21,7 +22,7 @@ export default async function CollectionPage({ params }: PageProps) {
   if (supabase && slugParam) {
     const { data, error } = await supabase
       .from("collections")
-      .select("id, name, slug, description, is_active")
+      .select("id, name, slug, description, publish_at, expire_at, is_active")
       .eq("slug", slugParam)
       .limit(1)
       .maybeSingle();
@@ -37,7 +38,7 @@ export default async function CollectionPage({ params }: PageProps) {
       if (slugFallback && slugFallback !== slugParam) {
         const { data: fallback } = await supabase
           .from("collections")
-          .select("id, name, slug, description, is_active")
+          .select("id, name, slug, description, publish_at, expire_at, is_active")
           .eq("slug", slugFallback)
           .limit(1)
           .maybeSingle();
@@ -48,7 +49,7 @@ export default async function CollectionPage({ params }: PageProps) {
     if (!collectionData) {
       const { data: fallback } = await supabase
         .from("collections")
-        .select("id, name, slug, description, is_active")
+        .select("id, name, slug, description, publish_at, expire_at, is_active")
         .ilike("slug", slugParam)
         .limit(1)
         .maybeSingle();
@@ -56,7 +57,7 @@ export default async function CollectionPage({ params }: PageProps) {
     }
   }
 
-  if (!collectionData || !collectionData.is_active) {
+  if (!collectionData || !isPublished(collectionData)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
         <div className="mx-auto w-full max-w-5xl">
@@ -98,7 +99,7 @@ export default async function CollectionPage({ params }: PageProps) {
     ? await supabase
         .from("collection_items")
         .select(
-          "id, sort_order, collection_id, product_id, product:products (id, slug, title, description_short, price_text, image_url, image_urls, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, is_active, created_at)"
+          "id, sort_order, collection_id, product_id, product:products (id, slug, title, description_short, price_text, previous_price, price_changed_at, image_url, image_urls, image_variants, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, publish_at, expire_at, is_active, created_at)"
         )
         .eq("collection_id", collection.id)
         .order("sort_order", { ascending: true })
@@ -112,7 +113,7 @@ export default async function CollectionPage({ params }: PageProps) {
   }) as (CollectionItem & { product: Product | null })[];
   const products = items
     .map((item) => item.product)
-    .filter((product): product is Product => Boolean(product && product.is_active));
+    .filter((product): product is Product => Boolean(product && isPublished(product)));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
@@ -1,6 +1,7 @@
 ﻿import Link from "next/link";
 import { createServerClient } from "@/lib/supabase/server";
 import { getProductImages } from "@/lib/images";
+import { isPublished, onlyPublished } from "@/lib/schedule";
 import type { Collection, CollectionItem, Product } from "@/lib/types";
 
 export const revalidate = 60;
@@ -10,11 +11,12 @@ type CollectionWithItems = Collection & { items: CollectionItem[] };
 export default async function CollectionsPage() {
   const supabase = createServerClient();
   const { data: collectionsData } = supabase
-    ? await supabase
-        .from("collections")
-        .select("id, name, slug, description, is_active")
-        .eq("is_active", true)
-        .order("created_at", { ascending: false })
+    ? await onlyPublished(
+        supabase
+          .from("collections")
+          .select("id, name, slug, description, is_active")
+          .eq("is_active", true)
+      ).order("created_at", { ascending: false })
     : { data: [] };
 
   const baseCollections = (collectionsData ?? []) as Collection[];
@@ -25,7 +27,7 @@ export default async function CollectionsPage() {
       ? await supabase
           .from("collection_items")
           .select(
-            "id, sort_order, collection_id, product_id, product:products (id, title, slug, image_url, image_urls, is_active)"
+            "id, sort_order, collection_id, product_id, product:products (id, title, slug, image_url, image_urls, image_variants, publish_at, expire_at, is_active)"
           )
           .in("collection_id", collectionIds)
           .order("sort_order", { ascending: true })
@@ -40,7 +42,7 @@ export default async function CollectionsPage() {
   const itemsByCollection = new Map<string, CollectionItem[]>();
 
   items.forEach((item) => {
-    if (!item.product || !item.product.is_active) return;
+    if (!item.product || !isPublished(item.product)) return;
     const entry: CollectionItem = {
       id: item.id,
       collection_id: item.collection_id,
@@ -94,7 +96,9 @@ export default async function CollectionsPage() {
               const preview = collection.items.slice(0, 3);
               const previewImages = preview
                 .map((item) =>
-                  item.product ? getProductImages(item.product)[0] : null
+                  item.product
+                    ? getProductImages(item.product, "thumb")[0]?.src
+                    : null
                 )
                 .filter(Boolean) as string[];
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@/lib/supabase/server";
+import { onlyPublished } from "@/lib/schedule";
 import { resolveProductUrl } from "@/lib/linkResolver";
+import { recordOutboundClick } from "@/lib/clickTracking";
 
 export async function GET(
   request: NextRequest,
@@ -12,12 +14,13 @@ export async function GET(
     return NextResponse.redirect(new URL("/", request.url));
   }
 
-  const { data } = await supabase
-    .from("products")
-    .select("id, slug, origin_url, affiliate_url, is_active")
-    .eq("slug", slug)
-    .eq("is_active", true)
-    .single();
+  const { data } = await onlyPublished(
+    supabase
+      .from("products")
+      .select("id, slug, origin_url, affiliate_url, source, is_active")
+      .eq("slug", slug)
+      .eq("is_active", true)
+  ).single();
 
   if (!data) {
     return NextResponse.redirect(new URL("/", request.url));
@@ -26,18 +29,15 @@ export async function GET(
   const url = resolveProductUrl({
     affiliate_url: data.affiliate_url,
     origin_url: data.origin_url,
+    source: data.source,
   });
 
   const { searchParams } = new URL(request.url);
-  const src = searchParams.get("src");
-  const camp = searchParams.get("camp");
-  const ua = request.headers.get("user-agent") ?? null;
 
-  await supabase.from("outbound_clicks").insert({
-    product_id: data.id,
-    src,
-    camp,
-    ua,
+  await recordOutboundClick(supabase, request.headers, {
+    productId: data.id,
+    src: searchParams.get("src"),
+    camp: searchParams.get("camp"),
   });
 
   return NextResponse.redirect(url, { status: 302 });
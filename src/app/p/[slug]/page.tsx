@@ -2,10 +2,12 @@
 import { createServerClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { resolveProductUrl } from "@/lib/linkResolver";
+import { getSourceLabel } from "@/lib/marketplaces";
 import { getProductImages } from "@/lib/images";
-import { getOriginalPrice } from "@/lib/pricing";
+import { formatPrice, getPriceDrop } from "@/lib/pricing";
 import { ProductCarousel } from "@/components/ProductCarousel";
 import { slugify } from "@/lib/slugify";
+import { isPublished } from "@/lib/schedule";
 import type { Product } from "@/lib/types";
 
 export const revalidate = 60;
@@ -60,6 +62,12 @@ export default async function ProductPage({ params }: PageProps) {
         .maybeSingle();
       productData = (fallback ?? null) as Product | null;
     }
+
+    // The admin client bypasses RLS, so scheduled or expired offers are
+    // filtered here.
+    if (productData && !isPublished(productData)) {
+      productData = null;
+    }
   }
 
   if (!productData) {
@@ -93,12 +101,25 @@ export default async function ProductPage({ params }: PageProps) {
 
   const product = productData as Product;
   const images = getProductImages(product);
-  const originalPrice = product.price_text
-    ? getOriginalPrice(product.price_text, product.slug)
-    : null;
+  const priceDrop = getPriceDrop(product);
+  // price_history is admin-only under RLS; the function exposes just the
+  // 30-day low, computed at read time so an old low does not linger.
+  const { data: lowestData, error: lowestError } = supabase
+    ? await supabase.rpc("product_lowest_price_30d", {
+        target_product_id: product.id,
+      })
+    : { data: null, error: null };
+  if (lowestError) {
+    console.error("Lowest price lookup failed:", lowestError);
+  }
+  const lowestPrice =
+    lowestData !== null && lowestData !== undefined
+      ? formatPrice(Number(lowestData))
+      : null;
   const directLink = resolveProductUrl({
     affiliate_url: product.affiliate_url,
     origin_url: product.origin_url,
+    source: product.source,
   });
 
   return (
@@ -114,20 +135,34 @@ export default async function ProductPage({ params }: PageProps) {
         <div className="mt-6 overflow-hidden rounded-3xl border border-white/70 bg-white/80 shadow-lg backdrop-blur">
           <div className="grid gap-8 p-8 md:grid-cols-[1.1fr_1fr]">
             <div className="overflow-hidden rounded-2xl">
-              <ProductCarousel images={images} />
+              <ProductCarousel
+                images={images}
+                sizes="(min-width: 768px) 480px, 100vw"
+                priority
+              />
             </div>
 
             <div className="flex flex-col justify-between gap-6">
               <div>
                 <div className="flex flex-wrap gap-2 text-xs text-slate-500">
-                  {(product.tags ?? []).map((tag) => (
-                    <span
-                      key={tag}
-                      className="rounded-full bg-slate-100 px-2.5 py-1"
-                    >
-                      {tag}
-                    </span>
-                  ))}
+                  {(product.tags ?? []).map((tag) =>
+                    slugify(tag) ? (
+                      <Link
+                        key={tag}
+                        href={`/tag/${slugify(tag)}`}
+                        className="rounded-full bg-slate-100 px-2.5 py-1 transition hover:bg-slate-200 hover:text-slate-700"
+                      >
+                        {tag}
+                      </Link>
+                    ) : (
+                      <span
+                        key={tag}
+                        className="rounded-full bg-slate-100 px-2.5 py-1"
+                      >
+                        {tag}
+                      </span>
+                    )
+                  )}
                 </div>
                 <h1 className="mt-4 text-3xl font-semibold text-slate-900">
                   {product.title}
@@ -136,13 +171,26 @@ export default async function ProductPage({ params }: PageProps) {
                   {product.description_short ||
                     "Um achado perfeito para compartilhar com seu público."}
                 </p>
+                {product.rating ? (
+                  <p className="mt-2 text-xs text-slate-500">
+                    ★ {Number(product.rating).toFixed(1).replace(".", ",")}
+                    {product.rating_count
+                      ? ` (${product.rating_count.toLocaleString("pt-BR")} avaliações)`
+                      : null}
+                  </p>
+                ) : null}
               </div>
 
               <div className="space-y-4">
                 <div className="space-y-1">
-                  {originalPrice ? (
-                    <p className="text-xs text-slate-400 line-through">
-                      De {originalPrice}
+                  {priceDrop ? (
+                    <p className="text-xs text-slate-400">
+                      <span className="line-through">
+                        De {priceDrop.previousPrice}
+                      </span>
+                      <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 font-semibold text-emerald-700">
+                        -{priceDrop.percent}%
+                      </span>
                     </p>
                   ) : null}
                   <div className="text-2xl font-semibold text-slate-900">
@@ -150,6 +198,11 @@ export default async function ProductPage({ params }: PageProps) {
                       ? `Por ${product.price_text}`
                       : "Consulte o preço"}
                   </div>
+                  {lowestPrice ? (
+                    <p className="text-xs text-slate-500">
+                      Menor preço nos últimos 30 dias: {lowestPrice}
+                    </p>
+                  ) : null}
                 </div>
                 <div className="flex flex-wrap gap-3">
                   <a
@@ -166,11 +219,10 @@ export default async function ProductPage({ params }: PageProps) {
                     Link direto
                   </a>
                 </div>
-                {product.store_name ? (
-                  <p className="text-xs text-slate-500">
-                    Loja: {product.store_name}
-                  </p>
-                ) : null}
+                <p className="text-xs text-slate-500">
+                  Vendido via {getSourceLabel(product.source)}
+                  {product.store_name ? ` · Loja: ${product.store_name}` : ""}
+                </p>
               </div>
             </div>
           </div>
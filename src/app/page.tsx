@@ -1,25 +1,31 @@
 ﻿import Link from "next/link";
 import { createServerClient } from "@/lib/supabase/server";
 import { ProductCard } from "@/components/ProductCard";
-import { slugify } from "@/lib/slugify";
+import { SearchSuggest } from "@/components/SearchSuggest";
 import { getProductImages } from "@/lib/images";
-import { parsePriceText } from "@/lib/pricing";
+import { InfiniteProductGrid } from "@/components/InfiniteProductGrid";
+import {
+  PRODUCT_CARD_SELECT,
+  fetchCatalogPage,
+  fetchCategoryCounts,
+  priceRanges,
+  sortOptions,
+  summarizeCategories,
+} from "@/lib/catalog";
+import { getDescendantIds, loadCategories } from "@/lib/categories";
+import { isPublished, onlyPublished } from "@/lib/schedule";
 import type { Collection, CollectionItem, HomeBanner, Product } from "@/lib/types";
 
 export const revalidate = 60;
 
-type CategorySummary = {
-  name: string;
-  slug: string;
-  count: number;
-};
-
 type RankKey =
   | "featured_rank"
   | "exclusive_rank"
   | "trending_rank"
   | "hot_rank";
 
+type FlagKey = "is_featured" | "is_exclusive" | "is_trending" | "is_hot";
+
 type CollectionWithItems = Collection & { items: CollectionItem[] };
 
 type HomeProps = {
@@ -28,10 +34,11 @@ type HomeProps = {
     cat?: string;
     price?: string;
     sort?: string;
+    cursor?: string;
   };
 };
 
-const parseDate = (value?: string) => (value ? Date.parse(value) : 0);
+const SECTION_LIMIT = 12;
 
 const bannerThemes: Record<string, string> = {
   amber: "from-amber-100/80 via-amber-50 to-white",
@@ -41,22 +48,6 @@ const bannerThemes: Record<string, string> = {
   slate: "from-slate-100/70 via-white to-white",
 };
 
-const priceRanges = [
-  { value: "all", label: "Todos" },
-  { value: "0-50", label: "Até R$ 50" },
-  { value: "50-100", label: "R$ 50 - 100" },
-  { value: "100-200", label: "R$ 100 - 200" },
-  { value: "200-500", label: "R$ 200 - 500" },
-  { value: "500+", label: "Acima de R$ 500" },
-];
-
-const sortOptions = [
-  { value: "recent", label: "Mais recentes" },
-  { value: "popular", label: "Mais clicados" },
-  { value: "price-asc", label: "Menor preço" },
-  { value: "price-desc", label: "Maior preço" },
-];
-
 const categoryAccents = [
   { bg: "bg-amber-100 text-amber-700", ring: "ring-amber-200" },
   { bg: "bg-emerald-100 text-emerald-700", ring: "ring-emerald-200" },
@@ -82,85 +73,6 @@ function getCategoryAccent(slug: string) {
   return categoryAccents[hash % categoryAccents.length];
 }
 
-function sortByRank(list: Product[], key: RankKey) {
-  return [...list].sort((a, b) => {
-    const aRank = a[key];
-    const bRank = b[key];
-
-    if (aRank == null && bRank == null) {
-      return parseDate(b.created_at) - parseDate(a.created_at);
-    }
-    if (aRank == null) return 1;
-    if (bRank == null) return -1;
-    if (aRank !== bRank) return aRank - bRank;
-    return parseDate(b.created_at) - parseDate(a.created_at);
-  });
-}
-
-function buildCategories(products: Product[]): CategorySummary[] {
-  const map = new Map<string, CategorySummary>();
-
-  products.forEach((product) => {
-    const name = product.category?.trim();
-    if (!name) return;
-    const slug = slugify(name);
-    if (!slug) return;
-
-    const existing = map.get(slug);
-    if (existing) {
-      existing.count += 1;
-    } else {
-      map.set(slug, { name, slug, count: 1 });
-    }
-  });
-
-  return Array.from(map.values()).sort((a, b) => {
-    if (b.count !== a.count) return b.count - a.count;
-    return a.name.localeCompare(b.name);
-  });
-}
-
-function filterByPrice(product: Product, priceFilter: string) {
-  if (!priceFilter || priceFilter === "all") return true;
-  const value = product.price_text
-    ? parsePriceText(product.price_text)
-    : null;
-  if (value === null) return false;
-
-  if (priceFilter === "500+") return value >= 500;
-  const [min, max] = priceFilter.split("-").map(Number);
-  if (!Number.isFinite(min) || !Number.isFinite(max)) return true;
-  return value >= min && value <= max;
-}
-
-function sortByFilter(products: Product[], sort: string) {
-  const list = [...products];
-
-  if (sort === "price-asc") {
-    return list.sort((a, b) => {
-      const aValue = a.price_text ? parsePriceText(a.price_text) ?? Infinity : Infinity;
-      const bValue = b.price_text ? parsePriceText(b.price_text) ?? Infinity : Infinity;
-      return aValue - bValue;
-    });
-  }
-
-  if (sort === "price-desc") {
-    return list.sort((a, b) => {
-      const aValue = a.price_text ? parsePriceText(a.price_text) ?? -Infinity : -Infinity;
-      const bValue = b.price_text ? parsePriceText(b.price_text) ?? -Infinity : -Infinity;
-      return bValue - aValue;
-    });
-  }
-
-  if (sort === "popular") {
-    return list.sort(
-      (a, b) => (b.click_count ?? 0) - (a.click_count ?? 0)
-    );
-  }
-
-  return list.sort((a, b) => parseDate(b.created_at) - parseDate(a.created_at));
-}
-
 function renderBannerCta(banner: HomeBanner) {
   if (!banner.cta_label || !banner.cta_url) return null;
   const isExternal = banner.cta_url.startsWith("http");
@@ -187,40 +99,73 @@ function renderBannerCta(banner: HomeBanner) {
 
 export default async function Home({ searchParams }: HomeProps) {
   const supabase = createServerClient();
-  const { data: productsData } = supabase
-    ? await supabase
+  const { count: activeCount } = supabase
+    ? await onlyPublished(
+        supabase
+          .from("products")
+          .select("id", { count: "exact", head: true })
+          .eq("is_active", true)
+      )
+    : { count: 0 };
+  const categoryCounts = supabase
+    ? await fetchCategoryCounts(supabase)
+    : new Map<string, number>();
+  const { categories: allCategories } = supabase
+    ? await loadCategories(supabase, { activeOnly: true })
+    : { categories: [] };
+
+  // Top-level categories only; subcategories show up on /c.
+  const activeIds = new Set(allCategories.map((category) => category.id));
+  const categories = summarizeCategories(allCategories, categoryCounts)
+    .filter(
+      (category) =>
+        category.count > 0 &&
+        (!category.parent_id || !activeIds.has(category.parent_id))
+    )
+    .sort((a, b) => {
+      if (b.count !== a.count) return b.count - a.count;
+      return a.name.localeCompare(b.name);
+    });
+  const topCategories = categories.slice(0, 10);
+  const quickCategories = topCategories.slice(0, 8);
+
+  const fetchFlagged = async (flag: FlagKey, rankKey: RankKey) => {
+    if (!supabase) return [];
+    const { data } = await onlyPublished(
+      supabase
         .from("products")
-        .select(
-          "id, slug, title, description_short, price_text, image_url, image_urls, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, click_count, is_active, created_at"
-        )
+        .select(PRODUCT_CARD_SELECT)
         .eq("is_active", true)
-        .order("created_at", { ascending: false })
-    : { data: [] };
+        .eq(flag, true)
+    )
+      .order(rankKey, { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: false })
+      .limit(SECTION_LIMIT);
+    return (data ?? []) as Product[];
+  };
 
-  const products = (productsData ?? []) as Product[];
-  const categories = buildCategories(products);
-  const topCategories = categories.slice(0, 10);
-  const quickCategories = topCategories.slice(0, 8);
-  const featured = sortByRank(
-    products.filter((product) => product.is_featured),
-    "featured_rank"
-  );
-  const exclusives = sortByRank(
-    products.filter((product) => product.is_exclusive),
-    "exclusive_rank"
-  );
-  const trending = sortByRank(
-    products.filter((product) => product.is_trending),
-    "trending_rank"
-  );
-  const hot = sortByRank(
-    products.filter((product) => product.is_hot),
-    "hot_rank"
-  );
-  const mostClicked = [...products]
-    .sort((a, b) => (b.click_count ?? 0) - (a.click_count ?? 0))
-    .slice(0, 6);
-  const latest = products.slice(0, 9);
+  const fetchSorted = async (column: string, limit: number) => {
+    if (!supabase) return [];
+    const { data } = await onlyPublished(
+      supabase
+        .from("products")
+        .select(PRODUCT_CARD_SELECT)
+        .eq("is_active", true)
+    )
+      .order(column, { ascending: false })
+      .limit(limit);
+    return (data ?? []) as Product[];
+  };
+
+  const [featured, exclusives, trending, hot, mostClicked, latest] =
+    await Promise.all([
+      fetchFlagged("is_featured", "featured_rank"),
+      fetchFlagged("is_exclusive", "exclusive_rank"),
+      fetchFlagged("is_trending", "trending_rank"),
+      fetchFlagged("is_hot", "hot_rank"),
+      fetchSorted("click_count", 6),
+      fetchSorted("created_at", 9),
+    ]);
 
   const query = typeof searchParams?.q === "string" ? searchParams.q.trim() : "";
   const selectedCategory =
@@ -229,13 +174,15 @@ export default async function Home({ searchParams }: HomeProps) {
     typeof searchParams?.price === "string" ? searchParams.price : "all";
   const selectedSort =
     typeof searchParams?.sort === "string" ? searchParams.sort : "recent";
+  const cursorParam =
+    typeof searchParams?.cursor === "string" ? searchParams.cursor : null;
   const hasFilters =
     Boolean(query) ||
     selectedCategory !== "all" ||
     selectedPrice !== "all" ||
     selectedSort !== "recent";
 
-  const buildFilterHref = (
+  const buildFilterParams = (
     overrides: Partial<{
       q: string;
       cat: string;
@@ -250,47 +197,64 @@ export default async function Home({ searchParams }: HomeProps) {
       sort: selectedSort,
       ...overrides,
     };
-    const params = new URLSearchParams();
-    if (next.q) params.set("q", next.q);
-    if (next.cat && next.cat !== "all") params.set("cat", next.cat);
-    if (next.price && next.price !== "all") params.set("price", next.price);
-    if (next.sort && next.sort !== "recent") params.set("sort", next.sort);
-    const queryString = params.toString();
+    const params: Record<string, string> = {};
+    if (next.q) params.q = next.q;
+    if (next.cat && next.cat !== "all") params.cat = next.cat;
+    if (next.price && next.price !== "all") params.price = next.price;
+    if (next.sort && next.sort !== "recent") params.sort = next.sort;
+    return params;
+  };
+
+  const buildFilterHref = (
+    overrides: Parameters<typeof buildFilterParams>[0] = {}
+  ) => {
+    const queryString = new URLSearchParams(
+      buildFilterParams(overrides)
+    ).toString();
     return queryString ? `/?${queryString}#explorar` : "/#explorar";
   };
 
-  const filteredProducts = sortByFilter(
-    products.filter((product) => {
-      const matchesQuery = query
-        ? product.title.toLowerCase().includes(query.toLowerCase()) ||
-          (product.tags ?? []).some((tag) =>
-            tag.toLowerCase().includes(query.toLowerCase())
-          )
-        : true;
-      const matchesCategory =
-        selectedCategory === "all"
-          ? true
-          : slugify(product.category ?? "") === selectedCategory;
-      const matchesPrice = filterByPrice(product, selectedPrice);
-      return matchesQuery && matchesCategory && matchesPrice;
-    }),
-    selectedSort
-  );
+  const filterCategory =
+    allCategories.find((category) => category.slug === selectedCategory) ??
+    null;
+  const categoryIds =
+    selectedCategory === "all"
+      ? null
+      : filterCategory
+        ? getDescendantIds(allCategories, filterCategory.id)
+        : [];
+
+  const explore = supabase
+    ? await fetchCatalogPage(
+        supabase,
+        {
+          query,
+          categoryIds,
+          tags: null,
+          price: selectedPrice,
+          sort: selectedSort,
+        },
+        cursorParam,
+        true
+      )
+    : { products: [], nextCursor: null, total: 0 };
 
   const { data: collectionsData } = supabase
-    ? await supabase
-        .from("collections")
-        .select("id, name, slug, description, is_active")
-        .eq("is_active", true)
-        .order("created_at", { ascending: false })
+    ? await onlyPublished(
+        supabase
+          .from("collections")
+          .select("id, name, slug, description, is_active")
+          .eq("is_active", true)
+      ).order("created_at", { ascending: false })
     : { data: [] };
 
   const { data: bannersData } = supabase
-    ? await supabase
-        .from("home_banners")
-        .select("id, title, subtitle, badge, cta_label, cta_url, theme, sort_order, is_active")
-        .eq("is_active", true)
-        .order("sort_order", { ascending: true })
+    ? await onlyPublished(
+        supabase
+          .from("home_banners")
+          .select("id, title, subtitle, badge, cta_label, cta_url, theme, sort_order, is_active")
+          .eq("is_active", true)
+      ).order("sort_order", { ascending: true })
     : { data: [] };
 
   const banners = (bannersData ?? []) as HomeBanner[];
@@ -301,7 +265,7 @@ export default async function Home({ searchParams }: HomeProps) {
       ? await supabase
           .from("collection_items")
           .select(
-            "id, sort_order, collection_id, product_id, product:products (id, slug, title, description_short, price_text, image_url, image_urls, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, click_count, is_active, created_at)"
+            "id, sort_order, collection_id, product_id, product:products (id, slug, title, description_short, price_text, previous_price, price_changed_at, image_url, image_urls, image_variants, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, click_count, publish_at, expire_at, is_active, created_at)"
           )
           .in("collection_id", collectionIds)
           .order("sort_order", { ascending: true })
@@ -316,7 +280,7 @@ export default async function Home({ searchParams }: HomeProps) {
   const itemsByCollection = new Map<string, CollectionItem[]>();
 
   items.forEach((item) => {
-    if (!item.product || !item.product.is_active) return;
+    if (!item.product || !isPublished(item.product)) return;
     const entry: CollectionItem = {
       id: item.id,
       collection_id: item.collection_id,
@@ -349,6 +313,12 @@ export default async function Home({ searchParams }: HomeProps) {
             </h1>
           </div>
           <nav className="flex flex-wrap items-center gap-3 text-sm">
+            <Link
+              href="/busca"
+              className="rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Buscar
+            </Link>
             <Link
               href="/c"
               className="rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
@@ -397,7 +367,7 @@ export default async function Home({ searchParams }: HomeProps) {
                     <span
                       className={`flex h-6 w-6 items-center justify-center rounded-full text-[10px] font-semibold ring-1 ${accent.bg} ${accent.ring}`}
                     >
-                      {getCategoryBadge(category.name)}
+                      {category.icon || getCategoryBadge(category.name)}
                     </span>
                     {category.name}
                   </Link>
@@ -487,7 +457,7 @@ export default async function Home({ searchParams }: HomeProps) {
               Ofertas ativas
             </p>
             <p className="mt-2 text-2xl font-semibold text-slate-900">
-              {products.length}
+              {activeCount ?? 0}
             </p>
           </div>
           <div className="rounded-2xl border border-slate-200 bg-white px-5 py-4 text-sm text-slate-600">
@@ -570,7 +540,7 @@ export default async function Home({ searchParams }: HomeProps) {
                       <span
                         className={`flex h-11 w-11 items-center justify-center rounded-2xl text-xs font-semibold ring-1 ${accent.bg} ${accent.ring}`}
                       >
-                        {getCategoryBadge(category.name)}
+                        {category.icon || getCategoryBadge(category.name)}
                       </span>
                       <div>
                         <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
@@ -609,7 +579,9 @@ export default async function Home({ searchParams }: HomeProps) {
                 const preview = collection.items.slice(0, 3);
                 const previewImages = preview
                   .map((item) =>
-                    item.product ? getProductImages(item.product)[0] : null
+                    item.product
+                      ? getProductImages(item.product, "thumb")[0]?.src
+                      : null
                   )
                   .filter(Boolean) as string[];
 
@@ -727,7 +699,7 @@ export default async function Home({ searchParams }: HomeProps) {
                       : "bg-slate-100 text-slate-500"
                   }`}
                 >
-                  {products.length}
+                  {activeCount ?? 0}
                 </span>
               </Link>
               {topCategories.map((category) => (
@@ -758,12 +730,10 @@ export default async function Home({ searchParams }: HomeProps) {
               className="mt-5 flex flex-wrap gap-3"
               method="get"
             >
-              <input
-                type="text"
-                name="q"
+              <SearchSuggest
                 defaultValue={query}
                 placeholder="Buscar produto"
-                className="min-w-[220px] flex-1 rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+                className="min-w-[220px] flex-1"
               />
               <select
                 name="cat"
@@ -808,24 +778,33 @@ export default async function Home({ searchParams }: HomeProps) {
             </form>
 
             <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
-              <span>{filteredProducts.length} ofertas encontradas.</span>
-              {hasFilters ? (
+              <span>
+                {explore.total !== null
+                  ? `${explore.total} ofertas encontradas.`
+                  : "Continuando a lista de ofertas."}
+              </span>
+              {query ? (
+                <Link
+                  href={`/busca?q=${encodeURIComponent(query)}`}
+                  className="font-semibold text-slate-600 transition hover:text-slate-900"
+                >
+                  Ver resultados por relevância
+                </Link>
+              ) : hasFilters ? (
                 <span>Filtros ativos na vitrine.</span>
               ) : null}
             </div>
           </div>
 
-          <div className="mt-6 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {filteredProducts.length === 0 ? (
-              <div className="col-span-full rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
-                Nenhuma oferta encontrada com esses filtros.
-              </div>
-            ) : (
-              filteredProducts.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))
-            )}
-          </div>
+          <InfiniteProductGrid
+            key={JSON.stringify([buildFilterParams(), cursorParam])}
+            initialProducts={explore.products}
+            initialCursor={explore.nextCursor}
+            filters={buildFilterParams()}
+            basePath="/"
+            hash="#explorar"
+            emptyMessage="Nenhuma oferta encontrada com esses filtros."
+          />
         </section>
 
         {featured.length > 0 ? (
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase/server";
+import { resolveProductUrl } from "@/lib/linkResolver";
+import { recordOutboundClick } from "@/lib/clickTracking";
+import { isPublished } from "@/lib/schedule";
+import type { Schedulable } from "@/lib/schedule";
+import type { ProductSource } from "@/lib/types";
+
+type Embedded<T> = T | T[] | null;
+
+function firstOf<T>(value: Embedded<T>) {
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ code: string }> }
+) {
+  const { code } = await context.params;
+  const supabase = createServerClient();
+  if (!supabase) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  const { data } = await supabase
+    .from("short_links")
+    .select(
+      "id, target_type, src, camp, product:products (id, origin_url, affiliate_url, source, is_active, publish_at, expire_at), collection:collections (slug, is_active, publish_at, expire_at), banner:home_banners (cta_url, is_active, publish_at, expire_at)"
+    )
+    .eq("code", code)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (!data) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  const product = firstOf(
+    data.product as Embedded<
+      Schedulable & {
+        id: string;
+        origin_url: string;
+        affiliate_url: string | null;
+        source: ProductSource;
+      }
+    >
+  );
+  const collection = firstOf(
+    data.collection as Embedded<Schedulable & { slug: string }>
+  );
+  const banner = firstOf(
+    data.banner as Embedded<Schedulable & { cta_url: string | null }>
+  );
+
+  let url: string | URL | null = null;
+
+  if (data.target_type === "product" && product && isPublished(product)) {
+    url = resolveProductUrl(product);
+  } else if (
+    data.target_type === "collection" &&
+    collection &&
+    isPublished(collection)
+  ) {
+    url = new URL(`/listas/${collection.slug}`, request.url);
+  } else if (
+    data.target_type === "banner" &&
+    banner &&
+    isPublished(banner) &&
+    banner.cta_url
+  ) {
+    url = banner.cta_url.startsWith("/")
+      ? new URL(banner.cta_url, request.url)
+      : banner.cta_url;
+  }
+
+  if (!url) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  // The insert also bumps the link's click_count (trigger, bots excluded).
+  await recordOutboundClick(supabase, request.headers, {
+    productId: data.target_type === "product" && product ? product.id : null,
+    src: data.src,
+    camp: data.camp,
+    shortLinkId: data.id,
+  });
+
+  return NextResponse.redirect(url, { status: 302 });
+}
@@ -0,0 +1,135 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { createServerClient } from "@/lib/supabase/server";
+import { InfiniteProductGrid } from "@/components/InfiniteProductGrid";
+import {
+  fetchCatalogPage,
+  fetchTagFilter,
+  priceRanges,
+  sortOptions,
+} from "@/lib/catalog";
+
+export const revalidate = 60;
+
+type PageProps = {
+  params: { slug: string };
+  searchParams?: {
+    price?: string;
+    sort?: string;
+    cursor?: string;
+  };
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const supabase = createServerClient();
+  if (!supabase) return {};
+  const { tag } = await fetchTagFilter(supabase, params.slug);
+  if (!tag) return {};
+  return {
+    title: `Ofertas de ${tag} | Vitrine de Promoções`,
+    description: `Promoções selecionadas com a tag ${tag}.`,
+  };
+}
+
+export default async function TagPage({ params, searchParams }: PageProps) {
+  const slugParam = typeof params?.slug === "string" ? params.slug : "";
+  const selectedPrice =
+    typeof searchParams?.price === "string" ? searchParams.price : "all";
+  const selectedSort =
+    typeof searchParams?.sort === "string" ? searchParams.sort : "recent";
+  const cursorParam =
+    typeof searchParams?.cursor === "string" ? searchParams.cursor : null;
+  const supabase = createServerClient();
+
+  const { tag, tags } = supabase
+    ? await fetchTagFilter(supabase, slugParam)
+    : { tag: null, tags: [] };
+  if (!tag) notFound();
+
+  const catalog = supabase
+    ? await fetchCatalogPage(
+        supabase,
+        {
+          query: "",
+          categoryIds: null,
+          tags,
+          price: selectedPrice,
+          sort: selectedSort,
+        },
+        cursorParam,
+        true
+      )
+    : { products: [], nextCursor: null, total: 0 };
+
+  const gridFilters: Record<string, string> = { tag: slugParam };
+  if (selectedPrice !== "all") gridFilters.price = selectedPrice;
+  if (selectedSort !== "recent") gridFilters.sort = selectedSort;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100 px-6 py-10">
+      <div className="mx-auto w-full max-w-5xl">
+        <nav
+          aria-label="Trilha de navegação"
+          className="flex flex-wrap items-center gap-2 text-sm text-slate-500"
+        >
+          <Link href="/" className="transition hover:text-slate-700">
+            Vitrine
+          </Link>
+          <span>/</span>
+          <span className="text-slate-700">#{tag}</span>
+        </nav>
+        <h1 className="mt-3 text-3xl font-semibold text-slate-900">
+          Ofertas de {tag}
+        </h1>
+        <p className="mt-2 text-sm text-slate-600">
+          {catalog.total !== null
+            ? `${catalog.total} ofertas com esta tag.`
+            : "Continuando a lista de ofertas com esta tag."}
+        </p>
+
+        <form className="mt-6 flex flex-wrap gap-3" method="get">
+          <select
+            name="price"
+            defaultValue={selectedPrice}
+            className="min-w-[180px] flex-1 rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            {priceRanges.map((range) => (
+              <option key={range.value} value={range.value}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+          <select
+            name="sort"
+            defaultValue={selectedSort}
+            className="min-w-[180px] flex-1 rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+          >
+            {sortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="w-full rounded-2xl bg-slate-900 px-5 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 sm:w-auto"
+          >
+            Filtrar
+          </button>
+        </form>
+
+        <InfiniteProductGrid
+          key={JSON.stringify([gridFilters, cursorParam])}
+          initialProducts={catalog.products}
+          initialCursor={catalog.nextCursor}
+          filters={gridFilters}
+          basePath={`/tag/${slugParam}`}
+          emptyMessage="Nenhuma oferta publicada com esta tag ainda."
+        />
+      </div>
+    </div>
+  );
+}
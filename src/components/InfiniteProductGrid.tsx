@@ -0,0 +1,125 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ProductCard } from "@/components/ProductCard";
+import type { Product } from "@/lib/types";
+
+type InfiniteProductGridProps = {
+  initialProducts: Product[];
+  initialCursor: string | null;
+  filters: Record<string, string>;
+  basePath: string;
+  hash?: string;
+  emptyMessage: string;
+};
+
+export function InfiniteProductGrid({
+  initialProducts,
+  initialCursor,
+  filters,
+  basePath,
+  hash = "",
+  emptyMessage,
+}: InfiniteProductGridProps) {
+  const [products, setProducts] = useState<Product[]>(initialProducts);
+  const [cursor, setCursor] = useState<string | null>(initialCursor);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const buildParams = useCallback(
+    (nextCursor: string) => {
+      const params = new URLSearchParams(filters);
+      params.set("cursor", nextCursor);
+      return params.toString();
+    },
+    [filters]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || loading) return;
+    setLoading(true);
+    setFailed(false);
+
+    try {
+      const response = await fetch(
+        `/api/products/catalog?${buildParams(cursor)}`
+      );
+      if (!response.ok) {
+        setFailed(true);
+        return;
+      }
+      const payload = (await response.json()) as {
+        products?: Product[];
+        nextCursor?: string | null;
+      };
+      setProducts((prev) => {
+        const seen = new Set(prev.map((product) => product.id));
+        const next = (payload.products ?? []).filter(
+          (product) => !seen.has(product.id)
+        );
+        return [...prev, ...next];
+      });
+      setCursor(payload.nextCursor ?? null);
+    } catch {
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [cursor, loading, buildParams]);
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !cursor || failed) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          void loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [cursor, failed, loadMore]);
+
+  return (
+    <>
+      <div className="mt-6 grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {products.length === 0 ? (
+          <div className="col-span-full rounded-2xl border border-dashed border-slate-300 p-10 text-center text-sm text-slate-500">
+            {emptyMessage}
+          </div>
+        ) : (
+          products.map((product) => (
+            <ProductCard key={product.id} product={product} />
+          ))
+        )}
+      </div>
+
+      {cursor ? (
+        <div
+          ref={sentinelRef}
+          className="mt-6 flex flex-col items-center gap-2 text-xs text-slate-500"
+        >
+          <a
+            href={`${basePath}?${buildParams(cursor)}${hash}`}
+            onClick={(event) => {
+              event.preventDefault();
+              void loadMore();
+            }}
+            className="rounded-full border border-slate-200 bg-white px-5 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            {loading ? "Carregando..." : "Carregar mais ofertas"}
+          </a>
+          {failed ? (
+            <span className="text-rose-600">
+              Nao foi possivel carregar mais ofertas. Tente novamente.
+            </span>
+          ) : null}
+        </div>
+      ) : null}
+    </>
+  );
+}
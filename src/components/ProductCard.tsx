@@ -1,7 +1,8 @@
 import Link from "next/link";
 import { ProductCarousel } from "@/components/ProductCarousel";
 import { getProductImages } from "@/lib/images";
-import { getOriginalPrice } from "@/lib/pricing";
+import { getPriceDrop } from "@/lib/pricing";
+import { slugify } from "@/lib/slugify";
 import { Product } from "@/lib/types";
 
 type ProductCardProps = {
@@ -11,9 +12,7 @@ type ProductCardProps = {
 export function ProductCard({ product }: ProductCardProps) {
   const tags = product.tags ?? [];
   const images = getProductImages(product);
-  const originalPrice = product.price_text
-    ? getOriginalPrice(product.price_text, product.slug)
-    : null;
+  const priceDrop = getPriceDrop(product);
   const badges = [
     product.is_exclusive ? "Exclusivo" : null,
     product.is_trending ? "Em alta" : null,
@@ -33,14 +32,24 @@ export function ProductCard({ product }: ProductCardProps) {
               {badge}
             </span>
           ))}
-          {tags.slice(0, 4).map((tag) => (
-            <span
-              key={tag}
-              className="rounded-full bg-slate-100 px-2.5 py-1"
-            >
-              {tag}
-            </span>
-          ))}
+          {tags.slice(0, 4).map((tag) =>
+            slugify(tag) ? (
+              <Link
+                key={tag}
+                href={`/tag/${slugify(tag)}`}
+                className="rounded-full bg-slate-100 px-2.5 py-1 transition hover:bg-slate-200 hover:text-slate-700"
+              >
+                {tag}
+              </Link>
+            ) : (
+              <span
+                key={tag}
+                className="rounded-full bg-slate-100 px-2.5 py-1"
+              >
+                {tag}
+              </span>
+            )
+          )}
         </div>
         <div>
           <h3 className="text-lg font-semibold text-slate-900">
@@ -54,9 +63,12 @@ export function ProductCard({ product }: ProductCardProps) {
         </div>
         <div className="mt-auto flex items-center justify-between">
           <div className="space-y-1">
-            {originalPrice ? (
-              <p className="text-xs text-slate-400 line-through">
-                De {originalPrice}
+            {priceDrop ? (
+              <p className="text-xs text-slate-400">
+                <span className="line-through">De {priceDrop.previousPrice}</span>
+                <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 font-semibold text-emerald-700">
+                  -{priceDrop.percent}%
+                </span>
               </p>
             ) : null}
             <div className="text-base font-semibold text-slate-900">
@@ -1,20 +1,25 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import type { ResponsiveImage } from "@/lib/images";
 
 type ProductCarouselProps = {
-  images: string[];
+  images: ResponsiveImage[];
+  sizes?: string;
+  priority?: boolean;
   className?: string;
   aspectClassName?: string;
 };
 
 export function ProductCarousel({
   images,
+  sizes = "(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw",
+  priority = false,
   className,
   aspectClassName = "aspect-[4/3]",
 }: ProductCarouselProps) {
   const validImages = useMemo(
-    () => images.filter((image) => Boolean(image)),
+    () => images.filter((image) => Boolean(image.src)),
     [images]
   );
   const [index, setIndex] = useState(0);
@@ -25,7 +30,7 @@ export function ProductCarousel({
   }, []);
 
   const total = validImages.length;
-  const current = total > 0 ? validImages[index % total] : "";
+  const current = total > 0 ? validImages[index % total] : null;
 
   const handlePrev = () => {
     setIndex((prev) => (prev - 1 + total) % total);
@@ -42,10 +47,15 @@ export function ProductCarousel({
       {current ? (
         // eslint-disable-next-line @next/next/no-img-element
         <img
-          src={current}
+          src={current.src}
+          srcSet={current.srcSet ?? undefined}
+          sizes={current.srcSet ? sizes : undefined}
+          width={current.width ?? undefined}
+          height={current.height ?? undefined}
           alt="Imagem do produto"
           className="h-full w-full object-cover"
-          loading="lazy"
+          loading={priority ? "eager" : "lazy"}
+          decoding="async"
         />
       ) : (
         <div className="flex h-full w-full items-center justify-center text-sm text-slate-400">
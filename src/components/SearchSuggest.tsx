@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { SearchSuggestions } from "@/lib/types";
+
+type SearchSuggestProps = {
+  defaultValue?: string;
+  placeholder?: string;
+  className?: string;
+};
+
+type SuggestionItem = {
+  key: string;
+  group: string;
+  label: string;
+  meta: string | null;
+  href: string;
+};
+
+const DEBOUNCE_MS = 200;
+
+function buildItems(suggestions: SearchSuggestions): SuggestionItem[] {
+  return [
+    ...suggestions.products.map((product) => ({
+      key: `product-${product.id}`,
+      group: "Produtos",
+      label: product.title,
+      meta: product.price_text ?? null,
+      href: `/p/${product.slug}`,
+    })),
+    ...suggestions.categories.map((category) => ({
+      key: `category-${category.slug}`,
+      group: "Categorias",
+      label: category.name,
+      meta: null,
+      href: `/c/${category.slug}`,
+    })),
+    ...suggestions.collections.map((collection) => ({
+      key: `collection-${collection.id}`,
+      group: "Listas",
+      label: collection.name,
+      meta: null,
+      href: `/listas/${collection.slug}`,
+    })),
+  ];
+}
+
+export function SearchSuggest({
+  defaultValue = "",
+  placeholder = "Buscar produto",
+  className = "",
+}: SearchSuggestProps) {
+  const router = useRouter();
+  const listId = useId();
+  const [value, setValue] = useState(defaultValue);
+  const [items, setItems] = useState<SuggestionItem[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const term = value.trim();
+    if (term.length < 2) {
+      setItems([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = window.setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search/suggest?q=${encodeURIComponent(term)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) return;
+        const payload = (await response.json()) as SearchSuggestions;
+        setItems(buildItems(payload));
+        setActiveIndex(-1);
+      } catch {
+        // Aborted or offline: keep the previous suggestions.
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timeout);
+    };
+  }, [value]);
+
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const grouped = useMemo(() => {
+    const groups: { group: string; items: (SuggestionItem & { index: number })[] }[] =
+      [];
+    items.forEach((item, index) => {
+      const last = groups[groups.length - 1];
+      if (last && last.group === item.group) {
+        last.items.push({ ...item, index });
+      } else {
+        groups.push({ group: item.group, items: [{ ...item, index }] });
+      }
+    });
+    return groups;
+  }, [items]);
+
+  const showList = open && items.length > 0;
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      if (items.length === 0) return;
+      event.preventDefault();
+      setOpen(true);
+      setActiveIndex((prev) => (prev + 1) % items.length);
+      return;
+    }
+    if (event.key === "ArrowUp") {
+      if (items.length === 0) return;
+      event.preventDefault();
+      setOpen(true);
+      setActiveIndex((prev) => (prev <= 0 ? items.length - 1 : prev - 1));
+      return;
+    }
+    if (event.key === "Escape") {
+      setOpen(false);
+      setActiveIndex(-1);
+      return;
+    }
+    if (event.key === "Enter" && showList && activeIndex >= 0) {
+      event.preventDefault();
+      setOpen(false);
+      router.push(items[activeIndex].href);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <input
+        type="search"
+        name="q"
+        value={value}
+        onChange={(event) => {
+          setValue(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined
+        }
+        className="w-full rounded-2xl border border-slate-200 px-4 py-2 text-sm focus:border-slate-400 focus:outline-none"
+      />
+      {showList ? (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-30 mt-2 max-h-96 overflow-y-auto rounded-2xl border border-slate-200 bg-white py-2 text-sm shadow-lg"
+        >
+          {grouped.map((group) => (
+            <li key={group.group} role="presentation">
+              <p className="px-4 pb-1 pt-2 text-[10px] uppercase tracking-[0.3em] text-slate-400">
+                {group.group}
+              </p>
+              <ul role="presentation">
+                {group.items.map((item) => (
+                  <li
+                    key={item.key}
+                    id={`${listId}-${item.index}`}
+                    role="option"
+                    aria-selected={item.index === activeIndex}
+                    onMouseEnter={() => setActiveIndex(item.index)}
+                    onMouseDown={(event) => {
+                      event.preventDefault();
+                      setOpen(false);
+                      router.push(item.href);
+                    }}
+                    className={`flex cursor-pointer items-center justify-between gap-3 px-4 py-2 ${
+                      item.index === activeIndex
+                        ? "bg-slate-100 text-slate-900"
+                        : "text-slate-600"
+                    }`}
+                  >
+                    <span className="truncate">{item.label}</span>
+                    {item.meta ? (
+                      <span className="shrink-0 text-xs font-semibold text-slate-500">
+                        {item.meta}
+                      </span>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import { usePathname } from "next/navigation";
 import { useEffect, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase/client";
+import {
+  AdminRoleContext,
+  getRoleAccess,
+} from "@/components/admin/AdminRoleContext";
+import type { AdminRole } from "@/lib/types";
 
 type AdminLayoutClientProps = {
   children: React.ReactNode;
@@ -18,6 +23,9 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [authLoading, setAuthLoading] = useState(false);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [roleLoading, setRoleLoading] = useState(true);
+  const userId = session?.user.id ?? null;
 
   useEffect(() => {
     let mounted = true;
@@ -41,6 +49,32 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
     };
   }, []);
 
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setRoleLoading(false);
+      return;
+    }
+
+    let active = true;
+    setRoleLoading(true);
+
+    supabase
+      .from("admin_users")
+      .select("role")
+      .eq("user_id", userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!active) return;
+        setRole((data?.role as AdminRole | undefined) ?? null);
+        setRoleLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
   const handleSignIn = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError("");
@@ -65,7 +99,7 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
     await supabase.auth.signOut();
   };
 
-  if (loading) {
+  if (loading || (session && roleLoading)) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-slate-50 text-sm text-slate-500">
         Carregando painel...
@@ -125,12 +159,49 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
     );
   }
 
+  if (!role) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4">
+        <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
+              Painel admin
+            </p>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              Acesso negado
+            </h1>
+            <p className="text-sm text-slate-500">
+              A conta {session.user.email} não tem permissão para o painel.
+              Peça a um owner para liberar seu acesso.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="mt-6 w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800"
+          >
+            Sair
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   const links = [
     { href: "/admin", label: "Produtos" },
     { href: "/admin/collections", label: "Listas" },
     { href: "/admin/banners", label: "Banners" },
     { href: "/admin/copys", label: "Copys" },
+    { href: "/admin/campaigns", label: "Campanhas" },
+    { href: "/admin/short-links", label: "Links curtos" },
+    { href: "/admin/analytics", label: "Analytics" },
+    { href: "/admin/audit", label: "Auditoria" },
     { href: "/admin/import", label: "Importar CSV" },
+    { href: "/admin/imports", label: "Importações" },
+    { href: "/admin/categories", label: "Categorias" },
+    { href: "/admin/category-rules", label: "Regras de categoria" },
+    { href: "/admin/category-review", label: "Revisar categorias" },
+    { href: "/admin/tags", label: "Tags" },
   ];
 
   return (
@@ -163,6 +234,9 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
           </nav>
           <div className="flex items-center gap-3 text-xs text-slate-500">
             <span>{session.user.email}</span>
+            <span className="rounded-full bg-slate-100 px-2.5 py-1 text-[11px] uppercase tracking-wide text-slate-600">
+              {role}
+            </span>
             <button
               type="button"
               onClick={handleSignOut}
@@ -174,7 +248,15 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
         </div>
       </header>
       <main className="mx-auto w-full max-w-6xl px-6 py-8">
-        {children}
+        {role === "viewer" ? (
+          <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 px-4 py-2 text-xs text-amber-700">
+            Modo leitura: seu perfil pode consultar o painel, mas não pode
+            salvar alterações.
+          </div>
+        ) : null}
+        <AdminRoleContext.Provider value={getRoleAccess(role)}>
+          {children}
+        </AdminRoleContext.Provider>
       </main>
     </div>
   );
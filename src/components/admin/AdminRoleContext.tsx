@@ -0,0 +1,25 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { AdminRole } from "@/lib/types";
+
+type AdminRoleContextValue = {
+  role: AdminRole | null;
+  canEdit: boolean;
+};
+
+export const AdminRoleContext = createContext<AdminRoleContextValue>({
+  role: null,
+  canEdit: false,
+});
+
+export function getRoleAccess(role: AdminRole | null): AdminRoleContextValue {
+  return {
+    role,
+    canEdit: role === "owner" || role === "editor",
+  };
+}
+
+export function useAdminRole() {
+  return useContext(AdminRoleContext);
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabase/client";
+import { buildCategoryOptions, loadCategories } from "@/lib/categories";
+import type { Category } from "@/lib/types";
+
+// Every category, inactive ones included, in tree order for admin selects.
+export function useCategoryOptions() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const { categories: loaded, error: loadError } =
+      await loadCategories(supabase);
+    setCategories(loaded);
+    setError(loadError);
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const options = useMemo(() => buildCategoryOptions(categories), [categories]);
+
+  return { categories, options, error, reload };
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AdminRole } from "@/lib/types";
+
+export const EDITOR_ROLES: AdminRole[] = ["owner", "editor"];
+
+function getBearerToken(req: NextApiRequest) {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || null;
+}
+
+// Scheduled callers send CRON_SECRET as a bearer token instead of an admin
+// session.
+export function isCronRequest(req: NextApiRequest) {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && req.headers.authorization === `Bearer ${secret}`;
+}
+
+// Validates the caller's Supabase access token and admin role. Sends the
+// 401/403 response itself and returns null when the request must stop.
+export async function requireAdminRole(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: SupabaseClient,
+  allowedRoles: AdminRole[] = EDITOR_ROLES
+) {
+  const token = getBearerToken(req);
+  if (!token) {
+    res.status(401).json({ error: "missing_token" });
+    return null;
+  }
+
+  const { data: userData, error: userError } = await admin.auth.getUser(token);
+  if (userError || !userData.user) {
+    res.status(401).json({ error: "invalid_token" });
+    return null;
+  }
+
+  const { data: adminUser, error: roleError } = await admin
+    .from("admin_users")
+    .select("role")
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+
+  if (roleError) {
+    res.status(500).json({ error: roleError.message });
+    return null;
+  }
+
+  const role = (adminUser?.role as AdminRole | undefined) ?? null;
+  if (!role || !allowedRoles.includes(role)) {
+    res.status(403).json({ error: "forbidden" });
+    return null;
+  }
+
+  return { userId: userData.user.id, role };
+}
@@ -0,0 +1,57 @@
+import type { Campaign } from "@/lib/types";
+
+export type TrackedLinkMode = "out" | "go";
+
+export const CAMPAIGN_CHANNELS = [
+  { value: "whatsapp", label: "WhatsApp", src: "whats" },
+  { value: "instagram", label: "Instagram", src: "insta" },
+  { value: "stories", label: "Stories", src: "stories" },
+  { value: "outro", label: "Outro", src: "outro" },
+];
+
+export const DEFAULT_CAMPAIGN_SLUG = "default";
+
+export function getChannelSrc(channel: string) {
+  return (
+    CAMPAIGN_CHANNELS.find((option) => option.value === channel)?.src ??
+    channel
+  );
+}
+
+export function getChannelLabel(channel: string) {
+  return (
+    CAMPAIGN_CHANNELS.find((option) => option.value === channel)?.label ??
+    channel
+  );
+}
+
+export function getBaseUrl() {
+  if (typeof window !== "undefined" && window.location?.origin) {
+    return window.location.origin;
+  }
+  const raw = (process.env.NEXT_PUBLIC_SITE_URL ?? "").trim();
+  if (!raw) return "";
+  const normalized = raw.replace(/\/$/, "");
+  if (normalized.startsWith("http://") || normalized.startsWith("https://")) {
+    return normalized;
+  }
+  return `https://${normalized}`;
+}
+
+export function buildInternalLink(path: string) {
+  const baseUrl = getBaseUrl();
+  return baseUrl ? `${baseUrl}${path}` : path;
+}
+
+export function buildTrackedPath(
+  productSlug: string,
+  mode: TrackedLinkMode,
+  channel: string,
+  campaign?: Pick<Campaign, "slug" | "channel"> | null
+) {
+  const params = new URLSearchParams({
+    src: getChannelSrc(campaign?.channel ?? channel),
+    camp: campaign?.slug ?? DEFAULT_CAMPAIGN_SLUG,
+  });
+  return `/${mode}/${productSlug}?${params.toString()}`;
+}
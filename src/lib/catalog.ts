@@ -0,0 +1,270 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getDescendantIds, loadCategories } from "@/lib/categories";
+import { onlyPublished } from "@/lib/schedule";
+import type { Category, Product, TagStat } from "@/lib/types";
+
+export const PAGE_SIZE = 24;
+
+export const PRODUCT_CARD_SELECT =
+  "id, slug, title, description_short, price_text, price_cents, currency, previous_price, price_changed_at, image_url, image_urls, image_variants, tags, category, is_featured, is_exclusive, is_trending, is_hot, featured_rank, exclusive_rank, trending_rank, hot_rank, click_count, is_active, created_at";
+
+export const priceRanges = [
+  { value: "all", label: "Todos" },
+  { value: "0-50", label: "Até R$ 50" },
+  { value: "50-100", label: "R$ 50 - 100" },
+  { value: "100-200", label: "R$ 100 - 200" },
+  { value: "200-500", label: "R$ 200 - 500" },
+  { value: "500+", label: "Acima de R$ 500" },
+];
+
+export const sortOptions = [
+  { value: "recent", label: "Mais recentes" },
+  { value: "popular", label: "Mais clicados" },
+  { value: "price-asc", label: "Menor preço" },
+  { value: "price-desc", label: "Maior preço" },
+];
+
+export function getPriceRangeCents(priceFilter: string) {
+  if (!priceFilter || priceFilter === "all") return { min: null, max: null };
+  if (priceFilter === "500+") return { min: 50000, max: null };
+
+  const [min, max] = priceFilter.split("-").map(Number);
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    return { min: null, max: null };
+  }
+  return { min: Math.round(min * 100), max: Math.round(max * 100) };
+}
+
+export function getSortOrder(sort: string) {
+  if (sort === "price-asc") return { column: "price_cents", ascending: true };
+  if (sort === "price-desc") return { column: "price_cents", ascending: false };
+  if (sort === "popular") return { column: "click_count", ascending: false };
+  return { column: "created_at", ascending: false };
+}
+
+export type CatalogFilters = {
+  query: string;
+  categoryIds: string[] | null;
+  tags: string[] | null;
+  price: string;
+  sort: string;
+};
+
+type CatalogCursor = {
+  value: string | number | null;
+  id: string;
+};
+
+export function encodeCursor(cursor: CatalogCursor) {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(value?: string | null): CatalogCursor | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [cursorValue, id] = parsed;
+    if (typeof id !== "string" || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+    if (
+      cursorValue !== null &&
+      typeof cursorValue !== "string" &&
+      typeof cursorValue !== "number"
+    ) {
+      return null;
+    }
+    return { value: cursorValue, id };
+  } catch {
+    return null;
+  }
+}
+
+function quoteFilterValue(value: string | number) {
+  return typeof value === "number"
+    ? String(value)
+    : `"${value.replace(/["\\]/g, "")}"`;
+}
+
+export function getSearchPattern(query: string) {
+  return query.replace(/[%,()*"{}\\]/g, " ").trim();
+}
+
+export type CategorySummary = Category & { count: number };
+
+// A category page lists its subcategories' products too. An unknown or
+// inactive slug yields no ids, so the catalog comes back empty.
+export async function fetchCategoryFilter(
+  supabase: SupabaseClient,
+  categorySlug: string
+) {
+  const { categories } = await loadCategories(supabase, { activeOnly: true });
+  const category =
+    categories.find((item) => item.slug === categorySlug) ?? null;
+
+  return {
+    categories,
+    category,
+    categoryIds: category ? getDescendantIds(categories, category.id) : [],
+  };
+}
+
+// Tags are free text, so "Fone" and "fone" share the /tag/fone page. The
+// label is the spelling used by the most published products (the function
+// returns them in that order).
+export async function fetchTagFilter(supabase: SupabaseClient, tagSlug: string) {
+  const { data } = await supabase.rpc("tag_variants", { tag_slug: tagSlug });
+  const variants = (data ?? []) as Pick<TagStat, "tag" | "published">[];
+
+  return {
+    tag: variants[0]?.tag ?? null,
+    tags: variants.map((item) => item.tag),
+  };
+}
+
+// Published products per category, counted in the database so the numbers
+// do not stop at the API's row limit.
+export async function fetchCategoryCounts(
+  supabase: SupabaseClient,
+  price = "all"
+) {
+  const range = getPriceRangeCents(price);
+  const { data } = await supabase.rpc("category_product_counts", {
+    min_price_cents: range.min,
+    max_price_cents: range.max,
+  });
+
+  return new Map(
+    ((data ?? []) as { category_id: string; products: number }[]).map(
+      (row) => [row.category_id, Number(row.products)]
+    )
+  );
+}
+
+// Counts roll up, so a parent shows the offers of its whole branch.
+export function summarizeCategories(
+  categories: Category[],
+  direct: Map<string, number>
+): CategorySummary[] {
+  return categories.map((category) => ({
+    ...category,
+    count: getDescendantIds(categories, category.id).reduce(
+      (total, id) => total + (direct.get(id) ?? 0),
+      0
+    ),
+  }));
+}
+
+export async function fetchCatalogPage(
+  supabase: SupabaseClient,
+  filters: CatalogFilters,
+  cursorParam?: string | null,
+  withCount = false
+) {
+  const priceRange = getPriceRangeCents(filters.price);
+  const sortOrder = getSortOrder(filters.sort);
+  const cursor = decodeCursor(cursorParam);
+  const searchPattern = getSearchPattern(filters.query);
+
+  let query = onlyPublished(
+    supabase
+      .from("products")
+      .select(PRODUCT_CARD_SELECT, {
+        count: withCount && !cursor ? "exact" : undefined,
+      })
+      .eq("is_active", true)
+  );
+
+  if (filters.categoryIds) {
+    query = query.in("category_id", filters.categoryIds);
+  }
+  if (filters.tags) {
+    query = query.overlaps("tags", filters.tags);
+  }
+  if (priceRange.min !== null) {
+    query = query.gte("price_cents", priceRange.min);
+  }
+  if (priceRange.max !== null) {
+    query = query.lte("price_cents", priceRange.max);
+  }
+  if (searchPattern) {
+    query = query.or(
+      `search_vector.wfts(portuguese_unaccent)."${searchPattern}",title.ilike.%${searchPattern}%,tags.cs.{"${searchPattern.toLowerCase()}"}`
+    );
+  }
+
+  // Keyset pagination over (sort column, id); null sort values come last.
+  if (cursor) {
+    const column = sortOrder.column;
+    if (cursor.value === null) {
+      query = query.is(column, null).gt("id", cursor.id);
+    } else {
+      const operator = sortOrder.ascending ? "gt" : "lt";
+      const value = quoteFilterValue(cursor.value);
+      query = query.or(
+        `${column}.${operator}.${value},and(${column}.eq.${value},id.gt.${cursor.id}),${column}.is.null`
+      );
+    }
+  }
+
+  const { data, count, error } = await query
+    .order(sortOrder.column, {
+      ascending: sortOrder.ascending,
+      nullsFirst: false,
+    })
+    .order("id", { ascending: true })
+    .limit(PAGE_SIZE + 1);
+
+  const rows = (data ?? []) as Product[];
+  const products = rows.slice(0, PAGE_SIZE);
+  const last = products[products.length - 1];
+  const lastValue = last
+    ? ((last as Record<string, unknown>)[sortOrder.column] as
+        | string
+        | number
+        | null
+        | undefined)
+    : null;
+  const nextCursor =
+    rows.length > PAGE_SIZE && last
+      ? encodeCursor({ value: lastValue ?? null, id: last.id })
+      : null;
+
+  return { products, nextCursor, total: count ?? null, error };
+}
+
+export function parsePageParam(value?: string) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 1 ? parsed : 1;
+}
+
+// Ranked full-text search (stemming, accents and typos handled in Postgres).
+export async function fetchSearchResults(
+  supabase: SupabaseClient,
+  searchQuery: string,
+  price: string,
+  page: number
+) {
+  const priceRange = getPriceRangeCents(price);
+  const from = (page - 1) * PAGE_SIZE;
+
+  let query = supabase
+    .rpc("search_products", { search_query: searchQuery }, { count: "exact" })
+    .select(PRODUCT_CARD_SELECT);
+
+  if (priceRange.min !== null) {
+    query = query.gte("price_cents", priceRange.min);
+  }
+  if (priceRange.max !== null) {
+    query = query.lte("price_cents", priceRange.max);
+  }
+
+  const { data, count, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+  return {
+    products: (data ?? []) as Product[],
+    total: count ?? 0,
+    error,
+  };
+}
@@ -1,20 +1,228 @@
-export const CATEGORY_OPTIONS = [
-  "Tech",
-  "Casa e decoração",
-  "Pet",
-  "Automóveis",
-  "Beleza e saúde",
-  "Eletrônicos",
-  "Eletrodomésticos",
-  "Bijoux",
-  "Fitness",
-  "Moda Masculina",
-  "Moda Feminina",
-  "Moda Infantil",
-  "Bebe e Maternidade",
-  "Brinquedos",
-  "Cama, mesa e banho",
-  "Games",
-  "Produtos de Limpeza",
-  "Alimentos",
-];
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Category, CategoryKeyword, CategoryRule } from "@/lib/types";
+
+export const CATEGORIES_SELECT =
+  "id, name, slug, parent_id, icon, description, sort_order, is_active, created_at, updated_at";
+
+export type CategoryOption = Category & {
+  depth: number;
+  // "Moda › Moda Feminina", for selects and breadcrumbs in the admin.
+  label: string;
+};
+
+export const CATEGORY_RULES_SELECT =
+  "id, category, keywords, negative_keywords, min_score, is_active, created_at, updated_at";
+
+export type CategoryScore = {
+  category: string;
+  score: number;
+  matched: string[];
+  blockedBy: string[];
+  eligible: boolean;
+};
+
+type RuleLike = Pick<
+  CategoryRule,
+  "category" | "keywords" | "negative_keywords" | "min_score" | "is_active"
+>;
+
+export function toTokens(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9*]+/)
+    .filter(Boolean);
+}
+
+function tokenMatches(token: string, term: string) {
+  if (term.endsWith("*")) return token.startsWith(term.slice(0, -1));
+  return token === term || token === `${term}s` || token === `${term}es`;
+}
+
+// Terms match whole words (plurals in -s/-es included), so "cao" no longer
+// hits "decoracao". A trailing * matches any word starting with the term and
+// multi-word terms must appear in sequence.
+export function matchesTerm(tokens: string[], term: string) {
+  const termTokens = toTokens(term);
+  if (termTokens.length === 0) return false;
+
+  for (let start = 0; start + termTokens.length <= tokens.length; start += 1) {
+    if (
+      termTokens.every((part, offset) =>
+        tokenMatches(tokens[start + offset], part)
+      )
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function scoreCategories(
+  title: string,
+  storeName: string,
+  rules: RuleLike[]
+): CategoryScore[] {
+  const tokens = toTokens(`${title} ${storeName}`);
+  if (tokens.length === 0) return [];
+
+  return rules
+    .filter((rule) => rule.is_active)
+    .map((rule) => {
+      const matched = rule.keywords.filter((keyword) =>
+        matchesTerm(tokens, keyword.term)
+      );
+      const blockedBy = rule.negative_keywords.filter((term) =>
+        matchesTerm(tokens, term)
+      );
+      const score =
+        Math.round(
+          matched.reduce((total, keyword) => total + keyword.weight, 0) * 10
+        ) / 10;
+      return {
+        category: rule.category,
+        score,
+        matched: matched.map((keyword) => keyword.term),
+        blockedBy,
+        eligible:
+          score > 0 &&
+          score >= rule.min_score &&
+          blockedBy.length === 0,
+      };
+    })
+    .filter((entry) => entry.score > 0 || entry.blockedBy.length > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Highest eligible score wins; a tie at the top is left uncategorised.
+export function inferCategory(
+  title: string,
+  storeName: string,
+  rules: RuleLike[]
+) {
+  const eligible = scoreCategories(title, storeName, rules).filter(
+    (entry) => entry.eligible
+  );
+  if (eligible.length === 0) return null;
+  if (eligible[1] && eligible[1].score === eligible[0].score) return null;
+  return eligible[0].category;
+}
+
+// "fone:2, headset, caixa de som:1.5" <-> [{ term, weight }]
+export function parseKeywordList(value: string): CategoryKeyword[] {
+  const keywords = new Map<string, CategoryKeyword>();
+  for (const item of value.split(/[,\n]/)) {
+    const match = item.trim().match(/^(.*?)(?::\s*(\d+(?:\.\d+)?))?$/);
+    const term = match?.[1]?.trim().toLowerCase();
+    if (!term) continue;
+    const weight = match?.[2] ? Number(match[2]) : 1;
+    if (!Number.isFinite(weight) || weight <= 0) continue;
+    keywords.set(term, { term, weight });
+  }
+  return Array.from(keywords.values());
+}
+
+export function formatKeywordList(keywords: CategoryKeyword[]) {
+  return keywords
+    .map((keyword) =>
+      keyword.weight === 1
+        ? keyword.term
+        : `${keyword.term}:${keyword.weight}`
+    )
+    .join(", ");
+}
+
+export function parseTermList(value: string) {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,\n]/)
+        .map((term) => term.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+// Import and re-categorisation read the active rules once per batch; without
+// rules nothing is inferred and imports carry on uncategorised.
+export async function loadCategoryRules(client: SupabaseClient) {
+  const { data, error } = await client
+    .from("category_rules")
+    .select(CATEGORY_RULES_SELECT)
+    .eq("is_active", true);
+
+  return {
+    rules: (data ?? []) as CategoryRule[],
+    error: error?.message ?? null,
+  };
+}
+
+export async function loadCategories(
+  client: SupabaseClient,
+  { activeOnly = false }: { activeOnly?: boolean } = {}
+) {
+  let query = client.from("categories").select(CATEGORIES_SELECT);
+  if (activeOnly) query = query.eq("is_active", true);
+
+  const { data, error } = await query
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  return {
+    categories: (data ?? []) as Category[],
+    error: error?.message ?? null,
+  };
+}
+
+// Root to leaf, the category itself last. A parent missing from the list
+// (inactive, for the public pages) ends the path there.
+export function getCategoryPath(categories: Category[], categoryId: string) {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: Category[] = [];
+  let current = byId.get(categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+export function getChildCategories(
+  categories: Category[],
+  parentId: string | null
+) {
+  return categories.filter((category) => category.parent_id === parentId);
+}
+
+// The category and everything below it, for filtering products.
+export function getDescendantIds(categories: Category[], categoryId: string) {
+  const ids = [categoryId];
+  for (let index = 0; index < ids.length; index += 1) {
+    for (const child of getChildCategories(categories, ids[index])) {
+      if (!ids.includes(child.id)) ids.push(child.id);
+    }
+  }
+  return ids;
+}
+
+// Depth-first in sort order, so parents come right before their children.
+// Categories whose parent is not in the list are treated as roots.
+export function buildCategoryOptions(categories: Category[]): CategoryOption[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const options: CategoryOption[] = [];
+
+  const visit = (category: Category, depth: number, prefix: string) => {
+    if (options.some((option) => option.id === category.id)) return;
+    const label = prefix ? `${prefix} › ${category.name}` : category.name;
+    options.push({ ...category, depth, label });
+    getChildCategories(categories, category.id).forEach((child) =>
+      visit(child, depth + 1, label)
+    );
+  };
+
+  categories
+    .filter((category) => !category.parent_id || !ids.has(category.parent_id))
+    .forEach((category) => visit(category, 0, ""));
+  return options;
+}
@@ -0,0 +1,243 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { inferCategory, toTokens } from "@/lib/categories";
+import type { CategoryRule, CategorySuggestion } from "@/lib/types";
+
+// Below this the suggestion is not applied and the product waits in the
+// review queue instead.
+export const CATEGORY_CONFIDENCE_THRESHOLD = 0.75;
+
+// Per request to /api/products/suggest-category.
+export const MAX_SUGGEST_ITEMS = 500;
+
+// Categories with fewer examples are left out of the model; the rules still
+// cover them.
+const MIN_EXAMPLES_PER_CATEGORY = 3;
+const TRAINING_PAGE_SIZE = 1000;
+const MODEL_TTL_MS = 10 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  "as",
+  "os",
+  "de",
+  "da",
+  "das",
+  "do",
+  "dos",
+  "em",
+  "na",
+  "no",
+  "com",
+  "para",
+  "por",
+  "sem",
+  "um",
+  "uma",
+  "kit",
+  "novo",
+  "original",
+  "promocao",
+  "oferta",
+]);
+
+type CategoryStats = {
+  category: string;
+  documents: number;
+  tokenTotal: number;
+  tokenCounts: Map<string, number>;
+};
+
+export type CategoryModel = {
+  categories: CategoryStats[];
+  vocabulary: Set<string>;
+  documents: number;
+};
+
+export type CategoryPrediction = {
+  category: string;
+  probability: number;
+};
+
+export type TrainingExample = {
+  title: string | null;
+  store_name: string | null;
+  category: string | null;
+};
+
+// Same normalisation as the rules, minus stopwords and bare numbers, with a
+// crude singular so "fones" and "fone" count as one feature.
+export function getClassifierTokens(title: string, storeName: string) {
+  const tokens = toTokens(`${title} ${storeName}`.replace(/\*/g, " "))
+    .filter((token) => token.length > 1 && !/^\d+$/.test(token))
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) =>
+      token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token
+    );
+  // Titles repeat words for search ranking; counting each once keeps a
+  // stuffed title from outvoting the rest.
+  return Array.from(new Set(tokens));
+}
+
+export function trainCategoryModel(examples: TrainingExample[]): CategoryModel {
+  const byCategory = new Map<string, string[][]>();
+  for (const example of examples) {
+    if (!example.category) continue;
+    const tokens = getClassifierTokens(
+      example.title ?? "",
+      example.store_name ?? ""
+    );
+    if (tokens.length === 0) continue;
+    byCategory.set(example.category, [
+      ...(byCategory.get(example.category) ?? []),
+      tokens,
+    ]);
+  }
+
+  const vocabulary = new Set<string>();
+  const categories: CategoryStats[] = [];
+  let documents = 0;
+
+  for (const [category, docs] of byCategory) {
+    if (docs.length < MIN_EXAMPLES_PER_CATEGORY) continue;
+    const tokenCounts = new Map<string, number>();
+    let tokenTotal = 0;
+    for (const tokens of docs) {
+      for (const token of tokens) {
+        tokenCounts.set(token, (tokenCounts.get(token) ?? 0) + 1);
+        vocabulary.add(token);
+        tokenTotal += 1;
+      }
+    }
+    categories.push({
+      category,
+      documents: docs.length,
+      tokenTotal,
+      tokenCounts,
+    });
+    documents += docs.length;
+  }
+
+  return { categories, vocabulary, documents };
+}
+
+// Multinomial naive Bayes with Laplace smoothing. Words never seen in
+// training carry no signal and are skipped; a title made only of them gets
+// no prediction at all.
+export function classifyCategory(
+  model: CategoryModel,
+  title: string,
+  storeName: string
+): CategoryPrediction[] {
+  if (model.categories.length < 2) return [];
+  const tokens = getClassifierTokens(title, storeName).filter((token) =>
+    model.vocabulary.has(token)
+  );
+  if (tokens.length === 0) return [];
+
+  const vocabularySize = model.vocabulary.size;
+  const logScores = model.categories.map((stats) => {
+    let score = Math.log(
+      (stats.documents + 1) / (model.documents + model.categories.length)
+    );
+    for (const token of tokens) {
+      score += Math.log(
+        ((stats.tokenCounts.get(token) ?? 0) + 1) /
+          (stats.tokenTotal + vocabularySize)
+      );
+    }
+    return score;
+  });
+
+  // Softmax over log scores, shifted by the max to stay in float range.
+  const maxScore = Math.max(...logScores);
+  const weights = logScores.map((score) => Math.exp(score - maxScore));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return model.categories
+    .map((stats, index) => ({
+      category: stats.category,
+      probability: weights[index] / total,
+    }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+// A rule hit is an explicit editor decision and wins outright; the model
+// only fills in where the rules found nothing or tied.
+export function suggestCategory(
+  title: string,
+  storeName: string,
+  rules: CategoryRule[],
+  model: CategoryModel | null
+): CategorySuggestion | null {
+  const ruled = inferCategory(title, storeName, rules);
+  if (ruled) return { category: ruled, confidence: 1, method: "rules" };
+  if (!model) return null;
+
+  const [top] = classifyCategory(model, title, storeName);
+  if (!top) return null;
+  return {
+    category: top.category,
+    confidence: Math.round(top.probability * 1000) / 1000,
+    method: "model",
+  };
+}
+
+export function isConfidentSuggestion(suggestion: CategorySuggestion | null) {
+  return (
+    !!suggestion && suggestion.confidence >= CATEGORY_CONFIDENCE_THRESHOLD
+  );
+}
+
+// Columns for a product without a category: a confident suggestion is
+// applied (and marked as such, so the model never trains on it), a weak one
+// is kept for the review queue.
+export function getSuggestedCategoryFields(
+  suggestion: CategorySuggestion | null
+) {
+  if (suggestion && isConfidentSuggestion(suggestion)) {
+    return {
+      category: suggestion.category,
+      category_source: suggestion.method,
+      category_suggestion: null,
+      category_confidence: null,
+    };
+  }
+  return {
+    category: null,
+    category_source: null,
+    category_suggestion: suggestion?.category ?? null,
+    category_confidence: suggestion?.confidence ?? null,
+  };
+}
+
+let cachedModel: { model: CategoryModel; loadedAt: number } | null = null;
+
+// Trains only on products an editor categorized by hand: categories applied
+// by the rules or by the model itself would feed its own mistakes back in.
+// The catalog changes slowly, so the model is kept for a few minutes between
+// worker batches.
+export async function loadCategoryModel(
+  client: SupabaseClient
+): Promise<{ model: CategoryModel | null; error: string | null }> {
+  if (cachedModel && Date.now() - cachedModel.loadedAt < MODEL_TTL_MS) {
+    return { model: cachedModel.model, error: null };
+  }
+
+  const examples: TrainingExample[] = [];
+  for (let from = 0; ; from += TRAINING_PAGE_SIZE) {
+    const { data, error } = await client
+      .from("products")
+      .select("title, store_name, category")
+      .not("category_id", "is", null)
+      .eq("category_source", "manual")
+      .order("id", { ascending: true })
+      .range(from, from + TRAINING_PAGE_SIZE - 1);
+
+    if (error) return { model: null, error: error.message };
+    examples.push(...((data ?? []) as TrainingExample[]));
+    if (!data || data.length < TRAINING_PAGE_SIZE) break;
+  }
+
+  const model = trainCategoryModel(examples);
+  cachedModel = { model, loadedAt: Date.now() };
+  return { model, error: null };
+}
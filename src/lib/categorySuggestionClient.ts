@@ -0,0 +1,40 @@
+import { getAuthHeaders } from "@/lib/supabase/client";
+import { MAX_SUGGEST_ITEMS } from "@/lib/categoryClassifier";
+import type { CategorySuggestion } from "@/lib/types";
+
+export type SuggestCategoryItem = {
+  title: string;
+  store_name: string;
+};
+
+// Asks the server for suggestions in request-sized batches, keeping the
+// order of the items sent.
+export async function fetchCategorySuggestions(
+  items: SuggestCategoryItem[]
+): Promise<{
+  suggestions: (CategorySuggestion | null)[];
+  errorStatus: number | null;
+}> {
+  const suggestions: (CategorySuggestion | null)[] = [];
+
+  for (let index = 0; index < items.length; index += MAX_SUGGEST_ITEMS) {
+    const response = await fetch("/api/products/suggest-category", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({
+        items: items.slice(index, index + MAX_SUGGEST_ITEMS),
+      }),
+    });
+    if (!response.ok) return { suggestions: [], errorStatus: response.status };
+
+    const payload = (await response.json()) as {
+      suggestions: (CategorySuggestion | null)[];
+    };
+    suggestions.push(...payload.suggestions);
+  }
+
+  return { suggestions, errorStatus: null };
+}
@@ -0,0 +1,58 @@
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const BOT_USER_AGENT_PATTERN =
+  /bot\b|crawler|spider|preview|facebookexternalhit|facebot|whatsapp|telegrambot|twitterbot|slackbot|discordbot|linkedinbot|skypeuripreview|pinterest|embedly|quora link preview|vkshare|headlesschrome|lighthouse|curl\/|wget\/|python-requests|axios\/|node-fetch|go-http-client/i;
+
+export function isBotUserAgent(userAgent: string | null) {
+  if (!userAgent || !userAgent.trim()) return true;
+  return BOT_USER_AGENT_PATTERN.test(userAgent);
+}
+
+export function getClientIp(headers: Headers) {
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) {
+    const first = forwarded.split(",")[0]?.trim();
+    if (first) return first;
+  }
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+export function buildVisitorHash(ip: string | null, userAgent: string | null) {
+  if (!ip && !userAgent) return null;
+  const salt = process.env.CLICK_FINGERPRINT_SALT ?? "";
+  return createHash("sha256")
+    .update(`${salt}|${ip ?? ""}|${userAgent ?? ""}`)
+    .digest("hex");
+}
+
+// Short links to a list or banner have no product; they are logged with only
+// the short link so its counter and the campaign reports still see them.
+type OutboundClick = {
+  productId: string | null;
+  src: string | null;
+  camp: string | null;
+  shortLinkId?: string | null;
+};
+
+export async function recordOutboundClick(
+  supabase: SupabaseClient,
+  headers: Headers,
+  click: OutboundClick
+) {
+  const ua = headers.get("user-agent") ?? null;
+  const ip = getClientIp(headers);
+  const isBot = isBotUserAgent(ua);
+
+  await supabase.from("outbound_clicks").insert({
+    product_id: click.productId,
+    short_link_id: click.shortLinkId ?? null,
+    src: click.src,
+    camp: click.camp,
+    ua,
+    is_bot: isBot,
+    visitor_hash: buildVisitorHash(ip, ua),
+  });
+
+  return { isBot };
+}
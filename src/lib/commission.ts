@@ -0,0 +1,28 @@
+import { parseDecimalText } from "@/lib/pricing";
+
+// Bare whole numbers are percent ("1" is 1%); only a decimal below one
+// without "%" is read as a fraction ("0.05" is 5%).
+export function parseCommissionRate(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = parseDecimalText(trimmed);
+  if (parsed === null || parsed < 0) return null;
+  const rate =
+    !trimmed.includes("%") && /[.,]/.test(trimmed) && parsed < 1
+      ? Math.round(parsed * 10000) / 100
+      : parsed;
+  return rate <= 100 ? rate : null;
+}
+
+export function parseSalesCount(value: string) {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+  const parsed = parseDecimalText(trimmed);
+  if (parsed === null || parsed < 0) return null;
+  const multiplier = /mil|k/.test(trimmed) ? 1000 : 1;
+  return Math.round(parsed * multiplier);
+}
+
+export function formatCommissionRate(value: number) {
+  return `${value.toFixed(2).replace(/\.?0+$/, "").replace(".", ",")}%`;
+}
@@ -0,0 +1,105 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { planEnrichment } from "@/lib/enrichment";
+import type { EnrichableProduct } from "@/lib/enrichment";
+import { extractProductPage } from "@/lib/productPage";
+
+const PAGE_URL =
+  "https://shopee.com.br/Fone-de-Ouvido-Bluetooth-TWS-i12-i.123456.7890123";
+
+const page = extractProductPage(
+  readFileSync(
+    new URL("./__fixtures__/shopee-product.html", import.meta.url),
+    "utf8"
+  ),
+  PAGE_URL
+);
+
+const buildProduct = (
+  overrides: Partial<EnrichableProduct> = {}
+): EnrichableProduct => ({
+  id: "7b0c6a52-3f0e-4d55-9a57-2f4f3b1c8d10",
+  origin_url: PAGE_URL,
+  description_short: null,
+  price_text: null,
+  rating: null,
+  rating_count: null,
+  image_url: null,
+  image_urls: [],
+  image_variants: null,
+  enrichment: null,
+  ...overrides,
+});
+
+describe("planEnrichment", () => {
+  it("fills every empty field from the page", () => {
+    const { updates, imagesToHost, snapshot } = planEnrichment(
+      buildProduct(),
+      page
+    );
+
+    expect(updates).toEqual({
+      description_short: page.description,
+      price_text: "R$ 89,90",
+      rating: 4.8,
+      rating_count: 1287,
+    });
+    expect(imagesToHost).toEqual(page.images);
+    expect(snapshot.title).toBe(page.title);
+  });
+
+  it("keeps manual edits and refreshes what the last run wrote", () => {
+    const { updates, imagesToHost } = planEnrichment(
+      buildProduct({
+        description_short: "Texto escrito pela equipe",
+        price_text: "R$ 99,90",
+        image_url: "https://cdn.exemplo.com/manual.webp",
+        image_urls: ["https://cdn.exemplo.com/manual.webp"],
+        enrichment: {
+          title: page.title,
+          description_short: "Descricao antiga da pagina",
+          price_text: "R$ 99,90",
+          rating: null,
+          rating_count: null,
+          source_images: [],
+          image_urls: [],
+        },
+      }),
+      page
+    );
+
+    expect(updates).toEqual({
+      price_text: "R$ 89,90",
+      rating: 4.8,
+      rating_count: 1287,
+    });
+    expect(imagesToHost).toBeNull();
+  });
+
+  it("changes nothing when the page matches the previous run", () => {
+    const hosted = ["https://cdn.exemplo.com/products/1/full.webp"];
+    const { updates, imagesToHost } = planEnrichment(
+      buildProduct({
+        description_short: page.description,
+        price_text: page.priceText,
+        rating: page.rating,
+        rating_count: page.ratingCount,
+        image_url: hosted[0],
+        image_urls: hosted,
+        enrichment: {
+          title: page.title,
+          description_short: page.description,
+          price_text: page.priceText,
+          rating: page.rating,
+          rating_count: page.ratingCount,
+          source_images: page.images,
+          image_urls: hosted,
+        },
+      }),
+      page
+    );
+
+    expect(updates).toEqual({});
+    expect(imagesToHost).toBeNull();
+  });
+});
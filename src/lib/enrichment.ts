@@ -0,0 +1,298 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildImageBasePath,
+  isSupportedImage,
+  storeImageVariants,
+} from "@/lib/imageProcessing";
+import { parsePriceText } from "@/lib/pricing";
+import { extractProductPage } from "@/lib/productPage";
+import type { ProductPageData } from "@/lib/productPage";
+import type {
+  Product,
+  ProductEnrichment,
+  ProductImageVariants,
+} from "@/lib/types";
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_DESCRIPTION_LENGTH = 280;
+
+const FETCH_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+
+export const ENRICHMENT_SELECT =
+  "id, origin_url, description_short, price_text, rating, rating_count, image_url, image_urls, image_variants, enrichment";
+
+export type EnrichableProduct = Pick<
+  Product,
+  | "id"
+  | "origin_url"
+  | "description_short"
+  | "price_text"
+  | "rating"
+  | "rating_count"
+  | "image_url"
+  | "image_urls"
+  | "image_variants"
+  | "enrichment"
+>;
+
+type ScalarField =
+  | "description_short"
+  | "price_text"
+  | "rating"
+  | "rating_count";
+
+export type EnrichmentStatus = "updated" | "unchanged" | "failed";
+
+export type EnrichmentResult = {
+  id: string;
+  status: EnrichmentStatus;
+  fields: string[];
+  error: string | null;
+};
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || value === "";
+}
+
+// A field is only overwritten while it is empty or still holds exactly what
+// the previous run wrote; anything else counts as a manual edit.
+function canReplace(current: unknown, previous: unknown) {
+  if (isBlank(current)) return true;
+  return !isBlank(previous) && current === previous;
+}
+
+function sameList(a: string[], b: string[]) {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+function truncate(value: string | null) {
+  if (!value || value.length <= MAX_DESCRIPTION_LENGTH) return value;
+  return `${value.slice(0, MAX_DESCRIPTION_LENGTH - 3).trimEnd()}...`;
+}
+
+function canReplaceImages(
+  product: EnrichableProduct,
+  previous: ProductEnrichment | null
+) {
+  const current = (product.image_urls ?? []).filter(Boolean);
+  if (current.length === 0 && !product.image_url) return true;
+  if (!previous || previous.image_urls.length === 0) return false;
+  return (
+    sameList(current, previous.image_urls) &&
+    (!product.image_url || product.image_url === previous.image_urls[0])
+  );
+}
+
+// Decides which fields the scraped page may fill. Pure, so the overwrite rules
+// can be checked without Supabase or network access.
+export function planEnrichment(
+  product: EnrichableProduct,
+  page: ProductPageData
+) {
+  const previous = product.enrichment ?? null;
+  const extracted: Record<ScalarField, string | number | null> = {
+    description_short: truncate(page.description),
+    price_text: page.priceText,
+    rating: page.rating,
+    rating_count: page.ratingCount,
+  };
+
+  const updates: Partial<Record<ScalarField, string | number>> = {};
+  for (const field of Object.keys(extracted) as ScalarField[]) {
+    const value = extracted[field];
+    if (value === null || value === product[field]) continue;
+    if (canReplace(product[field], previous?.[field] ?? null)) {
+      updates[field] = value;
+    }
+  }
+
+  const imagesToHost =
+    page.images.length > 0 &&
+    canReplaceImages(product, previous) &&
+    !sameList(page.images, previous?.source_images ?? [])
+      ? page.images
+      : null;
+
+  const snapshot: ProductEnrichment = {
+    title: page.title ?? previous?.title ?? null,
+    description_short:
+      (extracted.description_short as string | null) ??
+      previous?.description_short ??
+      null,
+    price_text: page.priceText ?? previous?.price_text ?? null,
+    rating: page.rating ?? previous?.rating ?? null,
+    rating_count: page.ratingCount ?? previous?.rating_count ?? null,
+    source_images: previous?.source_images ?? [],
+    image_urls: previous?.image_urls ?? [],
+  };
+
+  return { updates, imagesToHost, snapshot };
+}
+
+async function fetchWithTimeout(url: string) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    return await fetch(url, {
+      signal: controller.signal,
+      headers: { "user-agent": FETCH_USER_AGENT },
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function hostImages(
+  admin: SupabaseClient,
+  productId: string,
+  sources: string[]
+) {
+  const hosted: ProductImageVariants[] = [];
+
+  for (const source of sources) {
+    try {
+      const response = await fetchWithTimeout(source);
+      if (!response.ok) continue;
+      const buffer = Buffer.from(await response.arrayBuffer());
+      if (!(await isSupportedImage(buffer))) continue;
+
+      const { variants } = await storeImageVariants(
+        admin,
+        buffer,
+        buildImageBasePath(`products/${productId}`)
+      );
+      if (variants) hosted.push(variants);
+    } catch {
+      // A broken gallery image should not block the remaining ones.
+    }
+  }
+
+  return hosted;
+}
+
+export async function fetchProductPage(
+  url: string
+): Promise<{ page: ProductPageData | null; error: string | null }> {
+  try {
+    const response = await fetchWithTimeout(url);
+    if (!response.ok) return { page: null, error: "page_fetch_failed" };
+    const html = await response.text();
+    return { page: extractProductPage(html, url), error: null };
+  } catch (fetchError) {
+    const aborted =
+      fetchError instanceof Error && fetchError.name === "AbortError";
+    return { page: null, error: aborted ? "timeout" : "fetch_failed" };
+  }
+}
+
+// Applies an already fetched page, for callers that needed the page before
+// the product existed (e.g. importing from a pasted link). A new price also
+// goes to price_history, which drives the price drop and 30-day low.
+export async function applyProductPage(
+  admin: SupabaseClient,
+  product: EnrichableProduct,
+  page: ProductPageData,
+  priceSource = "enrichment"
+): Promise<EnrichmentResult> {
+  const { updates, imagesToHost, snapshot } = planEnrichment(product, page);
+  const fields: string[] = Object.keys(updates);
+  const imageUpdates: Partial<Product> = {};
+
+  if (imagesToHost) {
+    const hosted = await hostImages(admin, product.id, imagesToHost);
+    if (hosted.length > 0) {
+      const urls = hosted.map((variants) => variants.full.url);
+      imageUpdates.image_url = urls[0];
+      imageUpdates.image_urls = urls;
+      imageUpdates.image_variants = hosted;
+      snapshot.source_images = imagesToHost;
+      snapshot.image_urls = urls;
+      fields.push("image_urls");
+    }
+  }
+
+  const { error: updateError } = await admin
+    .from("products")
+    .update({
+      ...updates,
+      ...imageUpdates,
+      enrichment: snapshot,
+      enriched_at: new Date().toISOString(),
+    })
+    .eq("id", product.id);
+
+  if (updateError) {
+    return {
+      id: product.id,
+      status: "failed",
+      fields: [],
+      error: updateError.message,
+    };
+  }
+
+  let historyError: string | null = null;
+  if (updates.price_text) {
+    const priceText = String(updates.price_text);
+    const { error: insertError } = await admin.from("price_history").insert({
+      product_id: product.id,
+      price_text: priceText,
+      price: parsePriceText(priceText),
+      source: priceSource,
+    });
+    if (insertError) {
+      historyError = `Historico de precos: ${insertError.message}`;
+    }
+  }
+
+  return {
+    id: product.id,
+    status: fields.length > 0 ? "updated" : "unchanged",
+    fields,
+    error: historyError,
+  };
+}
+
+async function enrichProduct(
+  admin: SupabaseClient,
+  product: EnrichableProduct
+): Promise<EnrichmentResult> {
+  const { page, error } = await fetchProductPage(product.origin_url);
+  if (!page) {
+    return { id: product.id, status: "failed", fields: [], error };
+  }
+  return applyProductPage(admin, product, page);
+}
+
+export async function runProductEnrichment(
+  admin: SupabaseClient,
+  productIds: string[]
+) {
+  const { data, error } = await admin
+    .from("products")
+    .select(ENRICHMENT_SELECT)
+    .in("id", productIds);
+
+  if (error) {
+    return { results: [] as EnrichmentResult[], error };
+  }
+
+  const productsById = new Map(
+    ((data ?? []) as EnrichableProduct[]).map((product) => [
+      product.id,
+      product,
+    ])
+  );
+  const results: EnrichmentResult[] = [];
+
+  for (const id of productIds) {
+    const product = productsById.get(id);
+    results.push(
+      product
+        ? await enrichProduct(admin, product)
+        : { id, status: "failed", fields: [], error: "not_found" }
+    );
+  }
+
+  return { results, error: null };
+}
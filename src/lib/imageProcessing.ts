@@ -0,0 +1,74 @@
+import sharp from "sharp";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { IMAGE_VARIANT_WIDTHS } from "@/lib/images";
+import type { ImageVariantName, ProductImageVariants } from "@/lib/types";
+
+export const PRODUCT_IMAGES_BUCKET = "product-images";
+
+const WEBP_QUALITY = 80;
+const CACHE_CONTROL_SECONDS = "31536000";
+
+// Paths are <folder>/<imageId>/<variant>.webp, e.g. products/<productId>/<uuid>/card.webp.
+export function buildImageBasePath(folder: string) {
+  return `${folder}/${crypto.randomUUID()}`;
+}
+
+async function renderVariant(input: Buffer, width: number) {
+  const { data, info } = await sharp(input, { failOn: "none" })
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+export async function storeImageVariants(
+  admin: SupabaseClient,
+  input: Buffer,
+  basePath: string
+) {
+  const entries = Object.entries(IMAGE_VARIANT_WIDTHS) as [
+    ImageVariantName,
+    number,
+  ][];
+  const variants: Partial<ProductImageVariants> = {};
+
+  for (const [name, width] of entries) {
+    const rendered = await renderVariant(input, width);
+    const filePath = `${basePath}/${name}.webp`;
+
+    const { error: uploadError } = await admin.storage
+      .from(PRODUCT_IMAGES_BUCKET)
+      .upload(filePath, rendered.data, {
+        contentType: "image/webp",
+        cacheControl: CACHE_CONTROL_SECONDS,
+        upsert: true,
+      });
+
+    if (uploadError) {
+      return { variants: null, error: uploadError.message };
+    }
+
+    const { data: publicData } = admin.storage
+      .from(PRODUCT_IMAGES_BUCKET)
+      .getPublicUrl(filePath);
+
+    variants[name] = {
+      url: publicData.publicUrl,
+      width: rendered.width,
+      height: rendered.height,
+    };
+  }
+
+  return { variants: variants as ProductImageVariants, error: null };
+}
+
+export async function isSupportedImage(input: Buffer) {
+  try {
+    const metadata = await sharp(input).metadata();
+    return Boolean(metadata.width && metadata.height);
+  } catch {
+    return false;
+  }
+}
@@ -1,9 +1,67 @@
-import type { Product } from "@/lib/types";
+import type {
+  ImageVariantName,
+  Product,
+  ProductImageVariants,
+} from "@/lib/types";
 
-export function getProductImages(product: Product) {
+export type ResponsiveImage = {
+  src: string;
+  srcSet: string | null;
+  width: number | null;
+  height: number | null;
+};
+
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariantName, number> = {
+  thumb: 160,
+  card: 480,
+  full: 1200,
+};
+
+const variantOrder: ImageVariantName[] = ["thumb", "card", "full"];
+
+function toResponsiveImage(
+  url: string,
+  variants: ProductImageVariants | undefined,
+  preferred: ImageVariantName
+): ResponsiveImage {
+  if (!variants) {
+    return { src: url, srcSet: null, width: null, height: null };
+  }
+
+  const chosen = variants[preferred] ?? variants.full;
+  const srcSet = variantOrder
+    .map((name) => variants[name])
+    .filter(Boolean)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(", ");
+
+  return {
+    src: chosen.url,
+    srcSet: srcSet || null,
+    width: chosen.width,
+    height: chosen.height,
+  };
+}
+
+// Re-hosted images carry WebP variants keyed by their full-size URL; external
+// URLs come back as a plain src without srcSet.
+export function getProductImages(
+  product: Product,
+  preferred: ImageVariantName = "card"
+) {
   const fromArray = (product.image_urls ?? []).filter(Boolean);
   const fallback = product.image_url ? [product.image_url] : [];
   const merged = [...fromArray, ...fallback];
   const unique = Array.from(new Set(merged));
-  return unique;
+
+  const variantsByUrl = new Map(
+    (product.image_variants ?? []).map((variants) => [
+      variants.full.url,
+      variants,
+    ])
+  );
+
+  return unique.map((url) =>
+    toResponsiveImage(url, variantsByUrl.get(url), preferred)
+  );
 }
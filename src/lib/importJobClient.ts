@@ -0,0 +1,111 @@
+import { getAuthHeaders, supabase } from "@/lib/supabase/client";
+import type { ImportSelection } from "@/lib/importers/preview";
+import type { ImportJob, ImportResult } from "@/lib/types";
+
+const LEASE_POLL_MS = 3000;
+
+type JobResponse = {
+  job: ImportJob | null;
+  errorStatus: number | null;
+};
+
+export function getJobProgress(job: ImportJob) {
+  if (job.total_rows === 0) return job.status === "completed" ? 100 : 0;
+  return Math.floor((job.processed_rows / job.total_rows) * 100);
+}
+
+export function isJobFinished(job: ImportJob) {
+  return job.status === "completed" || job.status === "failed";
+}
+
+async function postJson(url: string, body?: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await getAuthHeaders()),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function toJobResponse(response: Response): Promise<JobResponse> {
+  if (!response.ok) return { job: null, errorStatus: response.status };
+  const payload = (await response.json()) as { job: ImportJob | null };
+  return { job: payload.job, errorStatus: null };
+}
+
+export async function createImportJob(
+  body:
+    | {
+        kind: "csv_import";
+        importer: string;
+        content: string;
+        fileName: string;
+        autoEnrich: boolean;
+        selection?: ImportSelection[];
+      }
+    | { kind: "url_import"; urls: string[] }
+    | { kind: "enrichment"; productIds: string[] }
+) {
+  return toJobResponse(await postJson("/api/imports", body));
+}
+
+export async function retryImportJob(jobId: string) {
+  return toJobResponse(await postJson("/api/imports/retry", { jobId }));
+}
+
+// Drives the worker from the open tab so progress shows up right away. The
+// job lives in the database, so closing the tab only hands it over to the cron.
+export async function driveImportJob(
+  jobId: string,
+  onUpdate: (job: ImportJob) => void
+): Promise<JobResponse> {
+  for (;;) {
+    const response = await postJson(`/api/imports/worker?jobId=${jobId}`);
+    if (!response.ok) return { job: null, errorStatus: response.status };
+
+    const payload = (await response.json()) as {
+      job: ImportJob | null;
+      claimed: boolean;
+    };
+    if (!payload.job) return { job: null, errorStatus: 404 };
+
+    onUpdate(payload.job);
+    if (isJobFinished(payload.job)) {
+      return { job: payload.job, errorStatus: null };
+    }
+    // Another worker holds the lease; check back once it may have moved on.
+    if (!payload.claimed) {
+      await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_MS));
+    }
+  }
+}
+
+export async function fetchImportResult(
+  job: ImportJob
+): Promise<{ result: ImportResult | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("import_job_rows")
+    .select("line, error")
+    .eq("job_id", job.id)
+    .neq("status", "pending")
+    .not("error", "is", null)
+    .order("line", { ascending: true });
+
+  if (error) return { result: null, error: error.message };
+
+  return {
+    result: {
+      imported: job.imported,
+      updated: job.updated,
+      ignored: job.ignored,
+      enriched: job.enriched,
+      errors: (data ?? []).map((row) => ({
+        line: row.line as number,
+        message: row.error as string,
+      })),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,743 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadCategories, loadCategoryRules } from "@/lib/categories";
+import {
+  getSuggestedCategoryFields,
+  loadCategoryModel,
+  suggestCategory,
+} from "@/lib/categoryClassifier";
+import {
+  applyProductPage,
+  ENRICHMENT_SELECT,
+  fetchProductPage,
+  runProductEnrichment,
+} from "@/lib/enrichment";
+import type { EnrichableProduct } from "@/lib/enrichment";
+import { getImporter } from "@/lib/importers";
+import { applyImportSelection, getImportKey } from "@/lib/importers/preview";
+import type { ImportSelection } from "@/lib/importers/preview";
+import type { ImportRow } from "@/lib/importers/types";
+import { parsePriceText } from "@/lib/pricing";
+import { detectSource } from "@/lib/marketplaces";
+import { resolveShopeeLink } from "@/lib/shopeeLinks";
+import { slugify } from "@/lib/slugify";
+import type { ImportJob, ImportJobKind, ImportJobRow } from "@/lib/types";
+
+const CSV_CHUNK_SIZE = 50;
+// Each enrichment fetches the product page and its gallery.
+const ENRICH_CHUNK_SIZE = 3;
+const LEASE_SECONDS = 300;
+const MAX_ROW_ATTEMPTS = 3;
+const MAX_JOB_ATTEMPTS = 5;
+const ROW_INSERT_BATCH = 500;
+
+type RowUpdate = Pick<
+  ImportJobRow,
+  "status" | "attempts" | "error" | "outcome" | "enriched" | "product_id"
+>;
+
+type EnrichmentPayload = { product_id: string };
+
+type UrlPayload = { url: string };
+
+// Rows rejected before queueing (file validation, links outside Shopee) are
+// stored without a payload.
+type JobRowPayload = ImportRow | UrlPayload | EnrichmentPayload | null;
+
+type NewJobRow = Pick<
+  ImportJobRow<JobRowPayload>,
+  "line" | "payload" | "status" | "error"
+>;
+
+async function insertJob(
+  admin: SupabaseClient,
+  job: {
+    kind: ImportJobKind;
+    importer: string | null;
+    fileName: string | null;
+    autoEnrich: boolean;
+    createdBy: string;
+  },
+  rows: NewJobRow[]
+) {
+  const { data, error } = await admin
+    .from("import_jobs")
+    .insert({
+      kind: job.kind,
+      importer: job.importer,
+      file_name: job.fileName,
+      auto_enrich: job.autoEnrich,
+      created_by: job.createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    return { job: null, error: error?.message ?? "job_insert_failed" };
+  }
+
+  for (let index = 0; index < rows.length; index += ROW_INSERT_BATCH) {
+    const { error: rowsError } = await admin.from("import_job_rows").insert(
+      rows.slice(index, index + ROW_INSERT_BATCH).map((row) => ({
+        ...row,
+        job_id: data.id,
+      }))
+    );
+    if (rowsError) {
+      await admin.from("import_jobs").delete().eq("id", data.id);
+      return { job: null, error: rowsError.message };
+    }
+  }
+
+  return refreshJob(admin, data.id);
+}
+
+async function refreshJob(admin: SupabaseClient, jobId: string) {
+  const { error: statsError } = await admin.rpc("refresh_import_job_stats", {
+    target_job: jobId,
+  });
+  if (statsError) return { job: null, error: statsError.message };
+
+  const { data, error } = await admin
+    .from("import_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .single();
+
+  return {
+    job: (data ?? null) as ImportJob | null,
+    error: error?.message ?? null,
+  };
+}
+
+// Rows that fail file validation are stored as already failed, so the job
+// history keeps the same per-line report the import screen shows. With a
+// selection from the preview, only the confirmed lines are queued.
+export async function createCsvImportJob(
+  admin: SupabaseClient,
+  options: {
+    importer: string;
+    content: string;
+    fileName: string | null;
+    autoEnrich: boolean;
+    createdBy: string;
+    selection?: ImportSelection[];
+  }
+) {
+  const importer = getImporter(options.importer);
+  if (!importer) return { job: null, error: "unknown_importer" };
+
+  const parsed = importer.parse(options.content);
+  let rows = parsed.rows;
+  if (options.selection) {
+    const { categories, error } = await loadCategories(admin);
+    if (error) return { job: null, error };
+    rows = applyImportSelection(
+      rows,
+      options.selection,
+      categories.map((category) => category.name)
+    );
+  }
+  const errors = parsed.errors;
+  const jobRows: NewJobRow[] = [
+    ...rows.map((row) => ({
+      line: row.line,
+      payload: row,
+      status: "pending" as const,
+      error: null,
+    })),
+    ...errors.map((error) => ({
+      line: error.line,
+      payload: null,
+      status: "failed" as const,
+      error: error.message,
+    })),
+  ];
+
+  return insertJob(
+    admin,
+    {
+      kind: "csv_import",
+      importer: importer.id,
+      fileName: options.fileName,
+      autoEnrich: options.autoEnrich,
+      createdBy: options.createdBy,
+    },
+    jobRows
+  );
+}
+
+// Each pasted link becomes a row; links outside Shopee are kept as failed rows
+// so the report still accounts for everything that was pasted.
+export async function createUrlImportJob(
+  admin: SupabaseClient,
+  options: { urls: string[]; createdBy: string }
+) {
+  return insertJob(
+    admin,
+    {
+      kind: "url_import",
+      importer: null,
+      fileName: null,
+      autoEnrich: true,
+      createdBy: options.createdBy,
+    },
+    options.urls.map((url, index) => {
+      const isShopee = detectSource(url) === "shopee";
+      return {
+        line: index + 1,
+        payload: isShopee ? { url } : null,
+        status: isShopee ? "pending" : "failed",
+        error: isShopee ? null : `Link nao e da Shopee: ${url}`,
+      };
+    })
+  );
+}
+
+export async function createEnrichmentJob(
+  admin: SupabaseClient,
+  options: { productIds: string[]; createdBy: string }
+) {
+  return insertJob(
+    admin,
+    {
+      kind: "enrichment",
+      importer: null,
+      fileName: null,
+      autoEnrich: true,
+      createdBy: options.createdBy,
+    },
+    options.productIds.map((productId, index) => ({
+      line: index + 1,
+      payload: { product_id: productId },
+      status: "pending",
+      error: null,
+    }))
+  );
+}
+
+function retryOrFail(row: ImportJobRow, error: string): RowUpdate {
+  const attempts = row.attempts + 1;
+  return {
+    status: attempts >= MAX_ROW_ATTEMPTS ? "failed" : "pending",
+    attempts,
+    error,
+    outcome: null,
+    enriched: false,
+    product_id: row.product_id,
+  };
+}
+
+async function enrichRow(
+  admin: SupabaseClient,
+  productId: string,
+  update: RowUpdate
+): Promise<RowUpdate> {
+  const { results, error } = await runProductEnrichment(admin, [productId]);
+  const result = results[0];
+  if (error || !result) {
+    return {
+      ...update,
+      error: `Dados da página: ${error?.message ?? "falha"}`,
+    };
+  }
+  if (result.status === "failed") {
+    return { ...update, error: `Dados da página: ${result.error}` };
+  }
+  return {
+    ...update,
+    enriched: result.status === "updated",
+    error: result.error ?? update.error,
+  };
+}
+
+async function processCsvRows(
+  admin: SupabaseClient,
+  job: ImportJob,
+  rows: ImportJobRow<ImportRow>[]
+) {
+  const updates = new Map<string, RowUpdate>();
+  const payloads = rows.map((row) => row.payload);
+  const { rules } = await loadCategoryRules(admin);
+  const { model } = await loadCategoryModel(admin);
+
+  const { data: existingRows, error: existingError } = await admin
+    .from("products")
+    .select("id, source, external_id")
+    .in(
+      "external_id",
+      payloads.map((payload) => payload.external_id)
+    );
+
+  if (existingError) {
+    return { updates, error: existingError.message };
+  }
+
+  const existingMap = new Map(
+    (existingRows ?? []).map((row) => [getImportKey(row), row.id as string])
+  );
+  const history: Record<string, unknown>[] = [];
+  const priceHistory: Record<string, unknown>[] = [];
+
+  const pushHistory = (productId: string, row: ImportRow) => {
+    history.push({
+      product_id: productId,
+      price_text: row.price_text,
+      sales: row.sales,
+      commission_rate: row.commission_rate,
+      commission_value: row.commission_value,
+    });
+    priceHistory.push({
+      product_id: productId,
+      price_text: row.price_text,
+      price: parsePriceText(row.price_text),
+      source: "import",
+    });
+  };
+
+  for (const [index, jobRow] of rows.entries()) {
+    const row = payloads[index];
+    const done: RowUpdate = {
+      status: "done",
+      attempts: jobRow.attempts + 1,
+      error: null,
+      outcome: null,
+      enriched: false,
+      product_id: null,
+    };
+
+    const existingId = existingMap.get(getImportKey(row));
+    if (existingId) {
+      const { error: updateError } = await admin
+        .from("products")
+        .update({
+          price_text: row.price_text,
+          origin_url: row.origin_url,
+          affiliate_url: row.affiliate_url,
+          sales: row.sales,
+          commission_rate: row.commission_rate,
+          commission_value: row.commission_value,
+          ...(row.category !== undefined
+            ? { category: row.category, category_source: "manual" }
+            : {}),
+        })
+        .eq("id", existingId);
+
+      if (updateError) {
+        updates.set(jobRow.id, retryOrFail(jobRow, updateError.message));
+      } else {
+        pushHistory(existingId, row);
+        updates.set(jobRow.id, {
+          ...done,
+          outcome: "updated",
+          product_id: existingId,
+        });
+      }
+      continue;
+    }
+
+    const baseSlug = slugify(row.title);
+    const slug = baseSlug ? `${baseSlug}-${row.external_id}` : row.external_id;
+
+    const { data: insertData, error: insertError } = await admin
+      .from("products")
+      .insert({
+        source: row.source,
+        external_id: row.external_id,
+        title: row.title,
+        slug,
+        description_short: null,
+        price_text: row.price_text,
+        image_url: null,
+        image_urls: [],
+        origin_url: row.origin_url,
+        affiliate_url: row.affiliate_url,
+        tags: [row.source],
+        store_name: row.store_name || null,
+        ...(row.category !== undefined
+          ? { category: row.category, category_source: "manual" }
+          : getSuggestedCategoryFields(
+              suggestCategory(row.title, row.store_name, rules, model)
+            )),
+        sales: row.sales,
+        commission_rate: row.commission_rate,
+        commission_value: row.commission_value,
+        is_active: false,
+      })
+      .select("id")
+      .single();
+
+    if (insertError || !insertData) {
+      const failed = retryOrFail(
+        jobRow,
+        insertError?.message ?? "insert_failed"
+      );
+      updates.set(jobRow.id, {
+        ...failed,
+        outcome: failed.status === "failed" ? "ignored" : null,
+      });
+      continue;
+    }
+
+    existingMap.set(getImportKey(row), insertData.id);
+    pushHistory(insertData.id, row);
+
+    const imported: RowUpdate = {
+      ...done,
+      outcome: "imported",
+      product_id: insertData.id,
+    };
+    updates.set(
+      jobRow.id,
+      job.auto_enrich
+        ? await enrichRow(admin, insertData.id, imported)
+        : imported
+    );
+  }
+
+  const historyErrors: string[] = [];
+  if (history.length > 0) {
+    const { error: historyError } = await admin
+      .from("product_commission_history")
+      .insert(history);
+    if (historyError) {
+      historyErrors.push(`Historico de comissao: ${historyError.message}`);
+    }
+  }
+  if (priceHistory.length > 0) {
+    const { error: priceHistoryError } = await admin
+      .from("price_history")
+      .insert(priceHistory);
+    if (priceHistoryError) {
+      historyErrors.push(`Historico de precos: ${priceHistoryError.message}`);
+    }
+  }
+
+  return {
+    updates,
+    error: historyErrors.length > 0 ? historyErrors.join(" / ") : null,
+  };
+}
+
+// Shopee page titles end with " | Shopee Brasil".
+function cleanShopeeTitle(title: string) {
+  return title.replace(/\s*[|-]\s*Shopee( Brasil)?\s*$/i, "").trim();
+}
+
+async function processUrlRows(
+  admin: SupabaseClient,
+  rows: ImportJobRow<UrlPayload>[]
+) {
+  const updates = new Map<string, RowUpdate>();
+  const { rules } = await loadCategoryRules(admin);
+  const { model } = await loadCategoryModel(admin);
+
+  for (const jobRow of rows) {
+    const { url } = jobRow.payload;
+    const done: RowUpdate = {
+      status: "done",
+      attempts: jobRow.attempts + 1,
+      error: null,
+      outcome: null,
+      enriched: false,
+      product_id: null,
+    };
+
+    const { link, error: linkError } = await resolveShopeeLink(url);
+    if (!link) {
+      updates.set(jobRow.id, retryOrFail(jobRow, `Link: ${linkError}`));
+      continue;
+    }
+
+    const { data: existing, error: existingError } = await admin
+      .from("products")
+      .select("id")
+      .eq("source", "shopee")
+      .eq("external_id", link.itemId)
+      .maybeSingle();
+
+    if (existingError) {
+      updates.set(jobRow.id, retryOrFail(jobRow, existingError.message));
+      continue;
+    }
+    if (existing) {
+      updates.set(jobRow.id, {
+        ...done,
+        outcome: "ignored",
+        product_id: existing.id,
+      });
+      continue;
+    }
+
+    const { page, error: pageError } = await fetchProductPage(link.originUrl);
+    const pageTitle = page?.title ? cleanShopeeTitle(page.title) : null;
+    const title = pageTitle || link.slugTitle;
+    if (!title) {
+      updates.set(
+        jobRow.id,
+        retryOrFail(
+          jobRow,
+          `Dados da página: ${pageError ?? "titulo nao encontrado"}`
+        )
+      );
+      continue;
+    }
+
+    const baseSlug = slugify(title);
+    const { data: insertData, error: insertError } = await admin
+      .from("products")
+      .insert({
+        source: "shopee",
+        external_id: link.itemId,
+        title,
+        slug: baseSlug ? `${baseSlug}-${link.itemId}` : link.itemId,
+        description_short: null,
+        price_text: null,
+        image_url: null,
+        image_urls: [],
+        origin_url: link.originUrl,
+        affiliate_url: link.affiliateUrl,
+        tags: ["shopee"],
+        store_name: null,
+        ...getSuggestedCategoryFields(
+          suggestCategory(title, "", rules, model)
+        ),
+        is_active: false,
+      })
+      .select(ENRICHMENT_SELECT)
+      .single();
+
+    if (insertError || !insertData) {
+      const failed = retryOrFail(
+        jobRow,
+        insertError?.message ?? "insert_failed"
+      );
+      updates.set(jobRow.id, {
+        ...failed,
+        outcome: failed.status === "failed" ? "ignored" : null,
+      });
+      continue;
+    }
+
+    const product = insertData as EnrichableProduct;
+    const imported: RowUpdate = {
+      ...done,
+      outcome: "imported",
+      product_id: product.id,
+    };
+
+    // The product is created even when the page hides its data, so the row
+    // is done and the error only flags what is missing.
+    if (!page) {
+      updates.set(jobRow.id, {
+        ...imported,
+        error: `Dados da página: ${pageError}`,
+      });
+      continue;
+    }
+
+    const result = await applyProductPage(admin, product, page, "import");
+    if (result.status === "failed") {
+      updates.set(jobRow.id, {
+        ...imported,
+        error: `Dados da página: ${result.error}`,
+      });
+      continue;
+    }
+
+    updates.set(jobRow.id, {
+      ...imported,
+      enriched: result.status === "updated",
+      error: result.error,
+    });
+  }
+
+  return { updates, error: null };
+}
+
+async function processEnrichmentRows(
+  admin: SupabaseClient,
+  rows: ImportJobRow<EnrichmentPayload>[]
+) {
+  const updates = new Map<string, RowUpdate>();
+
+  for (const jobRow of rows) {
+    const { product_id: productId } = jobRow.payload;
+    const { results, error } = await runProductEnrichment(admin, [productId]);
+    const result = results[0];
+
+    if (error || !result || result.status === "failed") {
+      updates.set(
+        jobRow.id,
+        retryOrFail(jobRow, error?.message ?? result?.error ?? "falha")
+      );
+      continue;
+    }
+
+    updates.set(jobRow.id, {
+      status: "done",
+      attempts: jobRow.attempts + 1,
+      error: result.error,
+      outcome: null,
+      enriched: result.status === "updated",
+      product_id: productId,
+    });
+  }
+
+  return { updates, error: null };
+}
+
+async function findNextJob(admin: SupabaseClient, jobId?: string) {
+  let query = admin.from("import_jobs").select("*");
+  query = jobId
+    ? query.eq("id", jobId)
+    : query
+        .in("status", ["queued", "running"])
+        .order("created_at", { ascending: true })
+        .limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  return { job: (data ?? null) as ImportJob | null, error };
+}
+
+// Processes one chunk of the given job (or the oldest unfinished one). Jobs
+// are leased while a chunk runs, so a worker that dies mid-chunk only delays
+// the job until the lease expires and the next call resumes its pending rows.
+export async function processImportJob(
+  admin: SupabaseClient,
+  jobId?: string
+) {
+  const { job, error: findError } = await findNextJob(admin, jobId);
+  if (findError) return { job: null, claimed: false, error: findError.message };
+  if (!job || job.status === "completed" || job.status === "failed") {
+    return { job, claimed: false, error: null };
+  }
+
+  const now = new Date();
+  const { data: claimedJob, error: claimError } = await admin
+    .from("import_jobs")
+    .update({
+      status: "running",
+      started_at: job.started_at ?? now.toISOString(),
+      locked_until: new Date(
+        now.getTime() + LEASE_SECONDS * 1000
+      ).toISOString(),
+    })
+    .eq("id", job.id)
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("*")
+    .maybeSingle();
+
+  if (claimError) return { job, claimed: false, error: claimError.message };
+  if (!claimedJob) return { job, claimed: false, error: null };
+
+  const chunkSize =
+    job.kind === "enrichment" || job.auto_enrich
+      ? ENRICH_CHUNK_SIZE
+      : CSV_CHUNK_SIZE;
+
+  const { data: pendingRows, error: rowsError } = await admin
+    .from("import_job_rows")
+    .select("*")
+    .eq("job_id", job.id)
+    .eq("status", "pending")
+    .order("line", { ascending: true })
+    .limit(chunkSize);
+
+  let chunkError = rowsError?.message ?? null;
+
+  if (!chunkError && pendingRows && pendingRows.length > 0) {
+    // Pending rows always carry the payload of their job's kind.
+    const processed =
+      job.kind === "enrichment"
+        ? await processEnrichmentRows(
+            admin,
+            pendingRows as ImportJobRow<EnrichmentPayload>[]
+          )
+        : job.kind === "url_import"
+          ? await processUrlRows(
+              admin,
+              pendingRows as ImportJobRow<UrlPayload>[]
+            )
+          : await processCsvRows(
+              admin,
+              claimedJob as ImportJob,
+              pendingRows as ImportJobRow<ImportRow>[]
+            );
+
+    for (const [rowId, update] of processed.updates) {
+      const { error: rowError } = await admin
+        .from("import_job_rows")
+        .update({ ...update, processed_at: new Date().toISOString() })
+        .eq("id", rowId);
+      if (rowError) {
+        chunkError = rowError.message;
+        break;
+      }
+    }
+    chunkError = chunkError ?? processed.error;
+  }
+
+  const { count: remaining } = await admin
+    .from("import_job_rows")
+    .select("id", { count: "exact", head: true })
+    .eq("job_id", job.id)
+    .eq("status", "pending");
+
+  const attempts = rowsError ? job.attempts + 1 : 0;
+  const finished = !rowsError && remaining === 0;
+
+  await admin
+    .from("import_jobs")
+    .update({
+      status: finished
+        ? "completed"
+        : attempts >= MAX_JOB_ATTEMPTS
+          ? "failed"
+          : "running",
+      attempts,
+      last_error: chunkError ?? job.last_error,
+      locked_until: null,
+      finished_at:
+        finished || attempts >= MAX_JOB_ATTEMPTS
+          ? new Date().toISOString()
+          : null,
+    })
+    .eq("id", job.id);
+
+  const refreshed = await refreshJob(admin, job.id);
+  return { job: refreshed.job, claimed: true, error: refreshed.error };
+}
+
+// Sends rows that ran out of attempts back to the queue. Lines rejected up
+// front (file validation, links outside Shopee) have no payload and stay
+// failed.
+export async function retryFailedRows(admin: SupabaseClient, jobId: string) {
+  const { error: rowsError } = await admin
+    .from("import_job_rows")
+    .update({
+      status: "pending",
+      attempts: 0,
+      error: null,
+      outcome: null,
+    })
+    .eq("job_id", jobId)
+    .eq("status", "failed")
+    .not("payload", "is", null);
+
+  if (rowsError) return { job: null, error: rowsError.message };
+
+  const { error: jobError } = await admin
+    .from("import_jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+      locked_until: null,
+      finished_at: null,
+    })
+    .eq("id", jobId);
+
+  if (jobError) return { job: null, error: jobError.message };
+
+  return refreshJob(admin, jobId);
+}
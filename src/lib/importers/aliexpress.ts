@@ -0,0 +1,42 @@
+import { parseFeed } from "@/lib/importers/feed";
+import type { Importer } from "@/lib/importers/types";
+
+export const aliexpressImporter: Importer = {
+  id: "aliexpress",
+  label: "AliExpress (CSV ou JSON)",
+  source: "aliexpress",
+  description:
+    "Exportacao do portal de afiliados ou JSON da API (resp_result.result.products). Use precos na moeda BRL.",
+  accept: ".csv,.json",
+  parse: (text) =>
+    parseFeed(text, {
+      source: "aliexpress",
+      listPaths: [
+        "aliexpress_affiliate_product_query_response.resp_result.result.products.product",
+        "aliexpress_affiliate_productdetail_get_response.resp_result.result.products.product",
+        "resp_result.result.products.product",
+        "result.products.product",
+        "products.product",
+        "products",
+      ],
+      buildOriginUrl: (id) => `https://pt.aliexpress.com/item/${id}.html`,
+      fields: {
+        external_id: ["product_id", "Product Id", "ProductId"],
+        title: ["product_title", "Product Desc", "Product Title", "Titulo"],
+        price: [
+          "target_sale_price",
+          "sale_price",
+          "Discount Price",
+          "Sale Price",
+          "target_original_price",
+          "Origin Price",
+        ],
+        store_name: ["shop_name", "Shop Name", "Loja"],
+        origin_url: ["product_detail_url", "Product Url", "Product Detail Url"],
+        affiliate_url: ["promotion_link", "Promotion Url", "Promotion Link"],
+        sales: ["lastest_volume", "latest_volume", "30days Sales", "Sales"],
+        commission_rate: ["commission_rate", "Commission Rate"],
+        commission_value: ["Estimated Commission", "commission"],
+      },
+    }),
+};
@@ -0,0 +1,39 @@
+import { parseFeed } from "@/lib/importers/feed";
+import type { Importer } from "@/lib/importers/types";
+
+export const amazonImporter: Importer = {
+  id: "amazon",
+  label: "Amazon (CSV ou JSON)",
+  source: "amazon",
+  description:
+    "Relatorio de itens do Associados ou JSON da PA-API (SearchResult.Items). O link recebe a tag de associado ao sair da vitrine.",
+  accept: ".csv,.json",
+  parse: (text) =>
+    parseFeed(text, {
+      source: "amazon",
+      listPaths: ["SearchResult.Items", "ItemsResult.Items", "Items", "items"],
+      buildOriginUrl: (asin) => `https://www.amazon.com.br/dp/${asin}`,
+      fields: {
+        external_id: ["ASIN", "id"],
+        title: ["ItemInfo.Title.DisplayValue", "Title", "Titulo", "Nome"],
+        price: [
+          "Offers.Listings.0.Price.Amount",
+          "Price",
+          "Preco",
+          "Valor",
+        ],
+        store_name: [
+          "Offers.Listings.0.MerchantInfo.Name",
+          "ItemInfo.ByLineInfo.Brand.DisplayValue",
+          "Seller",
+          "Vendedor",
+          "Marca",
+        ],
+        origin_url: ["DetailPageURL", "URL", "Link do produto", "link"],
+        affiliate_url: ["affiliate_url", "Link de afiliado", "Short Link"],
+        sales: ["Vendas"],
+        commission_rate: ["Commission Rate", "Comissao", "Taxa"],
+        commission_value: ["Commission", "Comissao (R$)", "Ganhos"],
+      },
+    }),
+};
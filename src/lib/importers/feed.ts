@@ -0,0 +1,213 @@
+import Papa from "papaparse";
+import { isValidUrl } from "@/lib/validation";
+import { parseCommissionRate, parseSalesCount } from "@/lib/commission";
+import { formatPrice, parseDecimalText } from "@/lib/pricing";
+import type { ImportError, ProductSource } from "@/lib/types";
+import type { ImportRow, ParsedImport } from "@/lib/importers/types";
+
+type FeedField =
+  | "external_id"
+  | "title"
+  | "price"
+  | "store_name"
+  | "origin_url"
+  | "affiliate_url"
+  | "sales"
+  | "commission_rate"
+  | "commission_value";
+
+export type FeedConfig = {
+  source: ProductSource;
+  // Column names (CSV) or dotted paths (JSON) tried in order for each field.
+  fields: Record<FeedField, string[]>;
+  // Where the item list lives in JSON exports that wrap it in an object.
+  listPaths: string[];
+  // Builds the product page when the export only carries an id.
+  buildOriginUrl?: (externalId: string) => string;
+};
+
+type FeedRecord = Record<string, unknown>;
+
+const fieldLabels: Record<FeedField, string> = {
+  external_id: "ID",
+  title: "Titulo",
+  price: "Preco",
+  store_name: "Loja",
+  origin_url: "Link do produto",
+  affiliate_url: "Link de afiliado",
+  sales: "Vendas",
+  commission_rate: "Comissao (%)",
+  commission_value: "Comissao (R$)",
+};
+
+// "Preço do Produto", "preco_do_produto" and "PrecoDoProduto" all match.
+function normalizeKey(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/gi, "")
+    .toLowerCase();
+}
+
+function getPath(record: unknown, path: string): unknown {
+  let current = record;
+  for (const segment of path.split(".")) {
+    if (Array.isArray(current)) {
+      current = current[Number(segment)];
+      continue;
+    }
+    if (!current || typeof current !== "object") return undefined;
+    const key = normalizeKey(segment);
+    const match = Object.keys(current).find(
+      (candidate) => normalizeKey(candidate) === key
+    );
+    if (match === undefined) return undefined;
+    current = (current as FeedRecord)[match];
+  }
+  return current;
+}
+
+function readField(record: FeedRecord, paths: string[]) {
+  for (const path of paths) {
+    const value = getPath(record, path);
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return String(value);
+    }
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+}
+
+function toPriceText(value: string) {
+  const parsed = parseDecimalText(value);
+  return parsed !== null && parsed > 0 ? formatPrice(parsed) : null;
+}
+
+function readJsonRecords(text: string, listPaths: string[]) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (Array.isArray(parsed)) return parsed as FeedRecord[];
+
+  for (const path of listPaths) {
+    const list = getPath(parsed, path);
+    if (Array.isArray(list)) return list as FeedRecord[];
+  }
+  return null;
+}
+
+// Generic reader for the CSV/JSON exports of affiliate programs. Columns are
+// matched by name, so extra or reordered columns do not break the import.
+// Lines are file lines for CSV and item positions for JSON.
+export function parseFeed(text: string, config: FeedConfig): ParsedImport {
+  const errors: ImportError[] = [];
+  const rows: ImportRow[] = [];
+  const cleanText = text.replace(/^\uFEFF/, "").trim();
+
+  if (!cleanText) {
+    errors.push({ line: 0, message: "Arquivo vazio." });
+    return { rows, errors };
+  }
+
+  const isJson = cleanText.startsWith("[") || cleanText.startsWith("{");
+  let records: FeedRecord[];
+  let firstLine: number;
+
+  if (isJson) {
+    const jsonRecords = readJsonRecords(cleanText, config.listPaths);
+    if (!jsonRecords) {
+      errors.push({
+        line: 0,
+        message: "JSON invalido ou sem lista de produtos.",
+      });
+      return { rows, errors };
+    }
+    records = jsonRecords;
+    firstLine = 1;
+  } else {
+    const parsed = Papa.parse<FeedRecord>(cleanText, {
+      header: true,
+      skipEmptyLines: "greedy",
+    });
+    records = parsed.data;
+    firstLine = 2;
+  }
+
+  const seenIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const lineNumber = index + firstLine;
+    if (!record || typeof record !== "object") {
+      errors.push({ line: lineNumber, message: "Item invalido." });
+      return;
+    }
+
+    const values = Object.fromEntries(
+      (Object.keys(config.fields) as FeedField[]).map((field) => [
+        field,
+        readField(record, config.fields[field]),
+      ])
+    ) as Record<FeedField, string>;
+
+    const originUrl =
+      values.origin_url ||
+      (values.external_id && config.buildOriginUrl
+        ? config.buildOriginUrl(values.external_id)
+        : "");
+    const priceText = values.price ? toPriceText(values.price) : null;
+
+    for (const field of ["external_id", "title", "price"] as const) {
+      if (!values[field]) {
+        errors.push({
+          line: lineNumber,
+          message: `${fieldLabels[field]} ausente.`,
+        });
+        return;
+      }
+    }
+    if (!priceText) {
+      errors.push({ line: lineNumber, message: "Preco invalido." });
+      return;
+    }
+    if (!originUrl) {
+      errors.push({ line: lineNumber, message: "Link do produto ausente." });
+      return;
+    }
+    if (!isValidUrl(originUrl)) {
+      errors.push({ line: lineNumber, message: "Link do produto invalido." });
+      return;
+    }
+    if (values.affiliate_url && !isValidUrl(values.affiliate_url)) {
+      errors.push({ line: lineNumber, message: "Link de afiliado invalido." });
+      return;
+    }
+    if (seenIds.has(values.external_id)) {
+      errors.push({ line: lineNumber, message: "ID duplicado no arquivo." });
+      return;
+    }
+    seenIds.add(values.external_id);
+
+    rows.push({
+      line: lineNumber,
+      source: config.source,
+      external_id: values.external_id,
+      title: values.title,
+      price_text: priceText,
+      store_name: values.store_name,
+      origin_url: originUrl,
+      affiliate_url: values.affiliate_url || null,
+      sales: values.sales ? parseSalesCount(values.sales) : null,
+      commission_rate: values.commission_rate
+        ? parseCommissionRate(values.commission_rate)
+        : null,
+      commission_value: values.commission_value
+        ? parseDecimalText(values.commission_value)
+        : null,
+    });
+  });
+
+  return { rows, errors };
+}
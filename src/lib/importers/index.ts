@@ -0,0 +1,22 @@
+import { aliexpressImporter } from "@/lib/importers/aliexpress";
+import { amazonImporter } from "@/lib/importers/amazon";
+import { magaluImporter } from "@/lib/importers/magalu";
+import { mercadoLivreImporter } from "@/lib/importers/mercadoLivre";
+import { shopeeImporter } from "@/lib/importers/shopee";
+import type { Importer } from "@/lib/importers/types";
+
+// New marketplaces plug in here: an adapter only has to turn its export into
+// ImportRow objects; preview, job queue and links work from the row source.
+export const IMPORTERS: Importer[] = [
+  shopeeImporter,
+  mercadoLivreImporter,
+  amazonImporter,
+  aliexpressImporter,
+  magaluImporter,
+];
+
+export const DEFAULT_IMPORTER_ID = shopeeImporter.id;
+
+export function getImporter(id: string | null | undefined) {
+  return IMPORTERS.find((importer) => importer.id === id) ?? null;
+}
@@ -0,0 +1,32 @@
+import { parseFeed } from "@/lib/importers/feed";
+import type { Importer } from "@/lib/importers/types";
+
+export const magaluImporter: Importer = {
+  id: "magalu",
+  label: "Magalu (CSV ou JSON)",
+  source: "magalu",
+  description:
+    "Exportacao do Parceiro Magalu. Sem link de divulgador, o link usa a loja configurada em NEXT_PUBLIC_MAGALU_STORE_ID.",
+  accept: ".csv,.json",
+  parse: (text) =>
+    parseFeed(text, {
+      source: "magalu",
+      listPaths: ["products", "produtos", "items"],
+      fields: {
+        external_id: ["sku", "id", "Codigo", "Codigo do produto"],
+        title: ["title", "name", "Produto", "Nome", "Titulo"],
+        price: ["price.best_price", "best_price", "price", "Preco", "Valor"],
+        store_name: ["seller.name", "seller", "Vendedor", "Loja"],
+        origin_url: ["url", "link", "Link do produto", "URL"],
+        affiliate_url: [
+          "affiliate_url",
+          "Link de divulgacao",
+          "Link do divulgador",
+          "Link de afiliado",
+        ],
+        sales: ["sales", "Vendas"],
+        commission_rate: ["commission_rate", "Comissao", "Comissao (%)"],
+        commission_value: ["commission_value", "Comissao (R$)"],
+      },
+    }),
+};
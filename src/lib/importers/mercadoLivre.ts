@@ -0,0 +1,27 @@
+import { parseFeed } from "@/lib/importers/feed";
+import type { Importer } from "@/lib/importers/types";
+
+export const mercadoLivreImporter: Importer = {
+  id: "mercadolivre",
+  label: "Mercado Livre (CSV ou JSON)",
+  source: "mercadolivre",
+  description:
+    "Exportacao do programa de afiliados ou JSON da API de itens (campo results).",
+  accept: ".csv,.json",
+  parse: (text) =>
+    parseFeed(text, {
+      source: "mercadolivre",
+      listPaths: ["results", "items", "produtos"],
+      fields: {
+        external_id: ["id", "item_id", "ID do produto", "Codigo"],
+        title: ["title", "Titulo", "Produto", "Nome"],
+        price: ["price", "Preco", "Preco atual", "Valor"],
+        store_name: ["seller.nickname", "Vendedor", "Loja", "seller_name"],
+        origin_url: ["permalink", "Link do produto", "URL", "link"],
+        affiliate_url: ["affiliate_url", "Link de afiliado", "Link gerado"],
+        sales: ["sold_quantity", "Vendas", "Vendidos"],
+        commission_rate: ["commission_rate", "Comissao", "Comissao (%)"],
+        commission_value: ["commission_value", "Comissao (R$)", "Ganho"],
+      },
+    }),
+};
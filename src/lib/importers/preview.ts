@@ -0,0 +1,172 @@
+import { isConfidentSuggestion } from "@/lib/categoryClassifier";
+import type { CategorySuggestion, ImportError, Product } from "@/lib/types";
+import type { ImportRow } from "@/lib/importers/types";
+
+export type ImportPreviewStatus = "new" | "updated" | "unchanged" | "invalid";
+
+export type ExistingImportProduct = Pick<
+  Product,
+  | "id"
+  | "source"
+  | "external_id"
+  | "title"
+  | "price_text"
+  | "origin_url"
+  | "affiliate_url"
+  | "sales"
+  | "commission_rate"
+  | "commission_value"
+  | "category"
+>;
+
+export const EXISTING_IMPORT_PRODUCT_SELECT =
+  "id, source, external_id, title, price_text, origin_url, affiliate_url, sales, commission_rate, commission_value, category";
+
+type DiffField = keyof ImportRow & keyof ExistingImportProduct;
+
+export type ImportFieldDiff = {
+  field: DiffField;
+  label: string;
+  before: string | null;
+  after: string | null;
+  // Titles are shown for reference but an import never overwrites them.
+  applied: boolean;
+};
+
+export type ImportPreviewRow = {
+  line: number;
+  status: ImportPreviewStatus;
+  row: ImportRow | null;
+  existing: ExistingImportProduct | null;
+  diffs: ImportFieldDiff[];
+  // Only confident suggestions are preselected; weaker ones are shown and
+  // end up in the review queue unless a category is picked by hand.
+  suggestion: CategorySuggestion | null;
+  inferredCategory: string | null;
+  message: string | null;
+};
+
+const diffFields: { field: DiffField; label: string; applied: boolean }[] = [
+  { field: "price_text", label: "Preço", applied: true },
+  { field: "title", label: "Título", applied: false },
+  { field: "affiliate_url", label: "Link de afiliado", applied: true },
+  { field: "origin_url", label: "Link do produto", applied: true },
+  { field: "sales", label: "Vendas", applied: true },
+  { field: "commission_rate", label: "Comissão (%)", applied: true },
+  { field: "commission_value", label: "Comissão (R$)", applied: true },
+];
+
+function toDiffValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  return String(value).trim();
+}
+
+function isSameValue(before: unknown, after: unknown) {
+  const left = toDiffValue(before);
+  const right = toDiffValue(after);
+  if (left === null || right === null) return left === right;
+  if (typeof after === "number") return Number(left) === Number(right);
+  return left === right;
+}
+
+// The same item id can exist in two marketplaces, so products are matched on
+// source and id together.
+export function getImportKey(item: {
+  source?: string | null;
+  external_id: string | null;
+}) {
+  return `${item.source ?? "other"}:${item.external_id ?? ""}`;
+}
+
+export function buildImportPreview(
+  rows: ImportRow[],
+  errors: ImportError[],
+  existingProducts: ExistingImportProduct[],
+  suggestions: Map<number, CategorySuggestion | null>
+) {
+  const existingMap = new Map(
+    existingProducts.map((product) => [getImportKey(product), product])
+  );
+
+  const preview: ImportPreviewRow[] = rows.map((row) => {
+    const existing = existingMap.get(getImportKey(row)) ?? null;
+    const suggestion = suggestions.get(row.line) ?? null;
+    const inferredCategory = isConfidentSuggestion(suggestion)
+      ? (suggestion?.category ?? null)
+      : null;
+
+    if (!existing) {
+      return {
+        line: row.line,
+        status: "new",
+        row,
+        existing,
+        diffs: [],
+        suggestion,
+        inferredCategory,
+        message: null,
+      };
+    }
+
+    const diffs = diffFields
+      .filter(({ field }) => !isSameValue(existing[field], row[field]))
+      .map(({ field, label, applied }) => ({
+        field,
+        label,
+        before: toDiffValue(existing[field]),
+        after: toDiffValue(row[field]),
+        applied,
+      }));
+
+    return {
+      line: row.line,
+      status: diffs.some((diff) => diff.applied) ? "updated" : "unchanged",
+      row,
+      existing,
+      diffs,
+      suggestion,
+      inferredCategory,
+      message: null,
+    };
+  });
+
+  errors.forEach((error) => {
+    preview.push({
+      line: error.line,
+      status: "invalid",
+      row: null,
+      existing: null,
+      diffs: [],
+      suggestion: null,
+      inferredCategory: null,
+      message: error.message,
+    });
+  });
+
+  return preview.sort((a, b) => a.line - b.line);
+}
+
+export type ImportSelection = {
+  line: number;
+  category?: string | null;
+};
+
+// Keeps only the lines confirmed in the preview, applying category overrides
+// that name a known category (or null for "no category").
+export function applyImportSelection(
+  rows: ImportRow[],
+  selection: ImportSelection[],
+  categoryNames: string[]
+) {
+  const selected = new Map(selection.map((item) => [item.line, item]));
+
+  return rows
+    .filter((row) => selected.has(row.line))
+    .map((row) => {
+      const category = selected.get(row.line)?.category;
+      const isKnownCategory =
+        category === null ||
+        (typeof category === "string" && categoryNames.includes(category));
+      return isKnownCategory ? { ...row, category } : row;
+    });
+}
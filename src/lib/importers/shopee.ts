@@ -0,0 +1,169 @@
+import Papa from "papaparse";
+import { isValidUrl } from "@/lib/validation";
+import { parseCommissionRate, parseSalesCount } from "@/lib/commission";
+import { parseDecimalText } from "@/lib/pricing";
+import type { ImportError } from "@/lib/types";
+import type {
+  Importer,
+  ImportRow,
+  ParsedImport,
+} from "@/lib/importers/types";
+
+const expectedHeader = [
+  "Item Id",
+  "Item Name",
+  "Price",
+  "Sales",
+  "Shop Name",
+  "Commission Rate",
+  "Commission",
+  "Product Link",
+  "Offer Link",
+];
+
+export function parseShopeeCsv(text: string): ParsedImport {
+  const errors: ImportError[] = [];
+  const rows: ImportRow[] = [];
+
+  const cleanText = text.replace(/^\uFEFF/, "");
+  const lines = cleanText.split(/\r?\n/).filter((line) => line.trim() !== "");
+
+  if (lines.length === 0) {
+    errors.push({ line: 0, message: "Arquivo vazio." });
+    return { rows, errors };
+  }
+
+  const headerParse = Papa.parse<string[]>(lines[0].trim());
+  const headerRow = headerParse.data?.[0] ?? [];
+  const normalizedHeader = headerRow.map((value) => value.trim());
+
+  const headerMatches =
+    normalizedHeader.length === expectedHeader.length &&
+    normalizedHeader.every(
+      (value, index) =>
+        value.toLowerCase() === expectedHeader[index].toLowerCase()
+    );
+
+  if (!headerMatches) {
+    errors.push({
+      line: 1,
+      message: `Cabecalho invalido. Esperado: ${expectedHeader.join(", ")}`,
+    });
+    return { rows, errors };
+  }
+
+  const seenIds = new Set<string>();
+  const parsePackedRow = (value: string) => {
+    let cleaned = value.trim();
+    if (cleaned.startsWith('"') && cleaned.endsWith('"')) {
+      cleaned = cleaned.slice(1, -1);
+    }
+    cleaned = cleaned.replace(/""/g, '"');
+    return Papa.parse<string[]>(cleaned).data?.[0] ?? [];
+  };
+
+  lines.slice(1).forEach((rawLine, index) => {
+    const lineNumber = index + 2;
+    const trimmed = rawLine.trim();
+    if (!trimmed) return;
+
+    const parsedRaw = Papa.parse<string[]>(trimmed);
+    const rawRow = parsedRaw.data?.[0] ?? [];
+    let row: string[] = [];
+
+    if (rawRow.length === expectedHeader.length) {
+      const packed = rawRow.slice(1).every((value) => value === "");
+      row = packed ? parsePackedRow(rawRow[0]) : rawRow;
+    } else if (rawRow.length === 1) {
+      row = parsePackedRow(rawRow[0]);
+    } else if (
+      rawRow.length > expectedHeader.length &&
+      rawRow.slice(1).every((value) => value === "")
+    ) {
+      row = parsePackedRow(rawRow[0]);
+    } else {
+      row = rawRow;
+    }
+
+    if (row.length !== expectedHeader.length) {
+      errors.push({
+        line: lineNumber,
+        message: `Colunas invalidas (esperado ${expectedHeader.length}).`,
+      });
+      return;
+    }
+
+    const [
+      itemId,
+      itemName,
+      price,
+      sales,
+      shopName,
+      commissionRate,
+      commission,
+      productLink,
+      offerLink,
+    ] = row.map((value) => value.trim());
+
+    if (!itemId) {
+      errors.push({ line: lineNumber, message: "Item Id ausente." });
+      return;
+    }
+    if (!itemName) {
+      errors.push({ line: lineNumber, message: "Item Name ausente." });
+      return;
+    }
+    if (!price) {
+      errors.push({ line: lineNumber, message: "Price ausente." });
+      return;
+    }
+    if (!productLink) {
+      errors.push({ line: lineNumber, message: "Product Link ausente." });
+      return;
+    }
+    if (!isValidUrl(productLink)) {
+      errors.push({ line: lineNumber, message: "Product Link invalido." });
+      return;
+    }
+    if (offerLink && !isValidUrl(offerLink)) {
+      errors.push({ line: lineNumber, message: "Offer Link invalido." });
+      return;
+    }
+    if (seenIds.has(itemId)) {
+      errors.push({
+        line: lineNumber,
+        message: "Item Id duplicado no arquivo.",
+      });
+      return;
+    }
+    seenIds.add(itemId);
+
+    rows.push({
+      line: lineNumber,
+      source: "shopee",
+      external_id: itemId,
+      title: itemName,
+      price_text: price,
+      store_name: shopName,
+      origin_url: productLink,
+      affiliate_url: offerLink || null,
+      sales: sales ? parseSalesCount(sales) : null,
+      commission_rate: commissionRate
+        ? parseCommissionRate(commissionRate)
+        : null,
+      commission_value: commission ? parseDecimalText(commission) : null,
+    });
+  });
+
+  return { rows, errors };
+}
+
+export const shopeeImporter: Importer = {
+  id: "shopee",
+  label: "Shopee (CSV de afiliados)",
+  source: "shopee",
+  description:
+    "O arquivo deve conter o cabecalho padrao e linhas encapsuladas em aspas.",
+  accept: ".csv",
+  parse: parseShopeeCsv,
+};
@@ -0,0 +1,34 @@
+import type { ImportError, ProductSource } from "@/lib/types";
+
+export type ImportRow = {
+  line: number;
+  source: ProductSource;
+  external_id: string;
+  title: string;
+  price_text: string;
+  store_name: string;
+  origin_url: string;
+  affiliate_url: string | null;
+  sales: number | null;
+  commission_rate: number | null;
+  commission_value: number | null;
+  // Set from the import preview: a category (or null) picked by hand. Left
+  // undefined, new products get the inferred one and updates keep theirs.
+  category?: string | null;
+};
+
+export type ParsedImport = {
+  rows: ImportRow[];
+  errors: ImportError[];
+};
+
+export type Importer = {
+  id: string;
+  label: string;
+  source: ProductSource;
+  // Short hint shown under the file picker.
+  description: string;
+  // Value for the file input's accept attribute.
+  accept: string;
+  parse: (text: string) => ParsedImport;
+};
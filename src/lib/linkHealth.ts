@@ -0,0 +1,200 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LinkStatus, Product } from "@/lib/types";
+
+const CHECK_TIMEOUT_MS = 10000;
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_UNPUBLISH_AFTER = 3;
+
+const CHECK_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+
+type UrlCheck = {
+  url: string;
+  status: LinkStatus;
+  httpStatus: number | null;
+  error: string | null;
+};
+
+type CheckedProduct = Pick<
+  Product,
+  | "id"
+  | "slug"
+  | "origin_url"
+  | "affiliate_url"
+  | "is_active"
+  | "link_failure_streak"
+  | "link_unpublished_at"
+>;
+
+export type LinkHealthResult = {
+  id: string;
+  slug: string;
+  status: LinkStatus;
+  httpStatus: number | null;
+  error: string | null;
+  failureStreak: number;
+  unpublished: boolean;
+  republished: boolean;
+};
+
+function classifyResponse(requestedUrl: string, response: Response): UrlCheck {
+  const httpStatus = response.status;
+
+  // Stores answer bots with 403/429 even for live offers, so those are
+  // inconclusive rather than broken.
+  if (httpStatus === 401 || httpStatus === 403 || httpStatus === 429) {
+    return { url: requestedUrl, status: "blocked", httpStatus, error: null };
+  }
+  if (httpStatus >= 400) {
+    return {
+      url: requestedUrl,
+      status: "broken",
+      httpStatus,
+      error: `http_${httpStatus}`,
+    };
+  }
+
+  // Removed Shopee offers and expired affiliate links bounce to the home page.
+  const requestedPath = new URL(requestedUrl).pathname;
+  const finalPath = response.url ? new URL(response.url).pathname : requestedPath;
+  if (requestedPath !== "/" && finalPath === "/") {
+    return {
+      url: requestedUrl,
+      status: "broken",
+      httpStatus,
+      error: "redirected_home",
+    };
+  }
+
+  return { url: requestedUrl, status: "ok", httpStatus, error: null };
+}
+
+export async function checkUrl(url: string): Promise<UrlCheck> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      redirect: "follow",
+      signal: controller.signal,
+      headers: { "user-agent": CHECK_USER_AGENT },
+    });
+    void response.body?.cancel();
+    return classifyResponse(url, response);
+  } catch (fetchError) {
+    const aborted =
+      fetchError instanceof Error && fetchError.name === "AbortError";
+    return {
+      url,
+      status: "broken",
+      httpStatus: null,
+      error: aborted ? "timeout" : "fetch_failed",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// A product is broken when any of its links is; blocked only wins over ok.
+function summarizeChecks(checks: UrlCheck[]) {
+  return (
+    checks.find((check) => check.status === "broken") ??
+    checks.find((check) => check.status === "blocked") ??
+    checks[0]
+  );
+}
+
+export function getUnpublishThreshold() {
+  const parsed = Number(process.env.LINK_CHECK_UNPUBLISH_AFTER);
+  return Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : DEFAULT_UNPUBLISH_AFTER;
+}
+
+export async function runLinkHealthCheck(
+  admin: SupabaseClient,
+  options: { limit?: number; unpublishAfter?: number } = {}
+) {
+  const limit = options.limit ?? DEFAULT_BATCH_SIZE;
+  const unpublishAfter = options.unpublishAfter ?? getUnpublishThreshold();
+
+  // Products this checker unpublished stay in rotation so they come back
+  // once the link works again; a manual unpublish clears the marker.
+  const { data, error } = await admin
+    .from("products")
+    .select(
+      "id, slug, origin_url, affiliate_url, is_active, link_failure_streak, link_unpublished_at"
+    )
+    .or("is_active.eq.true,link_unpublished_at.not.is.null")
+    .order("link_checked_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    return { results: [] as LinkHealthResult[], error };
+  }
+
+  const results: LinkHealthResult[] = [];
+
+  for (const product of (data ?? []) as CheckedProduct[]) {
+    const urls = Array.from(
+      new Set([product.affiliate_url, product.origin_url].filter(Boolean))
+    ) as string[];
+    const checks: UrlCheck[] = [];
+    for (const url of urls) {
+      checks.push(await checkUrl(url));
+    }
+    const summary = summarizeChecks(checks);
+
+    const previousStreak = product.link_failure_streak ?? 0;
+    const failureStreak =
+      summary.status === "broken"
+        ? previousStreak + 1
+        : summary.status === "ok"
+          ? 0
+          : previousStreak;
+    const autoUnpublished =
+      !product.is_active && Boolean(product.link_unpublished_at);
+    const unpublished =
+      !autoUnpublished &&
+      summary.status === "broken" &&
+      unpublishAfter > 0 &&
+      failureStreak >= unpublishAfter;
+    const republished = autoUnpublished && summary.status === "ok";
+    const checkedAt = new Date().toISOString();
+
+    const { error: updateError } = await admin
+      .from("products")
+      .update({
+        link_status: summary.status,
+        link_http_status: summary.httpStatus,
+        link_error: summary.error,
+        link_checked_at: checkedAt,
+        link_failure_streak: failureStreak,
+        ...(unpublished
+          ? { is_active: false, link_unpublished_at: checkedAt }
+          : {}),
+        ...(republished
+          ? { is_active: true, link_unpublished_at: null }
+          : {}),
+      })
+      .eq("id", product.id);
+
+    if (updateError) {
+      return { results, error: updateError };
+    }
+
+    results.push({
+      id: product.id,
+      slug: product.slug,
+      status: summary.status,
+      httpStatus: summary.httpStatus,
+      error: summary.error,
+      failureStreak,
+      unpublished,
+      republished,
+    });
+  }
+
+  return { results, error: null };
+}
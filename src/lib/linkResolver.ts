@@ -1,8 +1,55 @@
+import { detectSource } from "@/lib/marketplaces";
+import type { ProductSource } from "@/lib/types";
+
 type ProductLinkLike = {
   affiliate_url?: string | null;
   origin_url: string;
+  source?: ProductSource | null;
+};
+
+// Program ids are public (they end up in every link), so they are read from
+// NEXT_PUBLIC_* and work the same in server routes and admin pages.
+function withAmazonTag(originUrl: string) {
+  const tag = process.env.NEXT_PUBLIC_AMAZON_ASSOCIATE_TAG;
+  if (!tag) return originUrl;
+  try {
+    const url = new URL(originUrl);
+    if (!url.searchParams.has("tag")) {
+      url.searchParams.set("tag", tag);
+    }
+    return url.toString();
+  } catch {
+    return originUrl;
+  }
+}
+
+// Magazine Voce stores serve the same paths as magazineluiza.com.br under
+// /magazine<store-id>/.
+function withMagaluStore(originUrl: string) {
+  const storeId = process.env.NEXT_PUBLIC_MAGALU_STORE_ID;
+  if (!storeId) return originUrl;
+  try {
+    const url = new URL(originUrl);
+    if (!url.hostname.endsWith("magazineluiza.com.br")) return originUrl;
+    return `https://www.magazinevoce.com.br/magazine${storeId}${url.pathname}${url.search}`;
+  } catch {
+    return originUrl;
+  }
+}
+
+const originRewriters: Partial<
+  Record<ProductSource, (originUrl: string) => string>
+> = {
+  amazon: withAmazonTag,
+  magalu: withMagaluStore,
 };
 
+// A stored affiliate link always wins. Without one, marketplaces whose program
+// works by tagging the product URL get the tag applied to origin_url.
 export function resolveProductUrl(product: ProductLinkLike) {
-  return product.affiliate_url || product.origin_url;
+  if (product.affiliate_url) return product.affiliate_url;
+
+  const source = product.source ?? detectSource(product.origin_url);
+  const rewrite = originRewriters[source];
+  return rewrite ? rewrite(product.origin_url) : product.origin_url;
 }
@@ -0,0 +1,85 @@
+import type { ProductSource } from "@/lib/types";
+
+type Marketplace = {
+  label: string;
+  // Used in "Ir para o produto ..." buttons.
+  destination: string;
+  hosts: string[];
+};
+
+export const MARKETPLACES: Record<ProductSource, Marketplace> = {
+  shopee: {
+    label: "Shopee",
+    destination: "na Shopee",
+    hosts: ["shopee.com.br", "shope.ee", "s.shopee.com.br"],
+  },
+  mercadolivre: {
+    label: "Mercado Livre",
+    destination: "no Mercado Livre",
+    hosts: [
+      "mercadolivre.com.br",
+      "mercadolivre.com",
+      "mercadolibre.com",
+      "meli.la",
+    ],
+  },
+  amazon: {
+    label: "Amazon",
+    destination: "na Amazon",
+    hosts: ["amazon.com.br", "amazon.com", "amzn.to"],
+  },
+  aliexpress: {
+    label: "AliExpress",
+    destination: "no AliExpress",
+    hosts: ["aliexpress.com", "aliexpress.us", "s.click.aliexpress.com"],
+  },
+  magalu: {
+    label: "Magalu",
+    destination: "na Magalu",
+    hosts: ["magazineluiza.com.br", "magazinevoce.com.br", "magalu.com"],
+  },
+  other: {
+    label: "Outra loja",
+    destination: "na loja",
+    hosts: [],
+  },
+};
+
+export const PRODUCT_SOURCES = Object.keys(MARKETPLACES) as ProductSource[];
+
+export function isProductSource(value: unknown): value is ProductSource {
+  return typeof value === "string" && value in MARKETPLACES;
+}
+
+function getHostname(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function detectSource(url: string | null | undefined): ProductSource {
+  const hostname = url ? getHostname(url) : null;
+  if (!hostname) return "other";
+
+  const match = PRODUCT_SOURCES.find((source) =>
+    MARKETPLACES[source].hosts.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`)
+    )
+  );
+  return match ?? "other";
+}
+
+export function getSourceLabel(source: ProductSource | null | undefined) {
+  return MARKETPLACES[source ?? "other"]?.label ?? MARKETPLACES.other.label;
+}
+
+export function getSourceDestination(
+  source: ProductSource | null | undefined
+) {
+  return (
+    MARKETPLACES[source ?? "other"]?.destination ??
+    MARKETPLACES.other.destination
+  );
+}
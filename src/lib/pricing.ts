@@ -1,31 +1,60 @@
-const bumps = [0.05, 0.1, 0.15, 0.2, 0.25];
+const PRICE_DROP_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
 
-function hashSeed(seed: string) {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i += 1) {
-    hash = (hash << 5) - hash + seed.charCodeAt(i);
-    hash |= 0;
+type PriceStatsLike = {
+  price_text: string | null;
+  previous_price?: number | null;
+  price_changed_at?: string | null;
+};
+
+export function parseDecimalText(value: string) {
+  const cleaned = value.replace(/[^\d,.-]/g, "");
+  if (!cleaned) return null;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let normalized = cleaned;
+
+  if (lastComma > -1 && lastDot > -1) {
+    normalized =
+      lastComma > lastDot
+        ? cleaned.replace(/\./g, "").replace(",", ".")
+        : cleaned.replace(/,/g, "");
+  } else if (lastComma > -1) {
+    normalized = cleaned.replace(/\./g, "").replace(",", ".");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    normalized = cleaned.replace(/\./g, "");
   }
-  return Math.abs(hash);
+
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
 }
 
 export function parsePriceText(priceText: string) {
-  const normalized = priceText
-    .replace(/[^\d,.-]/g, "")
-    .replace(/\./g, "")
-    .replace(",", ".");
-  const value = Number(normalized);
-  return Number.isFinite(value) ? value : null;
+  return parseDecimalText(priceText);
 }
 
 export function formatPrice(value: number) {
   return `R$ ${value.toFixed(2).replace(".", ",")}`;
 }
 
-export function getOriginalPrice(priceText: string, seed: string) {
-  const parsed = parsePriceText(priceText);
-  if (parsed === null) return null;
-  const bump = bumps[hashSeed(seed) % bumps.length];
-  const original = parsed * (1 + bump);
-  return formatPrice(original);
+export function getPriceDrop(product: PriceStatsLike) {
+  if (!product.price_text || product.previous_price == null) return null;
+  const current = parsePriceText(product.price_text);
+  if (current === null || product.previous_price <= current) return null;
+
+  const changedAt = product.price_changed_at
+    ? Date.parse(product.price_changed_at)
+    : NaN;
+  if (!Number.isFinite(changedAt)) return null;
+  if (Date.now() - changedAt > PRICE_DROP_WINDOW_MS) return null;
+
+  const percent = Math.round(
+    ((product.previous_price - current) / product.previous_price) * 100
+  );
+  if (percent < 1) return null;
+
+  return {
+    previousPrice: formatPrice(product.previous_price),
+    percent,
+  };
 }
@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { extractProductPage } from "@/lib/productPage";
+
+const readFixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+describe("extractProductPage", () => {
+  it("reads og tags, price meta and the JSON-LD gallery of a Shopee page", () => {
+    const page = extractProductPage(
+      readFixture("shopee-product.html"),
+      "https://shopee.com.br/Fone-de-Ouvido-Bluetooth-TWS-i12-i.123456.7890123"
+    );
+
+    expect(page).toEqual({
+      title: "Fone de Ouvido Bluetooth TWS i12 | Shopee Brasil",
+      description:
+        "Fone sem fio com case carregador, bateria de 4h & microfone embutido.",
+      images: [
+        "https://down-br.img.susercontent.com/file/br-11134207-7r98o-main",
+        "https://down-br.img.susercontent.com/file/br-11134207-7r98o-side",
+        "https://down-br.img.susercontent.com/file/br-11134207-7r98o-case",
+      ],
+      priceText: "R$ 89,90",
+      rating: 4.8,
+      ratingCount: 1287,
+    });
+  });
+
+  it("falls back to a JSON-LD Product inside @graph", () => {
+    const page = extractProductPage(
+      readFixture("marketplace-jsonld-graph.html"),
+      "https://www.loja-exemplo.com.br/cozinha/air-fryer-digital-4l"
+    );
+
+    expect(page).toEqual({
+      title: "Air Fryer Digital 4L Preta",
+      description: "Fritadeira elétrica sem óleo, 1500W, cesto antiaderente.",
+      images: [
+        "https://www.loja-exemplo.com.br/media/catalog/air-fryer-frente.jpg",
+        "https://www.loja-exemplo.com.br/media/catalog/air-fryer-lado.jpg",
+      ],
+      priceText: "R$ 349,90",
+      rating: 4.5,
+      ratingCount: 42,
+    });
+  });
+
+  it("returns nothing usable for a page without product data", () => {
+    const page = extractProductPage(
+      readFixture("page-without-product-data.html"),
+      "https://shopee.com.br/"
+    );
+
+    expect(page).toEqual({
+      title: null,
+      description: null,
+      images: [],
+      priceText: null,
+      rating: null,
+      ratingCount: null,
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { formatPrice, parseDecimalText } from "@/lib/pricing";
+
+export type ProductPageData = {
+  title: string | null;
+  description: string | null;
+  images: string[];
+  priceText: string | null;
+  rating: number | null;
+  ratingCount: number | null;
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const MAX_GALLERY_IMAGES = 8;
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeHtmlEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    const lower = String(entity).toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return namedEntities[lower] ?? match;
+  });
+}
+
+function cleanText(value: unknown) {
+  if (typeof value !== "string") return null;
+  const text = decodeHtmlEntities(value).replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+function getAttribute(tag: string, name: string) {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i")
+  );
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+// Collects every <meta> content for a property/name, in document order.
+function getMetaContents(html: string, key: string) {
+  const contents: string[] = [];
+  for (const tag of html.match(/<meta\s[^>]*>/gi) ?? []) {
+    const property = getAttribute(tag, "property") ?? getAttribute(tag, "name");
+    if (property?.toLowerCase() !== key) continue;
+    const content = cleanText(getAttribute(tag, "content"));
+    if (content) contents.push(content);
+  }
+  return contents;
+}
+
+function getJsonLdProduct(html: string) {
+  const scripts = html.matchAll(
+    /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+
+  for (const script of scripts) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(script[1]);
+    } catch {
+      continue;
+    }
+
+    const queue: unknown[] = [parsed];
+    while (queue.length > 0) {
+      const node = queue.shift();
+      if (Array.isArray(node)) {
+        queue.push(...node);
+        continue;
+      }
+      if (!node || typeof node !== "object") continue;
+      const record = node as JsonRecord;
+      const type = record["@type"];
+      const types = Array.isArray(type) ? type : [type];
+      if (types.includes("Product")) return record;
+      if (record["@graph"]) queue.push(record["@graph"]);
+    }
+  }
+
+  return null;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") return parseDecimalText(value);
+  return null;
+}
+
+function toImageList(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(toImageList);
+  if (value && typeof value === "object") {
+    const url = (value as JsonRecord).url ?? (value as JsonRecord).contentUrl;
+    return typeof url === "string" ? [url] : [];
+  }
+  return [];
+}
+
+function normalizeUrl(rawUrl: string, pageUrl: string) {
+  try {
+    const url = new URL(decodeHtmlEntities(rawUrl.trim()), pageUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function getOfferPrice(product: JsonRecord | null) {
+  const offers = product?.offers;
+  const offer = (Array.isArray(offers) ? offers[0] : offers) as
+    | JsonRecord
+    | undefined;
+  if (!offer) return { price: null, currency: null };
+  return {
+    price: toNumber(offer.price ?? offer.lowPrice),
+    currency:
+      typeof offer.priceCurrency === "string" ? offer.priceCurrency : null,
+  };
+}
+
+// Reads og:* tags first and falls back to the JSON-LD Product block. Pure
+// string parsing, so saved HTML fixtures can be fed straight in.
+export function extractProductPage(
+  html: string,
+  pageUrl: string
+): ProductPageData {
+  const product = getJsonLdProduct(html);
+
+  const title =
+    getMetaContents(html, "og:title")[0] ?? cleanText(product?.name) ?? null;
+  const description =
+    getMetaContents(html, "og:description")[0] ??
+    cleanText(product?.description) ??
+    getMetaContents(html, "description")[0] ??
+    null;
+
+  const rawImages = [
+    ...getMetaContents(html, "og:image"),
+    ...getMetaContents(html, "og:image:url"),
+    ...toImageList(product?.image),
+  ];
+  const images = Array.from(
+    new Set(
+      rawImages
+        .map((image) => normalizeUrl(image, pageUrl))
+        .filter((image): image is string => Boolean(image))
+    )
+  ).slice(0, MAX_GALLERY_IMAGES);
+
+  const offer = getOfferPrice(product);
+  const metaPrice =
+    getMetaContents(html, "product:price:amount")[0] ??
+    getMetaContents(html, "og:price:amount")[0];
+  const metaCurrency =
+    getMetaContents(html, "product:price:currency")[0] ??
+    getMetaContents(html, "og:price:currency")[0];
+  const price = metaPrice ? parseDecimalText(metaPrice) : offer.price;
+  const currency = (metaPrice ? metaCurrency : offer.currency) ?? "BRL";
+  const priceText =
+    price !== null && price > 0 && currency.toUpperCase() === "BRL"
+      ? formatPrice(price)
+      : null;
+
+  const aggregate = product?.aggregateRating as JsonRecord | undefined;
+  const ratingValue = toNumber(aggregate?.ratingValue);
+  const bestRating = toNumber(aggregate?.bestRating) ?? 5;
+  const rating =
+    ratingValue !== null && ratingValue > 0 && bestRating > 0
+      ? Math.round((ratingValue / bestRating) * 50) / 10
+      : null;
+  const ratingCount = toNumber(aggregate?.ratingCount ?? aggregate?.reviewCount);
+
+  return {
+    title,
+    description,
+    images,
+    priceText,
+    rating,
+    ratingCount:
+      rating !== null && ratingCount !== null ? Math.round(ratingCount) : null,
+  };
+}
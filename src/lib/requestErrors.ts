@@ -0,0 +1,17 @@
+type RequestErrorMessages = {
+  // Completes "Entre novamente para ..." and "Seu papel não permite ...".
+  action: string;
+  fallback: string;
+  byStatus?: Record<number, string>;
+};
+
+// Message for a failed admin API call, from the status the helpers report.
+export function getRequestErrorMessage(
+  status: number | null,
+  { action, fallback, byStatus }: RequestErrorMessages
+) {
+  if (status !== null && byStatus?.[status]) return byStatus[status];
+  if (status === 401) return `Sessão expirada. Entre novamente para ${action}.`;
+  if (status === 403) return `Seu papel não permite ${action}.`;
+  return fallback;
+}
@@ -0,0 +1,59 @@
+export type Schedulable = {
+  is_active: boolean;
+  publish_at?: string | null;
+  expire_at?: string | null;
+};
+
+export type ScheduleStatus = "live" | "scheduled" | "expired" | "inactive";
+
+type OrFilterable<T> = {
+  or: (filters: string) => T;
+};
+
+// Mirrors public.is_published(): no publish_at/expire_at means no limit.
+export function onlyPublished<T extends OrFilterable<T>>(
+  query: T,
+  now = new Date()
+) {
+  const timestamp = now.toISOString();
+  return query
+    .or(`publish_at.is.null,publish_at.lte.${timestamp}`)
+    .or(`expire_at.is.null,expire_at.gt.${timestamp}`);
+}
+
+export function getScheduleStatus(
+  row: Schedulable,
+  now = new Date()
+): ScheduleStatus {
+  if (!row.is_active) return "inactive";
+  if (row.publish_at && new Date(row.publish_at) > now) return "scheduled";
+  if (row.expire_at && new Date(row.expire_at) <= now) return "expired";
+  return "live";
+}
+
+export function isPublished(row: Schedulable, now = new Date()) {
+  return getScheduleStatus(row, now) === "live";
+}
+
+export function isValidSchedule(
+  publishAt?: string | null,
+  expireAt?: string | null
+) {
+  if (!publishAt || !expireAt) return true;
+  return new Date(expireAt) > new Date(publishAt);
+}
+
+// <input type="datetime-local"> works in local time without a timezone.
+export function toDateTimeInput(value?: string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function fromDateTimeInput(value: string) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,153 @@
+import { detectSource } from "@/lib/marketplaces";
+
+const RESOLVE_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+const RESOLVE_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+
+export const MAX_PASTED_LINKS = 200;
+
+export type ShopeeItemRef = {
+  shopId: string;
+  itemId: string;
+};
+
+export type ResolvedShopeeLink = ShopeeItemRef & {
+  originUrl: string;
+  // Short links are generated by the affiliate tools, so they are kept as the
+  // outbound link; a plain product URL carries no tracking.
+  affiliateUrl: string | null;
+  slugTitle: string | null;
+};
+
+// Pasted text often comes from the app's share sheet ("Confira ... https://..."),
+// so every http(s) token is picked up and trailing punctuation dropped.
+export function extractShopeeUrls(text: string) {
+  const found = (text.match(/https?:\/\/[^\s<>"']+/gi) ?? []).map((url) =>
+    url.replace(/[).,;!?]+$/, "")
+  );
+  const unique = Array.from(new Set(found));
+  const urls = unique.filter((url) => detectSource(url) === "shopee");
+  return { urls, ignored: unique.length - urls.length };
+}
+
+export function isShopeeShortLink(url: string) {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname === "shope.ee" || hostname === "s.shopee.com.br";
+  } catch {
+    return false;
+  }
+}
+
+// Understands the three shapes the site uses:
+//   /Nome-do-produto-i.<shop>.<item>
+//   /product/<shop>/<item>
+//   ?shopid=<shop>&itemid=<item> (also nested in redirect parameters)
+export function parseShopeeProductUrl(value: string): ShopeeItemRef | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (detectSource(url.toString()) !== "shopee") return null;
+
+  const path = url.pathname;
+  const slugMatch = path.match(/-i\.(\d+)\.(\d+)(?:$|[/?])/);
+  if (slugMatch) return { shopId: slugMatch[1], itemId: slugMatch[2] };
+
+  const productMatch = path.match(/\/product\/(\d+)\/(\d+)/);
+  if (productMatch) return { shopId: productMatch[1], itemId: productMatch[2] };
+
+  const shopId =
+    url.searchParams.get("shopid") ?? url.searchParams.get("shopId");
+  const itemId =
+    url.searchParams.get("itemid") ?? url.searchParams.get("itemId");
+  if (shopId && itemId && /^\d+$/.test(shopId) && /^\d+$/.test(itemId)) {
+    return { shopId, itemId };
+  }
+
+  for (const nested of url.searchParams.values()) {
+    if (!/^https?:/i.test(nested)) continue;
+    const ref = parseShopeeProductUrl(nested);
+    if (ref) return ref;
+  }
+  return null;
+}
+
+export function buildShopeeProductUrl(ref: ShopeeItemRef) {
+  return `https://shopee.com.br/product/${ref.shopId}/${ref.itemId}`;
+}
+
+// "/Fone-Bluetooth-TWS-i.123.456" -> "Fone Bluetooth TWS". Only a fallback
+// for pages that hide their title from server-side requests.
+export function getShopeeSlugTitle(value: string) {
+  try {
+    const path = decodeURIComponent(new URL(value).pathname);
+    const match = path.match(/^\/(.+)-i\.\d+\.\d+/);
+    if (!match) return null;
+    const title = match[1].replace(/[-_]+/g, " ").replace(/\s+/g, " ").trim();
+    return title || null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchRedirect(url: string) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), RESOLVE_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      redirect: "manual",
+      signal: controller.signal,
+      headers: { "user-agent": RESOLVE_USER_AGENT },
+    });
+    void response.body?.cancel();
+    const location = response.headers.get("location");
+    return location ? new URL(location, url).toString() : null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Follows short-link redirects hop by hop until a URL with shop and item ids
+// shows up, without loading the (heavy) product page itself.
+export async function resolveShopeeLink(
+  pastedUrl: string
+): Promise<{ link: ResolvedShopeeLink | null; error: string | null }> {
+  let current = pastedUrl;
+  let slugTitle = getShopeeSlugTitle(current);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const ref = parseShopeeProductUrl(current);
+    if (ref) {
+      return {
+        link: {
+          ...ref,
+          originUrl: buildShopeeProductUrl(ref),
+          affiliateUrl: isShopeeShortLink(pastedUrl) ? pastedUrl : null,
+          slugTitle,
+        },
+        error: null,
+      };
+    }
+    if (hop === MAX_REDIRECTS) break;
+
+    let next: string | null;
+    try {
+      next = await fetchRedirect(current);
+    } catch (fetchError) {
+      const aborted =
+        fetchError instanceof Error && fetchError.name === "AbortError";
+      return { link: null, error: aborted ? "timeout" : "fetch_failed" };
+    }
+    if (!next) break;
+    current = next;
+    slugTitle = slugTitle ?? getShopeeSlugTitle(current);
+  }
+
+  return { link: null, error: "product_not_found_in_link" };
+}
@@ -0,0 +1,19 @@
+import type { ShortLinkTarget } from "@/lib/types";
+
+export const SHORT_LINK_TARGETS: { value: ShortLinkTarget; label: string }[] = [
+  { value: "product", label: "Produto" },
+  { value: "collection", label: "Lista" },
+  { value: "banner", label: "Banner" },
+];
+
+const CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export function generateShortCode(length = 6) {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(values, (value) => CODE_ALPHABET[value % CODE_ALPHABET.length]).join("");
+}
+
+export function isValidShortCode(code: string) {
+  return /^[a-zA-Z0-9_-]{3,32}$/.test(code);
+}
@@ -2,16 +2,21 @@ export type Product = {
   id: string;
   slug: string;
   external_id: string | null;
+  source?: ProductSource;
   title: string;
   description_short: string | null;
   price_text: string | null;
+  price_cents?: number | null;
+  currency?: string;
   image_url: string | null;
   image_urls: string[] | null;
+  image_variants?: ProductImageVariants[] | null;
   origin_url: string;
   affiliate_url: string | null;
   tags: string[] | null;
   store_name: string | null;
   category: string | null;
+  category_id?: string | null;
   is_featured: boolean;
   is_exclusive: boolean;
   is_trending: boolean;
@@ -21,11 +26,83 @@ export type Product = {
   trending_rank: number | null;
   hot_rank: number | null;
   click_count: number | null;
+  sales?: number | null;
+  commission_rate?: number | null;
+  commission_value?: number | null;
+  previous_price?: number | null;
+  price_changed_at?: string | null;
+  lowest_price_30d?: number | null;
+  publish_at?: string | null;
+  expire_at?: string | null;
+  link_status?: LinkStatus | null;
+  link_http_status?: number | null;
+  link_error?: string | null;
+  link_checked_at?: string | null;
+  link_failure_streak?: number;
+  link_unpublished_at?: string | null;
+  rating?: number | null;
+  rating_count?: number | null;
+  enrichment?: ProductEnrichment | null;
+  enriched_at?: string | null;
+  category_suggestion?: string | null;
+  category_confidence?: number | null;
+  category_source?: CategorySource | null;
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
 };
 
+export type ProductSource =
+  | "shopee"
+  | "mercadolivre"
+  | "amazon"
+  | "aliexpress"
+  | "magalu"
+  | "other";
+
+export type ImageVariantName = "thumb" | "card" | "full";
+
+export type ImageVariant = {
+  url: string;
+  width: number;
+  height: number;
+};
+
+export type ProductImageVariants = Record<ImageVariantName, ImageVariant>;
+
+export type LinkStatus = "ok" | "broken" | "blocked";
+
+// Values the last enrichment run wrote, used to tell them apart from manual
+// edits on the next run.
+export type ProductEnrichment = {
+  title: string | null;
+  description_short: string | null;
+  price_text: string | null;
+  rating: number | null;
+  rating_count: number | null;
+  source_images: string[];
+  image_urls: string[];
+};
+
+export type CommissionSnapshot = {
+  id: string;
+  product_id: string;
+  price_text: string | null;
+  sales: number | null;
+  commission_rate: number | null;
+  commission_value: number | null;
+  recorded_at: string;
+};
+
+export type PriceHistoryEntry = {
+  id: string;
+  product_id: string;
+  price_text: string;
+  price: number | null;
+  source: string;
+  recorded_at: string;
+};
+
 export type CopyVariant = {
   variant: string;
   content: string;
@@ -36,6 +113,8 @@ export type Collection = {
   name: string;
   slug: string;
   description: string | null;
+  publish_at?: string | null;
+  expire_at?: string | null;
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
@@ -58,7 +137,165 @@ export type HomeBanner = {
   cta_url: string | null;
   theme: string | null;
   sort_order: number;
+  publish_at?: string | null;
+  expire_at?: string | null;
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
 };
+
+export type SearchSuggestions = {
+  products: Pick<Product, "id" | "slug" | "title" | "price_text" | "image_url">[];
+  categories: { name: string; slug: string }[];
+  collections: Pick<Collection, "id" | "name" | "slug">[];
+};
+
+export type Campaign = {
+  id: string;
+  name: string;
+  slug: string;
+  channel: string;
+  group_name: string | null;
+  campaign_date: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type ShortLinkTarget = "product" | "collection" | "banner";
+
+export type ShortLink = {
+  id: string;
+  code: string;
+  target_type: ShortLinkTarget;
+  product_id: string | null;
+  collection_id: string | null;
+  banner_id: string | null;
+  src: string | null;
+  camp: string | null;
+  click_count: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type AdminRole = "owner" | "editor" | "viewer";
+
+export type AuditAction = "insert" | "update" | "delete";
+
+export type AuditLogEntry = {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  table_name: string;
+  row_id: string | null;
+  action: AuditAction;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  changed_fields: string[];
+  created_at: string;
+};
+
+export type ImportError = {
+  line: number;
+  message: string;
+};
+
+export type ImportResult = {
+  imported: number;
+  updated: number;
+  ignored: number;
+  enriched: number;
+  errors: ImportError[];
+};
+
+export type Category = {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  icon: string | null;
+  description: string | null;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TagStat = {
+  tag: string;
+  slug: string;
+  products: number;
+  published: number;
+};
+
+export type CategoryKeyword = {
+  term: string;
+  weight: number;
+};
+
+export type CategoryRule = {
+  id: string;
+  category: string;
+  keywords: CategoryKeyword[];
+  negative_keywords: string[];
+  min_score: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CategorySuggestionMethod = "rules" | "model";
+
+// Who set the product's category: an editor, or the suggestion pipeline.
+export type CategorySource = "manual" | CategorySuggestionMethod;
+
+export type CategorySuggestion = {
+  category: string;
+  confidence: number;
+  method: CategorySuggestionMethod;
+};
+
+export type ImportJobKind = "csv_import" | "url_import" | "enrichment";
+
+export type ImportJobStatus = "queued" | "running" | "completed" | "failed";
+
+export type ImportJob = {
+  id: string;
+  kind: ImportJobKind;
+  status: ImportJobStatus;
+  // Importer id for file imports (see src/lib/importers).
+  importer: string | null;
+  file_name: string | null;
+  auto_enrich: boolean;
+  total_rows: number;
+  processed_rows: number;
+  imported: number;
+  updated: number;
+  ignored: number;
+  enriched: number;
+  error_count: number;
+  attempts: number;
+  last_error: string | null;
+  locked_until: string | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+export type ImportJobRowStatus = "pending" | "done" | "failed";
+
+export type ImportJobRow<TPayload = Record<string, unknown> | null> = {
+  id: string;
+  job_id: string;
+  line: number;
+  payload: TPayload;
+  status: ImportJobRowStatus;
+  attempts: number;
+  error: string | null;
+  outcome: "imported" | "updated" | "ignored" | null;
+  enriched: boolean;
+  product_id: string | null;
+  processed_at: string | null;
+};
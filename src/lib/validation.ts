@@ -6,3 +6,10 @@ export function isValidUrl(value: string) {
     return false;
   }
 }
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string) {
+  return UUID_PATTERN.test(value);
+}
@@ -0,0 +1,164 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import {
+  createCsvImportJob,
+  createEnrichmentJob,
+  createUrlImportJob,
+} from "@/lib/importJobs";
+import { DEFAULT_IMPORTER_ID, getImporter } from "@/lib/importers";
+import { MAX_PASTED_LINKS } from "@/lib/shopeeLinks";
+import { isUuid, isValidUrl } from "@/lib/validation";
+import type { ImportSelection } from "@/lib/importers/preview";
+
+const MAX_ENRICH_PRODUCTS = 500;
+
+function parseSelection(value: unknown) {
+  if (value === undefined) return { selection: undefined, valid: true };
+  if (!Array.isArray(value)) return { selection: undefined, valid: false };
+
+  const selection: ImportSelection[] = [];
+  for (const item of value) {
+    const { line, category } = (item ?? {}) as {
+      line?: unknown;
+      category?: unknown;
+    };
+    if (!Number.isInteger(line)) return { selection: undefined, valid: false };
+    if (
+      category !== undefined &&
+      category !== null &&
+      typeof category !== "string"
+    ) {
+      return { selection: undefined, valid: false };
+    }
+    selection.push({
+      line: line as number,
+      ...(category !== undefined ? { category } : {}),
+    });
+  }
+  return { selection, valid: true };
+}
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "5mb",
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const {
+    kind,
+    importer,
+    content,
+    fileName,
+    autoEnrich,
+    productIds,
+    urls,
+    selection,
+  } = req.body as {
+    kind?: string;
+    importer?: unknown;
+    content?: unknown;
+    fileName?: unknown;
+    autoEnrich?: unknown;
+    productIds?: unknown;
+    urls?: unknown;
+    selection?: unknown;
+  };
+
+  if (kind === "csv_import") {
+    const parsedSelection = parseSelection(selection);
+    if (
+      typeof content !== "string" ||
+      !content.trim() ||
+      !parsedSelection.valid
+    ) {
+      return res.status(400).json({ error: "invalid_payload" });
+    }
+
+    const importerId = importer === undefined ? DEFAULT_IMPORTER_ID : importer;
+    if (typeof importerId !== "string" || !getImporter(importerId)) {
+      return res.status(400).json({ error: "invalid_importer" });
+    }
+
+    const { job, error } = await createCsvImportJob(admin, {
+      importer: importerId,
+      content,
+      fileName: typeof fileName === "string" ? fileName : null,
+      autoEnrich: autoEnrich === true,
+      createdBy: caller.userId,
+      selection: parsedSelection.selection,
+    });
+    if (!job) {
+      return res.status(500).json({ error });
+    }
+    return res.status(201).json({ job });
+  }
+
+  if (kind === "url_import") {
+    const list = Array.isArray(urls)
+      ? Array.from(
+          new Set(
+            urls
+              .filter((url): url is string => typeof url === "string")
+              .map((url) => url.trim())
+          )
+        )
+      : [];
+    if (list.length === 0 || !list.every(isValidUrl)) {
+      return res.status(400).json({ error: "invalid_payload" });
+    }
+    if (list.length > MAX_PASTED_LINKS) {
+      return res.status(400).json({ error: "too_many_links" });
+    }
+
+    const { job, error } = await createUrlImportJob(admin, {
+      urls: list,
+      createdBy: caller.userId,
+    });
+    if (!job) {
+      return res.status(500).json({ error });
+    }
+    return res.status(201).json({ job });
+  }
+
+  if (kind === "enrichment") {
+    const ids = Array.isArray(productIds)
+      ? Array.from(new Set(productIds.filter((id) => typeof id === "string")))
+      : [];
+    if (ids.length === 0 || !ids.every(isUuid)) {
+      return res.status(400).json({ error: "invalid_payload" });
+    }
+    if (ids.length > MAX_ENRICH_PRODUCTS) {
+      return res.status(400).json({ error: "too_many_products" });
+    }
+
+    const { job, error } = await createEnrichmentJob(admin, {
+      productIds: ids,
+      createdBy: caller.userId,
+    });
+    if (!job) {
+      return res.status(500).json({ error });
+    }
+    return res.status(201).json({ job });
+  }
+
+  return res.status(400).json({ error: "invalid_kind" });
+}
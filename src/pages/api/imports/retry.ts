@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import { retryFailedRows } from "@/lib/importJobs";
+import { isUuid } from "@/lib/validation";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const { jobId } = req.body as { jobId?: unknown };
+  if (typeof jobId !== "string" || !isUuid(jobId)) {
+    return res.status(400).json({ error: "invalid_payload" });
+  }
+
+  const { data: current, error: currentError } = await admin
+    .from("import_jobs")
+    .select("status")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (currentError) {
+    return res.status(500).json({ error: currentError.message });
+  }
+  if (!current) {
+    return res.status(404).json({ error: "not_found" });
+  }
+  if (current.status !== "completed" && current.status !== "failed") {
+    return res.status(409).json({ error: "job_in_progress" });
+  }
+
+  const { job, error } = await retryFailedRows(admin, jobId);
+  if (!job) {
+    return res.status(500).json({ error });
+  }
+
+  return res.status(200).json({ job });
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isCronRequest, requireAdminRole } from "@/lib/adminAuth";
+import { processImportJob } from "@/lib/importJobs";
+import { isUuid } from "@/lib/validation";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  if (!isCronRequest(req)) {
+    const caller = await requireAdminRole(req, res, admin);
+    if (!caller) return;
+  }
+
+  const jobId = typeof req.query.jobId === "string" ? req.query.jobId : null;
+  if (jobId !== null && !isUuid(jobId)) {
+    return res.status(400).json({ error: "invalid_job_id" });
+  }
+
+  const { job, claimed, error } = await processImportJob(
+    admin,
+    jobId ?? undefined
+  );
+  if (error) {
+    return res.status(500).json({ error });
+  }
+  if (jobId && !job) {
+    return res.status(404).json({ error: "not_found" });
+  }
+
+  return res.status(200).json({ job, claimed });
+}
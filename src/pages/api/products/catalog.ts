@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createServerClient } from "@/lib/supabase/server";
+import {
+  decodeCursor,
+  fetchCatalogPage,
+  fetchCategoryFilter,
+  fetchTagFilter,
+} from "@/lib/catalog";
+
+function readParam(value: string | string[] | undefined) {
+  return typeof value === "string" ? value : "";
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const supabase = createServerClient();
+  if (!supabase) {
+    return res.status(500).json({ error: "missing_supabase_env" });
+  }
+
+  const query = readParam(req.query.q).trim();
+  const category = readParam(req.query.cat) || "all";
+  const tag = readParam(req.query.tag);
+  const price = readParam(req.query.price) || "all";
+  const sort = readParam(req.query.sort) || "recent";
+  const cursor = readParam(req.query.cursor);
+
+  if (!decodeCursor(cursor)) {
+    return res.status(400).json({ error: "invalid_cursor" });
+  }
+
+  const categoryIds =
+    category === "all"
+      ? null
+      : (await fetchCategoryFilter(supabase, category)).categoryIds;
+  const tags = tag ? (await fetchTagFilter(supabase, tag)).tags : null;
+
+  const { products, nextCursor, error } = await fetchCatalogPage(
+    supabase,
+    { query, categoryIds, tags, price, sort },
+    cursor
+  );
+
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  res.setHeader("Cache-Control", "public, s-maxage=60, stale-while-revalidate=60");
+  return res.status(200).json({ products, nextCursor });
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { isCronRequest, requireAdminRole } from "@/lib/adminAuth";
+import { runLinkHealthCheck } from "@/lib/linkHealth";
+
+const MAX_BATCH_SIZE = 100;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  if (!isCronRequest(req)) {
+    const caller = await requireAdminRole(req, res, admin);
+    if (!caller) return;
+  }
+
+  const limitParam = Number(req.query.limit);
+  const limit =
+    Number.isInteger(limitParam) && limitParam > 0
+      ? Math.min(limitParam, MAX_BATCH_SIZE)
+      : undefined;
+
+  const { results, error } = await runLinkHealthCheck(admin, { limit });
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  return res.status(200).json({
+    checked: results.length,
+    broken: results.filter((result) => result.status === "broken").length,
+    unpublished: results.filter((result) => result.unpublished).length,
+    republished: results.filter((result) => result.republished).length,
+    results,
+  });
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import { runProductEnrichment } from "@/lib/enrichment";
+import { isUuid } from "@/lib/validation";
+
+const MAX_BATCH_SIZE = 20;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const { productIds } = req.body as { productIds?: unknown };
+  const ids = Array.isArray(productIds)
+    ? Array.from(new Set(productIds.filter((id) => typeof id === "string")))
+    : [];
+
+  if (ids.length === 0 || !ids.every(isUuid)) {
+    return res.status(400).json({ error: "invalid_payload" });
+  }
+  if (ids.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ error: "too_many_products" });
+  }
+
+  const { results, error } = await runProductEnrichment(admin, ids);
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  return res.status(200).json({
+    updated: results.filter((result) => result.status === "updated").length,
+    unchanged: results.filter((result) => result.status === "unchanged").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    results,
+  });
+}
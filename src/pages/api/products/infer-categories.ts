@@ -0,0 +1,106 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import { loadCategoryRules } from "@/lib/categories";
+import {
+  getSuggestedCategoryFields,
+  loadCategoryModel,
+  suggestCategory,
+} from "@/lib/categoryClassifier";
+
+const PAGE_SIZE = 1000;
+// Keeps the id list inside PostgREST's URL length limit.
+const UPDATE_BATCH = 200;
+
+// Re-runs the rules and the classifier over every product still without a
+// category: confident suggestions are applied, weak ones refresh the review
+// queue. Products that get a category by hand meanwhile are left untouched.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const [{ rules, error: rulesError }, { model, error: modelError }] =
+    await Promise.all([loadCategoryRules(admin), loadCategoryModel(admin)]);
+  if (rulesError || modelError) {
+    return res.status(500).json({ error: rulesError ?? modelError });
+  }
+
+  // Products sharing the same resulting columns are updated together.
+  const groups = new Map<
+    string,
+    { fields: ReturnType<typeof getSuggestedCategoryFields>; ids: string[] }
+  >();
+  let checked = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("products")
+      .select("id, title, store_name")
+      .is("category", null)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      return res.status(500).json({ error: error.message });
+    }
+
+    for (const product of data ?? []) {
+      checked += 1;
+      const fields = getSuggestedCategoryFields(
+        suggestCategory(
+          product.title ?? "",
+          product.store_name ?? "",
+          rules,
+          model
+        )
+      );
+      const key = JSON.stringify(fields);
+      const group = groups.get(key) ?? { fields, ids: [] };
+      group.ids.push(product.id);
+      groups.set(key, group);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const categories: Record<string, number> = {};
+  let updated = 0;
+  let queued = 0;
+
+  for (const { fields, ids } of groups.values()) {
+    for (let index = 0; index < ids.length; index += UPDATE_BATCH) {
+      const { data, error } = await admin
+        .from("products")
+        .update(fields)
+        .in("id", ids.slice(index, index + UPDATE_BATCH))
+        .is("category", null)
+        .select("id");
+
+      if (error) {
+        return res.status(500).json({ error: error.message });
+      }
+      const count = data?.length ?? 0;
+      if (fields.category) {
+        categories[fields.category] =
+          (categories[fields.category] ?? 0) + count;
+        updated += count;
+      } else if (fields.category_suggestion) {
+        queued += count;
+      }
+    }
+  }
+
+  return res.status(200).json({ checked, updated, queued, categories });
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import { loadCategoryRules } from "@/lib/categories";
+import {
+  loadCategoryModel,
+  MAX_SUGGEST_ITEMS,
+  suggestCategory,
+} from "@/lib/categoryClassifier";
+
+type SuggestItem = { title?: unknown; store_name?: unknown };
+
+const toText = (value: unknown) => (typeof value === "string" ? value : "");
+
+// Suggests a category for each { title, store_name } sent, in order. Used by
+// the product form and the import preview, which cannot train the model in
+// the browser.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const items = (req.body as { items?: unknown } | undefined)?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "missing_items" });
+  }
+  if (items.length > MAX_SUGGEST_ITEMS) {
+    return res.status(400).json({ error: "too_many_items" });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) {
+    return res.status(500).json({ error: "missing_service_role" });
+  }
+
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const [{ rules, error: rulesError }, { model, error: modelError }] =
+    await Promise.all([loadCategoryRules(admin), loadCategoryModel(admin)]);
+  if (rulesError || modelError) {
+    return res.status(500).json({ error: rulesError ?? modelError });
+  }
+
+  const suggestions = (items as SuggestItem[]).map((item) =>
+    suggestCategory(
+      toText(item?.title),
+      toText(item?.store_name),
+      rules,
+      model
+    )
+  );
+
+  return res.status(200).json({ suggestions });
+}
@@ -1,5 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { requireAdminRole } from "@/lib/adminAuth";
+import {
+  buildImageBasePath,
+  isSupportedImage,
+  storeImageVariants,
+} from "@/lib/imageProcessing";
+import { isUuid } from "@/lib/validation";
 
 export const config = {
   api: {
@@ -9,8 +16,6 @@ export const config = {
   },
 };
 
-const BUCKET = "product-images";
-
 function parseDataUrl(dataUrl: string) {
   const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
   if (!match) return null;
@@ -30,44 +35,38 @@ export default async function handler(
     return res.status(500).json({ error: "missing_service_role" });
   }
 
-  const { dataUrl, fileName } = req.body as {
+  const caller = await requireAdminRole(req, res, admin);
+  if (!caller) return;
+
+  const { dataUrl, productId } = req.body as {
     dataUrl?: string;
-    fileName?: string;
+    productId?: string;
   };
 
-  if (!dataUrl || !fileName) {
+  if (!dataUrl || (productId && !isUuid(productId))) {
     return res.status(400).json({ error: "invalid_payload" });
   }
 
   const parsed = parseDataUrl(dataUrl);
-  if (!parsed) {
+  if (!parsed || !parsed.contentType.startsWith("image/")) {
     return res.status(400).json({ error: "invalid_data_url" });
   }
 
-  const { contentType, data } = parsed;
-  const extension = contentType.includes("png")
-    ? "png"
-    : contentType.includes("webp")
-      ? "webp"
-      : contentType.includes("gif")
-        ? "gif"
-        : "jpg";
-
-  const buffer = Buffer.from(data, "base64");
-  const safeName = fileName.replace(/[^a-zA-Z0-9_.-]/g, "_");
-  const filePath = `manual/${crypto.randomUUID()}-${safeName}.${extension}`;
+  const buffer = Buffer.from(parsed.data, "base64");
+  if (!(await isSupportedImage(buffer))) {
+    return res.status(400).json({ error: "unsupported_image" });
+  }
 
-  const { error: uploadError } = await admin.storage
-    .from(BUCKET)
-    .upload(filePath, buffer, { contentType, upsert: true });
+  const folder = productId ? `products/${productId}` : "manual";
+  const { variants, error: storeError } = await storeImageVariants(
+    admin,
+    buffer,
+    buildImageBasePath(folder)
+  );
 
-  if (uploadError) {
-    return res.status(500).json({ error: uploadError.message });
+  if (!variants) {
+    return res.status(500).json({ error: storeError });
   }
 
-  const { data: publicData } = admin.storage
-    .from(BUCKET)
-    .getPublicUrl(filePath);
-
-  return res.status(200).json({ url: publicData.publicUrl });
+  return res.status(200).json({ url: variants.full.url, variants });
 }
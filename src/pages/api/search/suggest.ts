@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createServerClient } from "@/lib/supabase/server";
+import { onlyPublished } from "@/lib/schedule";
+import { getSearchPattern } from "@/lib/catalog";
+import { slugify } from "@/lib/slugify";
+import type { SearchSuggestions } from "@/lib/types";
+
+const PRODUCT_LIMIT = 5;
+const CATEGORY_LIMIT = 3;
+const COLLECTION_LIMIT = 3;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "method_not_allowed" });
+  }
+
+  const supabase = createServerClient();
+  if (!supabase) {
+    return res.status(500).json({ error: "missing_supabase_env" });
+  }
+
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  const empty: SearchSuggestions = {
+    products: [],
+    categories: [],
+    collections: [],
+  };
+
+  if (query.length < 2) {
+    return res.status(200).json(empty);
+  }
+
+  // Slugs carry no accents, so "eletronicos" still finds "Eletrônicos".
+  const querySlug = slugify(query);
+  const pattern = getSearchPattern(query);
+
+  const [productsResult, categoriesResult, collectionsResult] =
+    await Promise.all([
+      supabase
+        .rpc("search_products", { search_query: query })
+        .select("id, slug, title, price_text, image_url")
+        .limit(PRODUCT_LIMIT),
+      querySlug
+        ? supabase
+            .from("categories")
+            .select("name, slug")
+            .eq("is_active", true)
+            .ilike("slug", `%${querySlug}%`)
+            .order("sort_order", { ascending: true })
+            .limit(CATEGORY_LIMIT)
+        : Promise.resolve({ data: [], error: null }),
+      pattern
+        ? onlyPublished(
+            supabase
+              .from("collections")
+              .select("id, name, slug")
+              .eq("is_active", true)
+              .ilike("name", `%${pattern}%`)
+          )
+            .order("name", { ascending: true })
+            .limit(COLLECTION_LIMIT)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+  if (productsResult.error) {
+    return res.status(500).json({ error: productsResult.error.message });
+  }
+
+  const payload: SearchSuggestions = {
+    products: (productsResult.data ?? []) as SearchSuggestions["products"],
+    categories: (categoriesResult.data ??
+      []) as SearchSuggestions["categories"],
+    collections: (collectionsResult.data ??
+      []) as SearchSuggestions["collections"],
+  };
+
+  res.setHeader("Cache-Control", "public, s-maxage=60, stale-while-revalidate=60");
+  return res.status(200).json(payload);
+}
@@ -0,0 +1,247 @@
+CREATE TABLE IF NOT EXISTS public.admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  email text,
+  role text NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.current_admin_role()
+RETURNS text AS $$
+  SELECT role FROM public.admin_users WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin_reader()
+RETURNS boolean AS $$
+  SELECT public.current_admin_role() IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.is_admin_editor()
+RETURNS boolean AS $$
+  SELECT coalesce(public.current_admin_role() IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.is_admin_owner()
+RETURNS boolean AS $$
+  SELECT coalesce(public.current_admin_role() = 'owner', false);
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.admin_users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin read own role" ON public.admin_users;
+CREATE POLICY "Admin read own role"
+ON public.admin_users FOR SELECT
+USING (user_id = auth.uid() OR public.is_admin_owner());
+
+DROP POLICY IF EXISTS "Owner insert admin users" ON public.admin_users;
+CREATE POLICY "Owner insert admin users"
+ON public.admin_users FOR INSERT
+WITH CHECK (public.is_admin_owner());
+
+DROP POLICY IF EXISTS "Owner update admin users" ON public.admin_users;
+CREATE POLICY "Owner update admin users"
+ON public.admin_users FOR UPDATE
+USING (public.is_admin_owner())
+WITH CHECK (public.is_admin_owner());
+
+DROP POLICY IF EXISTS "Owner delete admin users" ON public.admin_users;
+CREATE POLICY "Owner delete admin users"
+ON public.admin_users FOR DELETE
+USING (public.is_admin_owner());
+
+DROP POLICY IF EXISTS "Authenticated read products" ON public.products;
+DROP POLICY IF EXISTS "Admin read products" ON public.products;
+CREATE POLICY "Admin read products"
+ON public.products FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert products" ON public.products;
+DROP POLICY IF EXISTS "Admin insert products" ON public.products;
+CREATE POLICY "Admin insert products"
+ON public.products FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update products" ON public.products;
+DROP POLICY IF EXISTS "Admin update products" ON public.products;
+CREATE POLICY "Admin update products"
+ON public.products FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete products" ON public.products;
+DROP POLICY IF EXISTS "Admin delete products" ON public.products;
+CREATE POLICY "Admin delete products"
+ON public.products FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read home banners" ON public.home_banners;
+DROP POLICY IF EXISTS "Admin read home banners" ON public.home_banners;
+CREATE POLICY "Admin read home banners"
+ON public.home_banners FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert home banners" ON public.home_banners;
+DROP POLICY IF EXISTS "Admin insert home banners" ON public.home_banners;
+CREATE POLICY "Admin insert home banners"
+ON public.home_banners FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update home banners" ON public.home_banners;
+DROP POLICY IF EXISTS "Admin update home banners" ON public.home_banners;
+CREATE POLICY "Admin update home banners"
+ON public.home_banners FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete home banners" ON public.home_banners;
+DROP POLICY IF EXISTS "Admin delete home banners" ON public.home_banners;
+CREATE POLICY "Admin delete home banners"
+ON public.home_banners FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read collections" ON public.collections;
+DROP POLICY IF EXISTS "Admin read collections" ON public.collections;
+CREATE POLICY "Admin read collections"
+ON public.collections FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert collections" ON public.collections;
+DROP POLICY IF EXISTS "Admin insert collections" ON public.collections;
+CREATE POLICY "Admin insert collections"
+ON public.collections FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update collections" ON public.collections;
+DROP POLICY IF EXISTS "Admin update collections" ON public.collections;
+CREATE POLICY "Admin update collections"
+ON public.collections FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete collections" ON public.collections;
+DROP POLICY IF EXISTS "Admin delete collections" ON public.collections;
+CREATE POLICY "Admin delete collections"
+ON public.collections FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read collection items" ON public.collection_items;
+DROP POLICY IF EXISTS "Admin read collection items" ON public.collection_items;
+CREATE POLICY "Admin read collection items"
+ON public.collection_items FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert collection items" ON public.collection_items;
+DROP POLICY IF EXISTS "Admin insert collection items" ON public.collection_items;
+CREATE POLICY "Admin insert collection items"
+ON public.collection_items FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update collection items" ON public.collection_items;
+DROP POLICY IF EXISTS "Admin update collection items" ON public.collection_items;
+CREATE POLICY "Admin update collection items"
+ON public.collection_items FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete collection items" ON public.collection_items;
+DROP POLICY IF EXISTS "Admin delete collection items" ON public.collection_items;
+CREATE POLICY "Admin delete collection items"
+ON public.collection_items FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read copies" ON public.product_copies;
+DROP POLICY IF EXISTS "Admin read copies" ON public.product_copies;
+CREATE POLICY "Admin read copies"
+ON public.product_copies FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert copies" ON public.product_copies;
+DROP POLICY IF EXISTS "Admin insert copies" ON public.product_copies;
+CREATE POLICY "Admin insert copies"
+ON public.product_copies FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete copies" ON public.product_copies;
+DROP POLICY IF EXISTS "Admin delete copies" ON public.product_copies;
+CREATE POLICY "Admin delete copies"
+ON public.product_copies FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read clicks" ON public.outbound_clicks;
+DROP POLICY IF EXISTS "Admin read clicks" ON public.outbound_clicks;
+CREATE POLICY "Admin read clicks"
+ON public.outbound_clicks FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated read commission history" ON public.product_commission_history;
+DROP POLICY IF EXISTS "Admin read commission history" ON public.product_commission_history;
+CREATE POLICY "Admin read commission history"
+ON public.product_commission_history FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert commission history" ON public.product_commission_history;
+DROP POLICY IF EXISTS "Admin insert commission history" ON public.product_commission_history;
+CREATE POLICY "Admin insert commission history"
+ON public.product_commission_history FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read price history" ON public.price_history;
+DROP POLICY IF EXISTS "Admin read price history" ON public.price_history;
+CREATE POLICY "Admin read price history"
+ON public.price_history FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert price history" ON public.price_history;
+DROP POLICY IF EXISTS "Admin insert price history" ON public.price_history;
+CREATE POLICY "Admin insert price history"
+ON public.price_history FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Admin read campaigns" ON public.campaigns;
+CREATE POLICY "Admin read campaigns"
+ON public.campaigns FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Admin insert campaigns" ON public.campaigns;
+CREATE POLICY "Admin insert campaigns"
+ON public.campaigns FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Admin update campaigns" ON public.campaigns;
+CREATE POLICY "Admin update campaigns"
+ON public.campaigns FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Admin delete campaigns" ON public.campaigns;
+CREATE POLICY "Admin delete campaigns"
+ON public.campaigns FOR DELETE
+USING (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated read short links" ON public.short_links;
+DROP POLICY IF EXISTS "Admin read short links" ON public.short_links;
+CREATE POLICY "Admin read short links"
+ON public.short_links FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Authenticated insert short links" ON public.short_links;
+DROP POLICY IF EXISTS "Admin insert short links" ON public.short_links;
+CREATE POLICY "Admin insert short links"
+ON public.short_links FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated update short links" ON public.short_links;
+DROP POLICY IF EXISTS "Admin update short links" ON public.short_links;
+CREATE POLICY "Admin update short links"
+ON public.short_links FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Authenticated delete short links" ON public.short_links;
+DROP POLICY IF EXISTS "Admin delete short links" ON public.short_links;
+CREATE POLICY "Admin delete short links"
+ON public.short_links FOR DELETE
+USING (public.is_admin_editor());
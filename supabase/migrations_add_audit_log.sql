@@ -0,0 +1,112 @@
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  actor_email text,
+  table_name text NOT NULL,
+  row_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  before_data jsonb,
+  after_data jsonb,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx
+  ON public.audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_log_row_idx
+  ON public.audit_log (table_name, row_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx
+  ON public.audit_log (actor_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS trigger AS $$
+DECLARE
+  before_row jsonb;
+  after_row jsonb;
+  changed text[] := '{}';
+  actor uuid := auth.uid();
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    before_row = to_jsonb(OLD) - 'search_vector';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    after_row = to_jsonb(NEW) - 'search_vector';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(a.key ORDER BY a.key), '{}')
+    INTO changed
+    FROM jsonb_each(after_row) a
+    WHERE a.value IS DISTINCT FROM before_row -> a.key
+      AND a.key NOT IN (
+        'updated_at',
+        'click_count',
+        'price_cents',
+        'previous_price',
+        'price_changed_at',
+        'lowest_price_30d'
+      );
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    actor_id,
+    actor_email,
+    table_name,
+    row_id,
+    action,
+    before_data,
+    after_data,
+    changed_fields
+  )
+  VALUES (
+    actor,
+    (SELECT u.email FROM auth.users u WHERE u.id = actor),
+    TG_TABLE_NAME,
+    (coalesce(after_row, before_row) ->> 'id')::uuid,
+    lower(TG_OP),
+    before_row,
+    after_row,
+    changed
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_products ON public.products;
+CREATE TRIGGER audit_products
+AFTER INSERT OR UPDATE OR DELETE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_collections ON public.collections;
+CREATE TRIGGER audit_collections
+AFTER INSERT OR UPDATE OR DELETE ON public.collections
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_collection_items ON public.collection_items;
+CREATE TRIGGER audit_collection_items
+AFTER INSERT OR UPDATE OR DELETE ON public.collection_items
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_home_banners ON public.home_banners;
+CREATE TRIGGER audit_home_banners
+AFTER INSERT OR UPDATE OR DELETE ON public.home_banners
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_product_copies ON public.product_copies;
+CREATE TRIGGER audit_product_copies
+AFTER INSERT OR UPDATE OR DELETE ON public.product_copies
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin read audit log" ON public.audit_log;
+CREATE POLICY "Admin read audit log"
+ON public.audit_log FOR SELECT
+USING (public.is_admin_reader());
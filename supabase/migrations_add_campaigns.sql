@@ -0,0 +1,72 @@
+CREATE TABLE IF NOT EXISTS public.campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  slug text UNIQUE NOT NULL,
+  channel text NOT NULL DEFAULT 'whatsapp',
+  group_name text,
+  campaign_date date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS campaigns_campaign_date_idx
+  ON public.campaigns (campaign_date);
+
+ALTER TABLE public.outbound_clicks
+ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES public.campaigns (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS outbound_clicks_campaign_id_idx
+  ON public.outbound_clicks (campaign_id);
+
+DROP TRIGGER IF EXISTS set_campaigns_updated_at ON public.campaigns;
+CREATE TRIGGER set_campaigns_updated_at
+BEFORE UPDATE ON public.campaigns
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE OR REPLACE FUNCTION public.set_click_campaign()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.campaign_id IS NULL AND NEW.camp IS NOT NULL THEN
+    SELECT c.id
+    INTO NEW.campaign_id
+    FROM public.campaigns c
+    WHERE c.slug = NEW.camp;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_click_campaign ON public.outbound_clicks;
+CREATE TRIGGER set_click_campaign
+BEFORE INSERT ON public.outbound_clicks
+FOR EACH ROW EXECUTE FUNCTION public.set_click_campaign();
+
+UPDATE public.outbound_clicks oc
+SET campaign_id = c.id
+FROM public.campaigns c
+WHERE oc.campaign_id IS NULL
+  AND oc.camp = c.slug;
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read campaigns" ON public.campaigns;
+CREATE POLICY "Authenticated read campaigns"
+ON public.campaigns FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated insert campaigns" ON public.campaigns;
+CREATE POLICY "Authenticated insert campaigns"
+ON public.campaigns FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated update campaigns" ON public.campaigns;
+CREATE POLICY "Authenticated update campaigns"
+ON public.campaigns FOR UPDATE
+USING (auth.role() = 'authenticated')
+WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated delete campaigns" ON public.campaigns;
+CREATE POLICY "Authenticated delete campaigns"
+ON public.campaigns FOR DELETE
+USING (auth.role() = 'authenticated');
@@ -0,0 +1,213 @@
+CREATE TABLE IF NOT EXISTS public.categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  slug text UNIQUE NOT NULL,
+  parent_id uuid REFERENCES public.categories (id) ON DELETE SET NULL,
+  icon text,
+  description text,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS categories_parent_id_idx ON public.categories (parent_id, sort_order);
+
+INSERT INTO public.categories (name, slug, sort_order)
+VALUES
+  ('Tech', 'tech', 10),
+  ('Casa e decoração', 'casa-e-decoracao', 20),
+  ('Pet', 'pet', 30),
+  ('Automóveis', 'automoveis', 40),
+  ('Beleza e saúde', 'beleza-e-saude', 50),
+  ('Eletrônicos', 'eletronicos', 60),
+  ('Eletrodomésticos', 'eletrodomesticos', 70),
+  ('Bijoux', 'bijoux', 80),
+  ('Fitness', 'fitness', 90),
+  ('Moda Masculina', 'moda-masculina', 100),
+  ('Moda Feminina', 'moda-feminina', 110),
+  ('Moda Infantil', 'moda-infantil', 120),
+  ('Bebe e Maternidade', 'bebe-e-maternidade', 130),
+  ('Brinquedos', 'brinquedos', 140),
+  ('Cama, mesa e banho', 'cama-mesa-e-banho', 150),
+  ('Games', 'games', 160),
+  ('Produtos de Limpeza', 'produtos-de-limpeza', 170),
+  ('Alimentos', 'alimentos', 180)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.categories (name, slug, sort_order)
+SELECT DISTINCT ON (source.slug) source.name, source.slug, 1000
+FROM (
+  SELECT
+    trim(p.category) AS name,
+    trim(BOTH '-' FROM regexp_replace(public.normalize_search_text(p.category), '[^a-z0-9]+', '-', 'g')) AS slug
+  FROM public.products p
+  WHERE p.category IS NOT NULL AND trim(p.category) <> ''
+) source
+WHERE source.slug <> ''
+ORDER BY source.slug, source.name
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES public.categories (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS products_category_id_idx ON public.products (category_id);
+
+UPDATE public.products p
+SET category_id = c.id, category = c.name
+FROM public.categories c
+WHERE p.category_id IS NULL
+  AND c.slug = trim(BOTH '-' FROM regexp_replace(public.normalize_search_text(p.category), '[^a-z0-9]+', '-', 'g'));
+
+CREATE OR REPLACE FUNCTION public.assign_product_category()
+RETURNS trigger AS $$
+DECLARE
+  matched public.categories%ROWTYPE;
+BEGIN
+  IF NEW.category_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.category_id IS DISTINCT FROM OLD.category_id) THEN
+    SELECT c.name INTO NEW.category
+    FROM public.categories c
+    WHERE c.id = NEW.category_id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    NEW.category = NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.category IS DISTINCT FROM OLD.category THEN
+    SELECT c.* INTO matched
+    FROM public.categories c
+    WHERE lower(c.name) = lower(trim(NEW.category))
+      OR c.slug = trim(BOTH '-' FROM regexp_replace(public.normalize_search_text(NEW.category), '[^a-z0-9]+', '-', 'g'))
+    ORDER BY lower(c.name) = lower(trim(NEW.category)) DESC
+    LIMIT 1;
+    IF FOUND THEN
+      NEW.category_id = matched.id;
+      NEW.category = matched.name;
+    ELSE
+      NEW.category_id = NULL;
+      NEW.category = NULLIF(trim(NEW.category), '');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_products_category ON public.products;
+CREATE TRIGGER assign_products_category
+BEFORE INSERT OR UPDATE OF category, category_id ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.assign_product_category();
+
+CREATE OR REPLACE FUNCTION public.category_product_counts(
+  min_price_cents integer DEFAULT NULL,
+  max_price_cents integer DEFAULT NULL
+)
+RETURNS TABLE (category_id uuid, products bigint) AS $$
+  SELECT p.category_id, count(*) AS products
+  FROM public.products p
+  WHERE p.category_id IS NOT NULL
+    AND public.is_published(p.is_active, p.publish_at, p.expire_at)
+    AND (min_price_cents IS NULL OR p.price_cents >= min_price_cents)
+    AND (max_price_cents IS NULL OR p.price_cents <= max_price_cents)
+  GROUP BY p.category_id;
+$$ LANGUAGE sql STABLE;
+
+DROP TRIGGER IF EXISTS clear_products_category_suggestion ON public.products;
+CREATE TRIGGER clear_products_category_suggestion
+BEFORE INSERT OR UPDATE OF category, category_id ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.clear_product_category_suggestion();
+
+DROP TRIGGER IF EXISTS set_products_search_vector ON public.products;
+CREATE TRIGGER set_products_search_vector
+BEFORE INSERT OR UPDATE OF title, description_short, tags, category, category_id, store_name
+ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.set_product_search_vector();
+
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      WHERE c.id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'category_cycle';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_categories_parent ON public.categories;
+CREATE TRIGGER check_categories_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.check_category_parent();
+
+CREATE OR REPLACE FUNCTION public.propagate_category_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.category_rules WHERE category = OLD.name;
+    UPDATE public.products
+    SET category_suggestion = NULL, category_confidence = NULL
+    WHERE category_suggestion = OLD.name;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.products SET category = NEW.name WHERE category_id = NEW.id;
+    UPDATE public.category_rules SET category = NEW.name WHERE category = OLD.name;
+    UPDATE public.products
+    SET category_suggestion = NEW.name
+    WHERE category_suggestion = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS propagate_categories_changes ON public.categories;
+CREATE TRIGGER propagate_categories_changes
+AFTER UPDATE OF name OR DELETE ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.propagate_category_changes();
+
+DROP TRIGGER IF EXISTS set_categories_updated_at ON public.categories;
+CREATE TRIGGER set_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS audit_categories ON public.categories;
+CREATE TRIGGER audit_categories
+AFTER INSERT OR UPDATE OR DELETE ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.write_audit_log();
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read active categories" ON public.categories;
+CREATE POLICY "Public read active categories"
+ON public.categories FOR SELECT
+USING (is_active);
+
+DROP POLICY IF EXISTS "Admin read categories" ON public.categories;
+CREATE POLICY "Admin read categories"
+ON public.categories FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Admin insert categories" ON public.categories;
+CREATE POLICY "Admin insert categories"
+ON public.categories FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Admin update categories" ON public.categories;
+CREATE POLICY "Admin update categories"
+ON public.categories FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Admin delete categories" ON public.categories;
+CREATE POLICY "Admin delete categories"
+ON public.categories FOR DELETE
+USING (public.is_admin_editor());
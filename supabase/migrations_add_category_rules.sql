@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS public.category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category text UNIQUE NOT NULL,
+  keywords jsonb NOT NULL DEFAULT '[]'::jsonb,
+  negative_keywords text[] NOT NULL DEFAULT '{}',
+  min_score numeric(4, 1) NOT NULL DEFAULT 1,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.category_rules (category, keywords, negative_keywords)
+VALUES
+  ('Tech', '[{"term": "tech", "weight": 1}, {"term": "gadget", "weight": 1}, {"term": "smart", "weight": 0.5}, {"term": "bluetooth", "weight": 1}, {"term": "wireless", "weight": 1}, {"term": "usb", "weight": 1}, {"term": "cabo", "weight": 1}, {"term": "carregador", "weight": 1}, {"term": "powerbank", "weight": 1}, {"term": "hub", "weight": 1}, {"term": "suporte", "weight": 0.5}, {"term": "mouse", "weight": 1}, {"term": "teclado", "weight": 1}]'::jsonb, '{}'),
+  ('Eletrônicos', '[{"term": "fone", "weight": 2}, {"term": "headset", "weight": 1}, {"term": "tv", "weight": 1}, {"term": "monitor", "weight": 1}, {"term": "camera", "weight": 1}, {"term": "celular", "weight": 1}, {"term": "smartphone", "weight": 2}, {"term": "tablet", "weight": 1}, {"term": "notebook", "weight": 2}, {"term": "laptop", "weight": 1}, {"term": "relogio", "weight": 1}, {"term": "smartwatch", "weight": 2}, {"term": "caixa de som", "weight": 1}, {"term": "soundbar", "weight": 1}]'::jsonb, '{}'),
+  ('Eletrodomésticos', '[{"term": "airfryer", "weight": 2}, {"term": "air fryer", "weight": 2}, {"term": "liquidificador", "weight": 1}, {"term": "cafeteira", "weight": 1}, {"term": "microondas", "weight": 1}, {"term": "geladeira", "weight": 1}, {"term": "fogao", "weight": 1}, {"term": "forno", "weight": 1}, {"term": "lavadora", "weight": 1}, {"term": "aspirador", "weight": 1}, {"term": "ventilador", "weight": 1}, {"term": "batedeira", "weight": 1}]'::jsonb, '{}'),
+  ('Bijoux', '[{"term": "biju", "weight": 1}, {"term": "bijoux", "weight": 1}, {"term": "bijuteria", "weight": 1}, {"term": "colar", "weight": 1}, {"term": "brinco", "weight": 1}, {"term": "anel", "weight": 1}, {"term": "pulseira", "weight": 1}, {"term": "choker", "weight": 1}, {"term": "pingente", "weight": 1}, {"term": "semijoia", "weight": 1}, {"term": "semi joia", "weight": 1}]'::jsonb, '{}'),
+  ('Fitness', '[{"term": "fitness", "weight": 1}, {"term": "treino", "weight": 1}, {"term": "academia", "weight": 1}, {"term": "exercicio", "weight": 1}, {"term": "yoga", "weight": 1}, {"term": "pilates", "weight": 1}, {"term": "halter", "weight": 1}, {"term": "peso", "weight": 1}, {"term": "elastico", "weight": 1}, {"term": "resistencia", "weight": 1}, {"term": "esteira", "weight": 1}, {"term": "bicicleta", "weight": 1}, {"term": "ergometrica", "weight": 1}, {"term": "colchonete", "weight": 1}, {"term": "tapete yoga", "weight": 1}]'::jsonb, '{}'),
+  ('Cama, mesa e banho', '[{"term": "cama", "weight": 1}, {"term": "mesa", "weight": 0.5}, {"term": "banho", "weight": 1}, {"term": "banheiro", "weight": 1}, {"term": "lencol", "weight": 1}, {"term": "toalha", "weight": 1}, {"term": "edredom", "weight": 1}, {"term": "cobertor", "weight": 1}, {"term": "fronha", "weight": 1}, {"term": "travesseiro", "weight": 1}, {"term": "jogo de cama", "weight": 1}, {"term": "jogo de toalha", "weight": 1}]'::jsonb, '{}'),
+  ('Moda Masculina', '[{"term": "masculino", "weight": 1}, {"term": "homem", "weight": 1}, {"term": "camisa", "weight": 1}, {"term": "camiseta", "weight": 1}, {"term": "bermuda", "weight": 1}, {"term": "calca", "weight": 1}, {"term": "jeans", "weight": 1}, {"term": "tenis", "weight": 1}, {"term": "sapato", "weight": 1}, {"term": "cueca", "weight": 1}]'::jsonb, '{feminino,infantil}'),
+  ('Moda Feminina', '[{"term": "feminino", "weight": 1}, {"term": "mulher", "weight": 1}, {"term": "vestido", "weight": 1}, {"term": "saia", "weight": 1}, {"term": "blusa", "weight": 1}, {"term": "salto", "weight": 1}, {"term": "bolsa", "weight": 1}, {"term": "lingerie", "weight": 1}, {"term": "biquini", "weight": 1}]'::jsonb, '{masculino,infantil}'),
+  ('Moda Infantil', '[{"term": "infantil", "weight": 1}, {"term": "crianca", "weight": 1}, {"term": "menino", "weight": 1}, {"term": "menina", "weight": 1}, {"term": "kids", "weight": 1}, {"term": "escolar", "weight": 1}]'::jsonb, '{}'),
+  ('Bebe e Maternidade', '[{"term": "bebe", "weight": 1}, {"term": "maternidade", "weight": 1}, {"term": "gestante", "weight": 1}, {"term": "fralda", "weight": 1}, {"term": "mamadeira", "weight": 1}, {"term": "chupeta", "weight": 1}, {"term": "carrinho", "weight": 1}, {"term": "berco", "weight": 1}, {"term": "banheira", "weight": 1}]'::jsonb, '{}'),
+  ('Brinquedos', '[{"term": "brinquedo", "weight": 1}, {"term": "lego", "weight": 1}, {"term": "boneca", "weight": 1}, {"term": "carrinho", "weight": 1}, {"term": "jogo", "weight": 1}, {"term": "puzzle", "weight": 1}, {"term": "pelucia", "weight": 1}, {"term": "playset", "weight": 1}]'::jsonb, '{cachorro,gato,pet}'),
+  ('Casa e decoração', '[{"term": "decor*", "weight": 1}, {"term": "decoracao", "weight": 1}, {"term": "almofada", "weight": 1}, {"term": "tapete", "weight": 1}, {"term": "cortina", "weight": 1}, {"term": "luminaria", "weight": 1}, {"term": "vaso", "weight": 1}, {"term": "quadro", "weight": 1}, {"term": "organizador", "weight": 1}, {"term": "cozinha", "weight": 1}]'::jsonb, '{}'),
+  ('Pet', '[{"term": "pet", "weight": 1}, {"term": "cachorro", "weight": 1}, {"term": "cao", "weight": 1}, {"term": "gato", "weight": 1}, {"term": "areia", "weight": 1}, {"term": "racao", "weight": 2}, {"term": "coleira", "weight": 1}, {"term": "petisco", "weight": 1}]'::jsonb, '{}'),
+  ('Automóveis', '[{"term": "carro", "weight": 1}, {"term": "automotivo", "weight": 1}, {"term": "veiculo", "weight": 1}, {"term": "moto", "weight": 1}, {"term": "motocicleta", "weight": 1}, {"term": "pneu", "weight": 1}, {"term": "capacete", "weight": 1}, {"term": "farol", "weight": 1}]'::jsonb, '{}'),
+  ('Beleza e saúde', '[{"term": "beleza", "weight": 1}, {"term": "skin", "weight": 1}, {"term": "skincare", "weight": 1}, {"term": "maquiagem", "weight": 1}, {"term": "creme", "weight": 1}, {"term": "perfume", "weight": 1}, {"term": "shampoo", "weight": 1}, {"term": "vitamina", "weight": 1}, {"term": "saude", "weight": 1}, {"term": "barbeador", "weight": 1}, {"term": "secador", "weight": 1}, {"term": "chapinha", "weight": 1}]'::jsonb, '{}'),
+  ('Games', '[{"term": "game", "weight": 1}, {"term": "gamer", "weight": 1}, {"term": "ps5", "weight": 2}, {"term": "ps4", "weight": 1}, {"term": "xbox", "weight": 2}, {"term": "nintendo", "weight": 2}, {"term": "switch", "weight": 1}, {"term": "controle", "weight": 1}, {"term": "joystick", "weight": 1}]'::jsonb, '{}'),
+  ('Produtos de Limpeza', '[{"term": "limpeza", "weight": 1}, {"term": "detergente", "weight": 1}, {"term": "desinfetante", "weight": 1}, {"term": "sabao", "weight": 1}, {"term": "amaciante", "weight": 1}, {"term": "alvejante", "weight": 1}, {"term": "multiuso", "weight": 1}]'::jsonb, '{}'),
+  ('Alimentos', '[{"term": "alimento", "weight": 1}, {"term": "chocolate", "weight": 1}, {"term": "cafe", "weight": 1}, {"term": "cha", "weight": 1}, {"term": "snack", "weight": 1}, {"term": "biscoito", "weight": 1}, {"term": "tempero", "weight": 1}, {"term": "suco", "weight": 1}]'::jsonb, '{cafeteira}')
+ON CONFLICT (category) DO NOTHING;
+
+DROP TRIGGER IF EXISTS set_category_rules_updated_at ON public.category_rules;
+CREATE TRIGGER set_category_rules_updated_at
+BEFORE UPDATE ON public.category_rules
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin read category rules" ON public.category_rules;
+CREATE POLICY "Admin read category rules"
+ON public.category_rules FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Admin insert category rules" ON public.category_rules;
+CREATE POLICY "Admin insert category rules"
+ON public.category_rules FOR INSERT
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Admin update category rules" ON public.category_rules;
+CREATE POLICY "Admin update category rules"
+ON public.category_rules FOR UPDATE
+USING (public.is_admin_editor())
+WITH CHECK (public.is_admin_editor());
+
+DROP POLICY IF EXISTS "Admin delete category rules" ON public.category_rules;
+CREATE POLICY "Admin delete category rules"
+ON public.category_rules FOR DELETE
+USING (public.is_admin_editor());
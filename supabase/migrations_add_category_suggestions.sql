@@ -0,0 +1,99 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category_suggestion text;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category_confidence numeric(4, 3);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category_source text CHECK (category_source IN ('manual', 'rules', 'model'));
+
+UPDATE public.products
+SET category_source = 'manual'
+WHERE category IS NOT NULL AND category_source IS NULL;
+
+CREATE INDEX IF NOT EXISTS products_category_review_idx ON public.products (category_confidence)
+WHERE category IS NULL AND category_suggestion IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.clear_product_category_suggestion()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.category IS NOT NULL THEN
+    NEW.category_suggestion = NULL;
+    NEW.category_confidence = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_products_category_suggestion ON public.products;
+CREATE TRIGGER clear_products_category_suggestion
+BEFORE INSERT OR UPDATE OF category ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.clear_product_category_suggestion();
+
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS trigger AS $$
+DECLARE
+  before_row jsonb;
+  after_row jsonb;
+  changed text[] := '{}';
+  actor uuid := auth.uid();
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    before_row = to_jsonb(OLD) - 'search_vector';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    after_row = to_jsonb(NEW) - 'search_vector';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(a.key ORDER BY a.key), '{}')
+    INTO changed
+    FROM jsonb_each(after_row) a
+    WHERE a.value IS DISTINCT FROM before_row -> a.key
+      AND a.key NOT IN (
+        'updated_at',
+        'click_count',
+        'price_cents',
+        'previous_price',
+        'price_changed_at',
+        'lowest_price_30d',
+        'link_status',
+        'link_http_status',
+        'link_error',
+        'link_checked_at',
+        'link_failure_streak',
+        'enrichment',
+        'enriched_at',
+        'category_suggestion',
+        'category_confidence'
+      );
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    actor_id,
+    actor_email,
+    table_name,
+    row_id,
+    action,
+    before_data,
+    after_data,
+    changed_fields
+  )
+  VALUES (
+    actor,
+    (SELECT u.email FROM auth.users u WHERE u.id = actor),
+    TG_TABLE_NAME,
+    (coalesce(after_row, before_row) ->> 'id')::uuid,
+    lower(TG_OP),
+    before_row,
+    after_row,
+    changed
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,158 @@
+ALTER TABLE public.outbound_clicks
+ADD COLUMN IF NOT EXISTS visitor_hash text;
+
+ALTER TABLE public.outbound_clicks
+ADD COLUMN IF NOT EXISTS is_bot boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.outbound_clicks
+ADD COLUMN IF NOT EXISTS is_unique boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS outbound_clicks_visitor_idx
+  ON public.outbound_clicks (product_id, visitor_hash, created_at);
+
+CREATE OR REPLACE FUNCTION public.classify_outbound_click()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_bot THEN
+    NEW.is_unique = false;
+  ELSIF NEW.visitor_hash IS NOT NULL THEN
+    NEW.is_unique = NOT EXISTS (
+      SELECT 1
+      FROM public.outbound_clicks c
+      WHERE c.product_id = NEW.product_id
+        AND c.visitor_hash = NEW.visitor_hash
+        AND c.is_bot = false
+        AND c.created_at > now() - interval '30 minutes'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS classify_outbound_click ON public.outbound_clicks;
+CREATE TRIGGER classify_outbound_click
+BEFORE INSERT ON public.outbound_clicks
+FOR EACH ROW EXECUTE FUNCTION public.classify_outbound_click();
+
+CREATE OR REPLACE FUNCTION public.increment_product_clicks()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_bot OR NOT NEW.is_unique THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.products
+  SET click_count = coalesce(click_count, 0) + 1
+  WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE public.outbound_clicks
+SET is_bot = true, is_unique = false
+WHERE ua IS NULL
+  OR ua ~* '(bot\M|crawler|spider|preview|facebookexternalhit|facebot|whatsapp|telegrambot|twitterbot|slackbot|discordbot|linkedinbot|headlesschrome|curl/|wget/|python-requests)';
+
+UPDATE public.products p
+SET click_count = (
+  SELECT count(*)
+  FROM public.outbound_clicks c
+  WHERE c.product_id = p.id
+    AND c.is_unique = true
+);
+
+CREATE OR REPLACE FUNCTION public.click_stats_daily(start_at timestamptz, end_at timestamptz)
+RETURNS TABLE (day date, clicks bigint) AS $$
+  SELECT
+    days.day::date AS day,
+    count(c.id) AS clicks
+  FROM generate_series(
+    date_trunc('day', start_at),
+    date_trunc('day', end_at - interval '1 second'),
+    interval '1 day'
+  ) AS days (day)
+  LEFT JOIN public.outbound_clicks c
+    ON c.created_at >= days.day
+    AND c.created_at < days.day + interval '1 day'
+    AND c.created_at >= start_at
+    AND c.created_at < end_at
+    AND c.is_unique = true
+  GROUP BY days.day
+  ORDER BY days.day;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.click_stats_by_product(
+  start_at timestamptz,
+  end_at timestamptz,
+  result_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  product_id uuid,
+  title text,
+  slug text,
+  category text,
+  clicks bigint
+) AS $$
+  SELECT p.id, p.title, p.slug, p.category, count(c.id) AS clicks
+  FROM public.outbound_clicks c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.created_at >= start_at
+    AND c.created_at < end_at
+    AND c.is_unique = true
+  GROUP BY p.id, p.title, p.slug, p.category
+  ORDER BY clicks DESC, p.title
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.click_stats_by_dimension(
+  dimension text,
+  start_at timestamptz,
+  end_at timestamptz
+)
+RETURNS TABLE (label text, clicks bigint) AS $$
+  SELECT
+    CASE dimension
+      WHEN 'category' THEN coalesce(nullif(p.category, ''), 'Sem categoria')
+      WHEN 'src' THEN coalesce(nullif(c.src, ''), '(sem src)')
+      WHEN 'camp' THEN coalesce(nullif(c.camp, ''), '(sem camp)')
+    END AS label,
+    count(c.id) AS clicks
+  FROM public.outbound_clicks c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE dimension IN ('category', 'src', 'camp')
+    AND c.created_at >= start_at
+    AND c.created_at < end_at
+    AND c.is_unique = true
+  GROUP BY 1
+  ORDER BY clicks DESC, label;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.click_top_movers(
+  reference_at timestamptz DEFAULT now(),
+  result_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  product_id uuid,
+  title text,
+  slug text,
+  this_week bigint,
+  last_week bigint,
+  delta bigint
+) AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.slug,
+    count(c.id) FILTER (WHERE c.created_at >= reference_at - interval '7 days') AS this_week,
+    count(c.id) FILTER (WHERE c.created_at < reference_at - interval '7 days') AS last_week,
+    count(c.id) FILTER (WHERE c.created_at >= reference_at - interval '7 days')
+      - count(c.id) FILTER (WHERE c.created_at < reference_at - interval '7 days') AS delta
+  FROM public.outbound_clicks c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.created_at >= reference_at - interval '14 days'
+    AND c.created_at < reference_at
+    AND c.is_unique = true
+  GROUP BY p.id, p.title, p.slug
+  ORDER BY delta DESC, this_week DESC, p.title
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,39 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS sales integer;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS commission_rate numeric(6, 2);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS commission_value numeric(12, 2);
+
+CREATE INDEX IF NOT EXISTS products_commission_rate_idx
+  ON public.products (commission_rate);
+
+CREATE INDEX IF NOT EXISTS products_commission_value_idx
+  ON public.products (commission_value);
+
+CREATE TABLE IF NOT EXISTS public.product_commission_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products (id) ON DELETE CASCADE,
+  price_text text,
+  sales integer,
+  commission_rate numeric(6, 2),
+  commission_value numeric(12, 2),
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_commission_history_product_id_idx
+  ON public.product_commission_history (product_id, recorded_at DESC);
+
+ALTER TABLE public.product_commission_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read commission history" ON public.product_commission_history;
+CREATE POLICY "Authenticated read commission history"
+ON public.product_commission_history FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated insert commission history" ON public.product_commission_history;
+CREATE POLICY "Authenticated insert commission history"
+ON public.product_commission_history FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
@@ -0,0 +1,2 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS image_variants jsonb NOT NULL DEFAULT '[]'::jsonb;
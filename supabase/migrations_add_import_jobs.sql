@@ -0,0 +1,83 @@
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('csv_import', 'enrichment')),
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  file_name text,
+  auto_enrich boolean NOT NULL DEFAULT false,
+  total_rows integer NOT NULL DEFAULT 0,
+  processed_rows integer NOT NULL DEFAULT 0,
+  imported integer NOT NULL DEFAULT 0,
+  updated integer NOT NULL DEFAULT 0,
+  ignored integer NOT NULL DEFAULT 0,
+  enriched integer NOT NULL DEFAULT 0,
+  error_count integer NOT NULL DEFAULT 0,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  locked_until timestamptz,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS import_jobs_created_at_idx
+  ON public.import_jobs (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS import_jobs_status_idx
+  ON public.import_jobs (status, created_at);
+
+CREATE TABLE IF NOT EXISTS public.import_job_rows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES public.import_jobs (id) ON DELETE CASCADE,
+  line integer NOT NULL,
+  payload jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  error text,
+  outcome text CHECK (outcome IN ('imported', 'updated', 'ignored')),
+  enriched boolean NOT NULL DEFAULT false,
+  product_id uuid REFERENCES public.products (id) ON DELETE SET NULL,
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS import_job_rows_job_idx
+  ON public.import_job_rows (job_id, status, line);
+
+CREATE OR REPLACE FUNCTION public.refresh_import_job_stats(target_job uuid)
+RETURNS void AS $$
+  UPDATE public.import_jobs j
+  SET
+    total_rows = s.total_rows,
+    processed_rows = s.processed_rows,
+    imported = s.imported,
+    updated = s.updated,
+    ignored = s.ignored,
+    enriched = s.enriched,
+    error_count = s.error_count
+  FROM (
+    SELECT
+      count(*) AS total_rows,
+      count(*) FILTER (WHERE status <> 'pending') AS processed_rows,
+      count(*) FILTER (WHERE outcome = 'imported') AS imported,
+      count(*) FILTER (WHERE outcome = 'updated') AS updated,
+      count(*) FILTER (WHERE outcome = 'ignored') AS ignored,
+      count(*) FILTER (WHERE enriched) AS enriched,
+      count(*) FILTER (WHERE status <> 'pending' AND error IS NOT NULL) AS error_count
+    FROM public.import_job_rows
+    WHERE job_id = target_job
+  ) s
+  WHERE j.id = target_job;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin read import jobs" ON public.import_jobs;
+CREATE POLICY "Admin read import jobs"
+ON public.import_jobs FOR SELECT
+USING (public.is_admin_reader());
+
+DROP POLICY IF EXISTS "Admin read import job rows" ON public.import_job_rows;
+CREATE POLICY "Admin read import job rows"
+ON public.import_job_rows FOR SELECT
+USING (public.is_admin_reader());
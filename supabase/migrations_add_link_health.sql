@@ -0,0 +1,101 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_status text CHECK (link_status IN ('ok', 'broken', 'blocked'));
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_http_status integer;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_error text;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_checked_at timestamptz;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_failure_streak integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS link_unpublished_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS products_link_checked_at_idx
+  ON public.products (is_active, link_checked_at);
+
+CREATE OR REPLACE FUNCTION public.clear_product_link_unpublished()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.link_unpublished_at IS NOT DISTINCT FROM OLD.link_unpublished_at THEN
+    NEW.link_unpublished_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_products_link_unpublished ON public.products;
+CREATE TRIGGER clear_products_link_unpublished
+BEFORE UPDATE OF is_active ON public.products
+FOR EACH ROW
+WHEN (NEW.is_active IS DISTINCT FROM OLD.is_active)
+EXECUTE FUNCTION public.clear_product_link_unpublished();
+
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS trigger AS $$
+DECLARE
+  before_row jsonb;
+  after_row jsonb;
+  changed text[] := '{}';
+  actor uuid := auth.uid();
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    before_row = to_jsonb(OLD) - 'search_vector';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    after_row = to_jsonb(NEW) - 'search_vector';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(a.key ORDER BY a.key), '{}')
+    INTO changed
+    FROM jsonb_each(after_row) a
+    WHERE a.value IS DISTINCT FROM before_row -> a.key
+      AND a.key NOT IN (
+        'updated_at',
+        'click_count',
+        'price_cents',
+        'previous_price',
+        'price_changed_at',
+        'lowest_price_30d',
+        'link_status',
+        'link_http_status',
+        'link_error',
+        'link_checked_at',
+        'link_failure_streak'
+      );
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    actor_id,
+    actor_email,
+    table_name,
+    row_id,
+    action,
+    before_data,
+    after_data,
+    changed_fields
+  )
+  VALUES (
+    actor,
+    (SELECT u.email FROM auth.users u WHERE u.id = actor),
+    TG_TABLE_NAME,
+    (coalesce(after_row, before_row) ->> 'id')::uuid,
+    lower(TG_OP),
+    before_row,
+    after_row,
+    changed
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,65 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS price_cents integer;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'BRL';
+
+CREATE INDEX IF NOT EXISTS products_price_cents_idx
+  ON public.products (is_active, price_cents);
+
+CREATE OR REPLACE FUNCTION public.parse_price_cents(value text)
+RETURNS integer AS $$
+DECLARE
+  cleaned text;
+  last_comma integer;
+  last_dot integer;
+BEGIN
+  cleaned := regexp_replace(coalesce(value, ''), '[^0-9,.]', '', 'g');
+  IF cleaned = '' THEN
+    RETURN NULL;
+  END IF;
+
+  last_comma := CASE
+    WHEN strpos(reverse(cleaned), ',') = 0 THEN 0
+    ELSE length(cleaned) - strpos(reverse(cleaned), ',') + 1
+  END;
+  last_dot := CASE
+    WHEN strpos(reverse(cleaned), '.') = 0 THEN 0
+    ELSE length(cleaned) - strpos(reverse(cleaned), '.') + 1
+  END;
+
+  IF last_comma > 0 AND last_dot > 0 THEN
+    IF last_comma > last_dot THEN
+      cleaned := replace(replace(cleaned, '.', ''), ',', '.');
+    ELSE
+      cleaned := replace(cleaned, ',', '');
+    END IF;
+  ELSIF last_comma > 0 THEN
+    cleaned := replace(replace(cleaned, '.', ''), ',', '.');
+  ELSIF cleaned ~ '^[0-9]{1,3}([.][0-9]{3})+$' THEN
+    cleaned := replace(cleaned, '.', '');
+  END IF;
+
+  RETURN round(cleaned::numeric * 100)::integer;
+EXCEPTION
+  WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.set_product_price_cents()
+RETURNS trigger AS $$
+BEGIN
+  NEW.price_cents = public.parse_price_cents(NEW.price_text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_products_price_cents ON public.products;
+CREATE TRIGGER set_products_price_cents
+BEFORE INSERT OR UPDATE OF price_text ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.set_product_price_cents();
+
+UPDATE public.products
+SET price_cents = public.parse_price_cents(price_text)
+WHERE price_text IS NOT NULL;
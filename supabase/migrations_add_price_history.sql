@@ -0,0 +1,88 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS previous_price numeric(12, 2);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS price_changed_at timestamptz;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS lowest_price_30d numeric(12, 2);
+
+CREATE TABLE IF NOT EXISTS public.price_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products (id) ON DELETE CASCADE,
+  price_text text NOT NULL,
+  price numeric(12, 2),
+  source text NOT NULL DEFAULT 'admin',
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS price_history_product_id_idx
+  ON public.price_history (product_id, recorded_at DESC);
+
+CREATE OR REPLACE FUNCTION public.refresh_product_price_stats()
+RETURNS trigger AS $$
+DECLARE
+  last_price numeric(12, 2);
+BEGIN
+  IF NEW.price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT ph.price
+  INTO last_price
+  FROM public.price_history ph
+  WHERE ph.product_id = NEW.product_id
+    AND ph.id <> NEW.id
+    AND ph.price IS NOT NULL
+    AND ph.recorded_at <= NEW.recorded_at
+  ORDER BY ph.recorded_at DESC
+  LIMIT 1;
+
+  UPDATE public.products
+  SET
+    previous_price = CASE
+      WHEN last_price IS NOT NULL AND last_price <> NEW.price THEN last_price
+      ELSE previous_price
+    END,
+    price_changed_at = CASE
+      WHEN last_price IS NOT NULL AND last_price <> NEW.price THEN NEW.recorded_at
+      ELSE price_changed_at
+    END,
+    lowest_price_30d = (
+      SELECT min(ph.price)
+      FROM public.price_history ph
+      WHERE ph.product_id = NEW.product_id
+        AND ph.recorded_at >= NEW.recorded_at - interval '30 days'
+        AND ph.recorded_at <= NEW.recorded_at
+    )
+  WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_product_price_stats ON public.price_history;
+CREATE TRIGGER refresh_product_price_stats
+AFTER INSERT ON public.price_history
+FOR EACH ROW EXECUTE FUNCTION public.refresh_product_price_stats();
+
+CREATE OR REPLACE FUNCTION public.product_lowest_price_30d(target_product_id uuid)
+RETURNS numeric AS $$
+  SELECT min(ph.price)
+  FROM public.price_history ph
+  JOIN public.products p ON p.id = ph.product_id
+  WHERE ph.product_id = target_product_id
+    AND p.is_active
+    AND ph.recorded_at >= now() - interval '30 days';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read price history" ON public.price_history;
+CREATE POLICY "Authenticated read price history"
+ON public.price_history FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated insert price history" ON public.price_history;
+CREATE POLICY "Authenticated insert price history"
+ON public.price_history FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
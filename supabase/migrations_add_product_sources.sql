@@ -0,0 +1,26 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'other' CHECK (source IN ('shopee', 'mercadolivre', 'amazon', 'aliexpress', 'magalu', 'other'));
+
+UPDATE public.products
+SET source = CASE
+  WHEN origin_url ~* '^https?://([a-z0-9-]+\.)*(shopee\.com\.br|shope\.ee)(/|$)' THEN 'shopee'
+  WHEN origin_url ~* '^https?://([a-z0-9-]+\.)*(mercadolivre\.com\.br|mercadolivre\.com|mercadolibre\.com|meli\.la)(/|$)' THEN 'mercadolivre'
+  WHEN origin_url ~* '^https?://([a-z0-9-]+\.)*(amazon\.com\.br|amazon\.com|amzn\.to)(/|$)' THEN 'amazon'
+  WHEN origin_url ~* '^https?://([a-z0-9-]+\.)*(aliexpress\.com|aliexpress\.us)(/|$)' THEN 'aliexpress'
+  WHEN origin_url ~* '^https?://([a-z0-9-]+\.)*(magazineluiza\.com\.br|magazinevoce\.com\.br|magalu\.com)(/|$)' THEN 'magalu'
+  ELSE 'other'
+END
+WHERE source = 'other';
+
+ALTER TABLE public.products
+DROP CONSTRAINT IF EXISTS products_external_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_source_external_id_key
+  ON public.products (source, external_id);
+
+ALTER TABLE public.import_jobs
+ADD COLUMN IF NOT EXISTS importer text;
+
+UPDATE public.import_jobs
+SET importer = 'shopee'
+WHERE kind = 'csv_import' AND importer IS NULL;
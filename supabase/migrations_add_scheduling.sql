@@ -0,0 +1,78 @@
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS expire_at timestamptz;
+
+ALTER TABLE public.collections
+ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+ALTER TABLE public.collections
+ADD COLUMN IF NOT EXISTS expire_at timestamptz;
+
+ALTER TABLE public.home_banners
+ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+
+ALTER TABLE public.home_banners
+ADD COLUMN IF NOT EXISTS expire_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.is_published(
+  active boolean,
+  publish_at timestamptz,
+  expire_at timestamptz
+)
+RETURNS boolean AS $$
+  SELECT active
+    AND (publish_at IS NULL OR publish_at <= now())
+    AND (expire_at IS NULL OR expire_at > now());
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.search_products(search_query text)
+RETURNS SETOF public.products AS $$
+  WITH input AS (
+    SELECT
+      websearch_to_tsquery('public.portuguese_unaccent', coalesce(search_query, '')) AS tsq,
+      public.normalize_search_text(search_query) AS term
+  )
+  SELECT p.*
+  FROM public.products p
+  CROSS JOIN input
+  WHERE public.is_published(p.is_active, p.publish_at, p.expire_at)
+    AND input.term <> ''
+    AND (
+      p.search_vector @@ input.tsq
+      OR input.term <% public.normalize_search_text(p.title)
+    )
+  ORDER BY
+    ts_rank_cd(p.search_vector, input.tsq) DESC,
+    word_similarity(input.term, public.normalize_search_text(p.title)) DESC,
+    p.click_count DESC,
+    p.id;
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Public read active products" ON public.products;
+CREATE POLICY "Public read active products"
+ON public.products FOR SELECT
+USING (public.is_published(is_active, publish_at, expire_at));
+
+DROP POLICY IF EXISTS "Public read active home banners" ON public.home_banners;
+CREATE POLICY "Public read active home banners"
+ON public.home_banners FOR SELECT
+USING (public.is_published(is_active, publish_at, expire_at));
+
+DROP POLICY IF EXISTS "Public read active collections" ON public.collections;
+CREATE POLICY "Public read active collections"
+ON public.collections FOR SELECT
+USING (public.is_published(is_active, publish_at, expire_at));
+
+DROP POLICY IF EXISTS "Public read collection items" ON public.collection_items;
+CREATE POLICY "Public read collection items"
+ON public.collection_items FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.collections c
+    WHERE c.id = collection_id
+      AND public.is_published(c.is_active, c.publish_at, c.expire_at)
+  )
+);
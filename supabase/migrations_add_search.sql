@@ -0,0 +1,99 @@
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent'
+  ) THEN
+    CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (
+      COPY = pg_catalog.portuguese
+    );
+    ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+      ALTER MAPPING FOR hword, hword_part, word
+      WITH public.unaccent, portuguese_stem;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION public.normalize_search_text(value text)
+RETURNS text AS $$
+  SELECT lower(public.unaccent('public.unaccent'::regdictionary, trim(coalesce(value, ''))));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.build_product_search_vector(
+  title text,
+  description_short text,
+  tags text[],
+  category text,
+  store_name text
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', array_to_string(coalesce(tags, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(store_name, '')), 'C') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(description_short, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.set_product_search_vector()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector = public.build_product_search_vector(
+    NEW.title,
+    NEW.description_short,
+    NEW.tags,
+    NEW.category,
+    NEW.store_name
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_products_search_vector ON public.products;
+CREATE TRIGGER set_products_search_vector
+BEFORE INSERT OR UPDATE OF title, description_short, tags, category, store_name
+ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.set_product_search_vector();
+
+CREATE INDEX IF NOT EXISTS products_search_vector_idx
+  ON public.products USING gin (search_vector);
+
+CREATE INDEX IF NOT EXISTS products_title_trgm_idx
+  ON public.products USING gin (public.normalize_search_text(title) gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_products(search_query text)
+RETURNS SETOF public.products AS $$
+  WITH input AS (
+    SELECT
+      websearch_to_tsquery('public.portuguese_unaccent', coalesce(search_query, '')) AS tsq,
+      public.normalize_search_text(search_query) AS term
+  )
+  SELECT p.*
+  FROM public.products p
+  CROSS JOIN input
+  WHERE p.is_active = true
+    AND input.term <> ''
+    AND (
+      p.search_vector @@ input.tsq
+      OR input.term <% public.normalize_search_text(p.title)
+    )
+  ORDER BY
+    ts_rank_cd(p.search_vector, input.tsq) DESC,
+    word_similarity(input.term, public.normalize_search_text(p.title)) DESC,
+    p.click_count DESC,
+    p.id;
+$$ LANGUAGE sql STABLE;
+
+UPDATE public.products
+SET search_vector = public.build_product_search_vector(
+  title,
+  description_short,
+  tags,
+  category,
+  store_name
+);
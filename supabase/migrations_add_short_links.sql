@@ -0,0 +1,99 @@
+CREATE TABLE IF NOT EXISTS public.short_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('product', 'collection', 'banner')),
+  product_id uuid REFERENCES public.products (id) ON DELETE CASCADE,
+  collection_id uuid REFERENCES public.collections (id) ON DELETE CASCADE,
+  banner_id uuid REFERENCES public.home_banners (id) ON DELETE CASCADE,
+  src text,
+  camp text,
+  click_count integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS short_links_is_active_idx
+  ON public.short_links (is_active);
+
+ALTER TABLE public.outbound_clicks
+ADD COLUMN IF NOT EXISTS short_link_id uuid REFERENCES public.short_links (id) ON DELETE SET NULL;
+
+ALTER TABLE public.outbound_clicks
+ALTER COLUMN product_id DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.classify_outbound_click()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_bot THEN
+    NEW.is_unique = false;
+  ELSIF NEW.visitor_hash IS NOT NULL THEN
+    NEW.is_unique = NOT EXISTS (
+      SELECT 1
+      FROM public.outbound_clicks c
+      WHERE (
+          c.product_id = NEW.product_id
+          OR (NEW.product_id IS NULL AND c.short_link_id = NEW.short_link_id)
+        )
+        AND c.visitor_hash = NEW.visitor_hash
+        AND c.is_bot = false
+        AND c.created_at > now() - interval '30 minutes'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_short_links_updated_at ON public.short_links;
+CREATE TRIGGER set_short_links_updated_at
+BEFORE UPDATE ON public.short_links
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP FUNCTION IF EXISTS public.increment_short_link_clicks(uuid);
+
+CREATE OR REPLACE FUNCTION public.increment_short_link_clicks()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.short_link_id IS NULL OR NEW.is_bot OR NOT NEW.is_unique THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.short_links
+  SET click_count = click_count + 1
+  WHERE id = NEW.short_link_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS increment_short_link_clicks ON public.outbound_clicks;
+CREATE TRIGGER increment_short_link_clicks
+AFTER INSERT ON public.outbound_clicks
+FOR EACH ROW EXECUTE FUNCTION public.increment_short_link_clicks();
+
+ALTER TABLE public.short_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read active short links" ON public.short_links;
+CREATE POLICY "Public read active short links"
+ON public.short_links FOR SELECT
+USING (is_active = true);
+
+DROP POLICY IF EXISTS "Authenticated read short links" ON public.short_links;
+CREATE POLICY "Authenticated read short links"
+ON public.short_links FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated insert short links" ON public.short_links;
+CREATE POLICY "Authenticated insert short links"
+ON public.short_links FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated update short links" ON public.short_links;
+CREATE POLICY "Authenticated update short links"
+ON public.short_links FOR UPDATE
+USING (auth.role() = 'authenticated')
+WITH CHECK (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated delete short links" ON public.short_links;
+CREATE POLICY "Authenticated delete short links"
+ON public.short_links FOR DELETE
+USING (auth.role() = 'authenticated');
@@ -0,0 +1,64 @@
+CREATE OR REPLACE FUNCTION public.slugify_tag(value text)
+RETURNS text AS $$
+  SELECT left(
+    trim(BOTH '-' FROM regexp_replace(public.normalize_search_text(value), '[^a-z0-9]+', '-', 'g')),
+    80
+  );
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.tag_stats()
+RETURNS TABLE (tag text, slug text, products bigint, published bigint) AS $$
+  SELECT
+    t.tag,
+    public.slugify_tag(t.tag) AS slug,
+    count(*) AS products,
+    count(*) FILTER (
+      WHERE public.is_published(p.is_active, p.publish_at, p.expire_at)
+    ) AS published
+  FROM public.products p
+  CROSS JOIN LATERAL unnest(p.tags) AS t (tag)
+  WHERE trim(t.tag) <> ''
+  GROUP BY t.tag
+  ORDER BY products DESC, t.tag;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.tag_variants(tag_slug text)
+RETURNS TABLE (tag text, published bigint) AS $$
+  SELECT t.tag, count(*) AS published
+  FROM public.products p
+  CROSS JOIN LATERAL unnest(p.tags) AS t (tag)
+  WHERE public.is_published(p.is_active, p.publish_at, p.expire_at)
+    AND public.slugify_tag(t.tag) = tag_slug
+  GROUP BY t.tag
+  ORDER BY published DESC, t.tag;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.replace_product_tags(
+  source_tags text[],
+  target_tag text DEFAULT NULL
+)
+RETURNS integer AS $$
+  WITH updated AS (
+    UPDATE public.products p
+    SET tags = coalesce((
+      SELECT array_agg(merged.tag ORDER BY merged.position)
+      FROM (
+        SELECT renamed.tag, min(renamed.position) AS position
+        FROM (
+          SELECT
+            CASE
+              WHEN u.tag = ANY(source_tags) THEN nullif(trim(target_tag), '')
+              ELSE u.tag
+            END AS tag,
+            u.position
+          FROM unnest(p.tags) WITH ORDINALITY AS u (tag, position)
+        ) renamed
+        WHERE renamed.tag IS NOT NULL
+        GROUP BY renamed.tag
+      ) merged
+    ), '{}')
+    WHERE p.tags && source_tags
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM updated;
+$$ LANGUAGE sql;
@@ -0,0 +1,5 @@
+ALTER TABLE public.import_jobs
+DROP CONSTRAINT IF EXISTS import_jobs_kind_check;
+
+ALTER TABLE public.import_jobs
+ADD CONSTRAINT import_jobs_kind_check CHECK (kind IN ('csv_import', 'url_import', 'enrichment'));
@@ -1,16 +1,37 @@
 -- Core schema for Catálogo de Afiliados (Supabase / Postgres)
 
 create extension if not exists "pgcrypto";
+create extension if not exists "unaccent";
+create extension if not exists "pg_trgm";
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_ts_config where cfgname = 'portuguese_unaccent'
+  ) then
+    create text search configuration public.portuguese_unaccent (
+      copy = pg_catalog.portuguese
+    );
+    alter text search configuration public.portuguese_unaccent
+      alter mapping for hword, hword_part, word
+      with public.unaccent, portuguese_stem;
+  end if;
+end;
+$$;
 
 create table if not exists public.products (
   id uuid primary key default gen_random_uuid(),
   slug text unique not null,
-  external_id text unique,
+  source text not null default 'other' check (source in ('shopee', 'mercadolivre', 'amazon', 'aliexpress', 'magalu', 'other')),
+  external_id text,
   title text not null,
   description_short text,
   price_text text,
+  price_cents integer,
+  currency text not null default 'BRL',
   image_url text,
   image_urls text[] not null default '{}',
+  image_variants jsonb not null default '[]'::jsonb,
   origin_url text not null,
   affiliate_url text,
   tags text[] not null default '{}',
@@ -25,6 +46,25 @@ create table if not exists public.products (
   trending_rank integer,
   hot_rank integer,
   click_count integer not null default 0,
+  sales integer,
+  commission_rate numeric(6, 2),
+  commission_value numeric(12, 2),
+  previous_price numeric(12, 2),
+  price_changed_at timestamptz,
+  lowest_price_30d numeric(12, 2),
+  search_vector tsvector,
+  publish_at timestamptz,
+  expire_at timestamptz,
+  link_status text check (link_status in ('ok', 'broken', 'blocked')),
+  link_http_status integer,
+  link_error text,
+  link_checked_at timestamptz,
+  link_failure_streak integer not null default 0,
+  link_unpublished_at timestamptz,
+  rating numeric(2, 1) check (rating between 0 and 5),
+  rating_count integer,
+  enrichment jsonb,
+  enriched_at timestamptz,
   is_active boolean not null default false,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
@@ -38,10 +78,16 @@ create index if not exists products_exclusive_rank_idx on public.products (exclu
 create index if not exists products_trending_rank_idx on public.products (trending_rank);
 create index if not exists products_hot_rank_idx on public.products (hot_rank);
 create index if not exists products_click_count_idx on public.products (click_count);
+create index if not exists products_price_cents_idx on public.products (is_active, price_cents);
+create index if not exists products_commission_rate_idx on public.products (commission_rate);
+create index if not exists products_commission_value_idx on public.products (commission_value);
 
 alter table public.products
 add column if not exists image_urls text[] not null default '{}';
 
+alter table public.products
+add column if not exists image_variants jsonb not null default '[]'::jsonb;
+
 alter table public.products
 add column if not exists is_featured boolean not null default false;
 
@@ -69,11 +115,148 @@ add column if not exists hot_rank integer;
 alter table public.products
 add column if not exists click_count integer not null default 0;
 
+alter table public.products
+add column if not exists price_cents integer;
+
+alter table public.products
+add column if not exists currency text not null default 'BRL';
+
+alter table public.products
+add column if not exists sales integer;
+
+alter table public.products
+add column if not exists commission_rate numeric(6, 2);
+
+alter table public.products
+add column if not exists commission_value numeric(12, 2);
+
+alter table public.products
+add column if not exists previous_price numeric(12, 2);
+
+alter table public.products
+add column if not exists price_changed_at timestamptz;
+
+alter table public.products
+add column if not exists lowest_price_30d numeric(12, 2);
+
+alter table public.products
+add column if not exists search_vector tsvector;
+
+alter table public.products
+add column if not exists publish_at timestamptz;
+
+alter table public.products
+add column if not exists expire_at timestamptz;
+
+alter table public.products
+add column if not exists link_status text check (link_status in ('ok', 'broken', 'blocked'));
+
+alter table public.products
+add column if not exists link_http_status integer;
+
+alter table public.products
+add column if not exists link_error text;
+
+alter table public.products
+add column if not exists link_checked_at timestamptz;
+
+alter table public.products
+add column if not exists link_failure_streak integer not null default 0;
+
+alter table public.products
+add column if not exists link_unpublished_at timestamptz;
+
+alter table public.products
+add column if not exists rating numeric(2, 1) check (rating between 0 and 5);
+
+alter table public.products
+add column if not exists rating_count integer;
+
+alter table public.products
+add column if not exists enrichment jsonb;
+
+alter table public.products
+add column if not exists enriched_at timestamptz;
+
+alter table public.products
+add column if not exists source text not null default 'other' check (source in ('shopee', 'mercadolivre', 'amazon', 'aliexpress', 'magalu', 'other'));
+
+alter table public.products
+drop constraint if exists products_external_id_key;
+
+create unique index if not exists products_source_external_id_key on public.products (source, external_id);
+
+alter table public.products
+add column if not exists category_suggestion text;
+
+alter table public.products
+add column if not exists category_confidence numeric(4, 3);
+
+alter table public.products
+add column if not exists category_source text check (category_source in ('manual', 'rules', 'model'));
+
+create index if not exists products_category_review_idx on public.products (category_confidence)
+where category is null and category_suggestion is not null;
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text unique not null,
+  slug text unique not null,
+  parent_id uuid references public.categories (id) on delete set null,
+  icon text,
+  description text,
+  sort_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (parent_id is null or parent_id <> id)
+);
+
+create index if not exists categories_parent_id_idx on public.categories (parent_id, sort_order);
+
+insert into public.categories (name, slug, sort_order)
+values
+  ('Tech', 'tech', 10),
+  ('Casa e decoração', 'casa-e-decoracao', 20),
+  ('Pet', 'pet', 30),
+  ('Automóveis', 'automoveis', 40),
+  ('Beleza e saúde', 'beleza-e-saude', 50),
+  ('Eletrônicos', 'eletronicos', 60),
+  ('Eletrodomésticos', 'eletrodomesticos', 70),
+  ('Bijoux', 'bijoux', 80),
+  ('Fitness', 'fitness', 90),
+  ('Moda Masculina', 'moda-masculina', 100),
+  ('Moda Feminina', 'moda-feminina', 110),
+  ('Moda Infantil', 'moda-infantil', 120),
+  ('Bebe e Maternidade', 'bebe-e-maternidade', 130),
+  ('Brinquedos', 'brinquedos', 140),
+  ('Cama, mesa e banho', 'cama-mesa-e-banho', 150),
+  ('Games', 'games', 160),
+  ('Produtos de Limpeza', 'produtos-de-limpeza', 170),
+  ('Alimentos', 'alimentos', 180)
+on conflict do nothing;
+
+alter table public.products
+add column if not exists category_id uuid references public.categories (id) on delete set null;
+
+create index if not exists products_category_id_idx on public.products (category_id);
+
+create index if not exists products_link_checked_at_idx on public.products (is_active, link_checked_at);
+
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now()
+);
+
 create table if not exists public.collections (
   id uuid primary key default gen_random_uuid(),
   name text not null,
   slug text unique not null,
   description text,
+  publish_at timestamptz,
+  expire_at timestamptz,
   is_active boolean not null default true,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
@@ -81,6 +264,12 @@ create table if not exists public.collections (
 
 create index if not exists collections_is_active_idx on public.collections (is_active);
 
+alter table public.collections
+add column if not exists publish_at timestamptz;
+
+alter table public.collections
+add column if not exists expire_at timestamptz;
+
 create table if not exists public.collection_items (
   id uuid primary key default gen_random_uuid(),
   collection_id uuid not null references public.collections (id) on delete cascade,
@@ -102,6 +291,8 @@ create table if not exists public.home_banners (
   cta_url text,
   theme text,
   sort_order integer not null default 0,
+  publish_at timestamptz,
+  expire_at timestamptz,
   is_active boolean not null default true,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
@@ -110,6 +301,12 @@ create table if not exists public.home_banners (
 create index if not exists home_banners_is_active_idx on public.home_banners (is_active);
 create index if not exists home_banners_sort_order_idx on public.home_banners (sort_order);
 
+alter table public.home_banners
+add column if not exists publish_at timestamptz;
+
+alter table public.home_banners
+add column if not exists expire_at timestamptz;
+
 create table if not exists public.product_copies (
   id uuid primary key default gen_random_uuid(),
   product_id uuid not null references public.products (id) on delete cascade,
@@ -120,16 +317,222 @@ create table if not exists public.product_copies (
 
 create index if not exists product_copies_product_id_idx on public.product_copies (product_id);
 
+create table if not exists public.campaigns (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text unique not null,
+  channel text not null default 'whatsapp',
+  group_name text,
+  campaign_date date,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists campaigns_campaign_date_idx on public.campaigns (campaign_date);
+
+create table if not exists public.short_links (
+  id uuid primary key default gen_random_uuid(),
+  code text unique not null,
+  target_type text not null check (target_type in ('product', 'collection', 'banner')),
+  product_id uuid references public.products (id) on delete cascade,
+  collection_id uuid references public.collections (id) on delete cascade,
+  banner_id uuid references public.home_banners (id) on delete cascade,
+  src text,
+  camp text,
+  click_count integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists short_links_is_active_idx on public.short_links (is_active);
+
 create table if not exists public.outbound_clicks (
   id uuid primary key default gen_random_uuid(),
-  product_id uuid not null references public.products (id) on delete cascade,
+  product_id uuid references public.products (id) on delete cascade,
+  campaign_id uuid references public.campaigns (id) on delete set null,
+  short_link_id uuid references public.short_links (id) on delete set null,
   src text,
   camp text,
   ua text,
+  visitor_hash text,
+  is_bot boolean not null default false,
+  is_unique boolean not null default true,
   created_at timestamptz not null default now()
 );
 
+alter table public.outbound_clicks
+add column if not exists campaign_id uuid references public.campaigns (id) on delete set null;
+
 create index if not exists outbound_clicks_product_id_idx on public.outbound_clicks (product_id);
+create index if not exists outbound_clicks_campaign_id_idx on public.outbound_clicks (campaign_id);
+create index if not exists outbound_clicks_visitor_idx on public.outbound_clicks (product_id, visitor_hash, created_at);
+
+alter table public.outbound_clicks
+add column if not exists short_link_id uuid references public.short_links (id) on delete set null;
+
+alter table public.outbound_clicks
+alter column product_id drop not null;
+
+alter table public.outbound_clicks
+add column if not exists visitor_hash text;
+
+alter table public.outbound_clicks
+add column if not exists is_bot boolean not null default false;
+
+alter table public.outbound_clicks
+add column if not exists is_unique boolean not null default true;
+
+create table if not exists public.product_commission_history (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  price_text text,
+  sales integer,
+  commission_rate numeric(6, 2),
+  commission_value numeric(12, 2),
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists product_commission_history_product_id_idx on public.product_commission_history (product_id, recorded_at desc);
+
+create table if not exists public.price_history (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  price_text text not null,
+  price numeric(12, 2),
+  source text not null default 'admin',
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists price_history_product_id_idx on public.price_history (product_id, recorded_at desc);
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  table_name text not null,
+  row_id uuid,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  before_data jsonb,
+  after_data jsonb,
+  changed_fields text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_row_idx on public.audit_log (table_name, row_id, created_at desc);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_id, created_at desc);
+
+create table if not exists public.import_jobs (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('csv_import', 'url_import', 'enrichment')),
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  importer text,
+  file_name text,
+  auto_enrich boolean not null default false,
+  total_rows integer not null default 0,
+  processed_rows integer not null default 0,
+  imported integer not null default 0,
+  updated integer not null default 0,
+  ignored integer not null default 0,
+  enriched integer not null default 0,
+  error_count integer not null default 0,
+  attempts integer not null default 0,
+  last_error text,
+  locked_until timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+alter table public.import_jobs
+add column if not exists importer text;
+
+alter table public.import_jobs
+drop constraint if exists import_jobs_kind_check;
+
+alter table public.import_jobs
+add constraint import_jobs_kind_check check (kind in ('csv_import', 'url_import', 'enrichment'));
+
+create index if not exists import_jobs_created_at_idx on public.import_jobs (created_at desc);
+create index if not exists import_jobs_status_idx on public.import_jobs (status, created_at);
+
+create table if not exists public.import_job_rows (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.import_jobs (id) on delete cascade,
+  line integer not null,
+  payload jsonb,
+  status text not null default 'pending' check (status in ('pending', 'done', 'failed')),
+  attempts integer not null default 0,
+  error text,
+  outcome text check (outcome in ('imported', 'updated', 'ignored')),
+  enriched boolean not null default false,
+  product_id uuid references public.products (id) on delete set null,
+  processed_at timestamptz
+);
+
+create index if not exists import_job_rows_job_idx on public.import_job_rows (job_id, status, line);
+
+create table if not exists public.category_rules (
+  id uuid primary key default gen_random_uuid(),
+  category text unique not null,
+  keywords jsonb not null default '[]'::jsonb,
+  negative_keywords text[] not null default '{}',
+  min_score numeric(4, 1) not null default 1,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.category_rules (category, keywords, negative_keywords)
+values
+  ('Tech', '[{"term": "tech", "weight": 1}, {"term": "gadget", "weight": 1}, {"term": "smart", "weight": 0.5}, {"term": "bluetooth", "weight": 1}, {"term": "wireless", "weight": 1}, {"term": "usb", "weight": 1}, {"term": "cabo", "weight": 1}, {"term": "carregador", "weight": 1}, {"term": "powerbank", "weight": 1}, {"term": "hub", "weight": 1}, {"term": "suporte", "weight": 0.5}, {"term": "mouse", "weight": 1}, {"term": "teclado", "weight": 1}]'::jsonb, '{}'),
+  ('Eletrônicos', '[{"term": "fone", "weight": 2}, {"term": "headset", "weight": 1}, {"term": "tv", "weight": 1}, {"term": "monitor", "weight": 1}, {"term": "camera", "weight": 1}, {"term": "celular", "weight": 1}, {"term": "smartphone", "weight": 2}, {"term": "tablet", "weight": 1}, {"term": "notebook", "weight": 2}, {"term": "laptop", "weight": 1}, {"term": "relogio", "weight": 1}, {"term": "smartwatch", "weight": 2}, {"term": "caixa de som", "weight": 1}, {"term": "soundbar", "weight": 1}]'::jsonb, '{}'),
+  ('Eletrodomésticos', '[{"term": "airfryer", "weight": 2}, {"term": "air fryer", "weight": 2}, {"term": "liquidificador", "weight": 1}, {"term": "cafeteira", "weight": 1}, {"term": "microondas", "weight": 1}, {"term": "geladeira", "weight": 1}, {"term": "fogao", "weight": 1}, {"term": "forno", "weight": 1}, {"term": "lavadora", "weight": 1}, {"term": "aspirador", "weight": 1}, {"term": "ventilador", "weight": 1}, {"term": "batedeira", "weight": 1}]'::jsonb, '{}'),
+  ('Bijoux', '[{"term": "biju", "weight": 1}, {"term": "bijoux", "weight": 1}, {"term": "bijuteria", "weight": 1}, {"term": "colar", "weight": 1}, {"term": "brinco", "weight": 1}, {"term": "anel", "weight": 1}, {"term": "pulseira", "weight": 1}, {"term": "choker", "weight": 1}, {"term": "pingente", "weight": 1}, {"term": "semijoia", "weight": 1}, {"term": "semi joia", "weight": 1}]'::jsonb, '{}'),
+  ('Fitness', '[{"term": "fitness", "weight": 1}, {"term": "treino", "weight": 1}, {"term": "academia", "weight": 1}, {"term": "exercicio", "weight": 1}, {"term": "yoga", "weight": 1}, {"term": "pilates", "weight": 1}, {"term": "halter", "weight": 1}, {"term": "peso", "weight": 1}, {"term": "elastico", "weight": 1}, {"term": "resistencia", "weight": 1}, {"term": "esteira", "weight": 1}, {"term": "bicicleta", "weight": 1}, {"term": "ergometrica", "weight": 1}, {"term": "colchonete", "weight": 1}, {"term": "tapete yoga", "weight": 1}]'::jsonb, '{}'),
+  ('Cama, mesa e banho', '[{"term": "cama", "weight": 1}, {"term": "mesa", "weight": 0.5}, {"term": "banho", "weight": 1}, {"term": "banheiro", "weight": 1}, {"term": "lencol", "weight": 1}, {"term": "toalha", "weight": 1}, {"term": "edredom", "weight": 1}, {"term": "cobertor", "weight": 1}, {"term": "fronha", "weight": 1}, {"term": "travesseiro", "weight": 1}, {"term": "jogo de cama", "weight": 1}, {"term": "jogo de toalha", "weight": 1}]'::jsonb, '{}'),
+  ('Moda Masculina', '[{"term": "masculino", "weight": 1}, {"term": "homem", "weight": 1}, {"term": "camisa", "weight": 1}, {"term": "camiseta", "weight": 1}, {"term": "bermuda", "weight": 1}, {"term": "calca", "weight": 1}, {"term": "jeans", "weight": 1}, {"term": "tenis", "weight": 1}, {"term": "sapato", "weight": 1}, {"term": "cueca", "weight": 1}]'::jsonb, '{feminino,infantil}'),
+  ('Moda Feminina', '[{"term": "feminino", "weight": 1}, {"term": "mulher", "weight": 1}, {"term": "vestido", "weight": 1}, {"term": "saia", "weight": 1}, {"term": "blusa", "weight": 1}, {"term": "salto", "weight": 1}, {"term": "bolsa", "weight": 1}, {"term": "lingerie", "weight": 1}, {"term": "biquini", "weight": 1}]'::jsonb, '{masculino,infantil}'),
+  ('Moda Infantil', '[{"term": "infantil", "weight": 1}, {"term": "crianca", "weight": 1}, {"term": "menino", "weight": 1}, {"term": "menina", "weight": 1}, {"term": "kids", "weight": 1}, {"term": "escolar", "weight": 1}]'::jsonb, '{}'),
+  ('Bebe e Maternidade', '[{"term": "bebe", "weight": 1}, {"term": "maternidade", "weight": 1}, {"term": "gestante", "weight": 1}, {"term": "fralda", "weight": 1}, {"term": "mamadeira", "weight": 1}, {"term": "chupeta", "weight": 1}, {"term": "carrinho", "weight": 1}, {"term": "berco", "weight": 1}, {"term": "banheira", "weight": 1}]'::jsonb, '{}'),
+  ('Brinquedos', '[{"term": "brinquedo", "weight": 1}, {"term": "lego", "weight": 1}, {"term": "boneca", "weight": 1}, {"term": "carrinho", "weight": 1}, {"term": "jogo", "weight": 1}, {"term": "puzzle", "weight": 1}, {"term": "pelucia", "weight": 1}, {"term": "playset", "weight": 1}]'::jsonb, '{cachorro,gato,pet}'),
+  ('Casa e decoração', '[{"term": "decor*", "weight": 1}, {"term": "decoracao", "weight": 1}, {"term": "almofada", "weight": 1}, {"term": "tapete", "weight": 1}, {"term": "cortina", "weight": 1}, {"term": "luminaria", "weight": 1}, {"term": "vaso", "weight": 1}, {"term": "quadro", "weight": 1}, {"term": "organizador", "weight": 1}, {"term": "cozinha", "weight": 1}]'::jsonb, '{}'),
+  ('Pet', '[{"term": "pet", "weight": 1}, {"term": "cachorro", "weight": 1}, {"term": "cao", "weight": 1}, {"term": "gato", "weight": 1}, {"term": "areia", "weight": 1}, {"term": "racao", "weight": 2}, {"term": "coleira", "weight": 1}, {"term": "petisco", "weight": 1}]'::jsonb, '{}'),
+  ('Automóveis', '[{"term": "carro", "weight": 1}, {"term": "automotivo", "weight": 1}, {"term": "veiculo", "weight": 1}, {"term": "moto", "weight": 1}, {"term": "motocicleta", "weight": 1}, {"term": "pneu", "weight": 1}, {"term": "capacete", "weight": 1}, {"term": "farol", "weight": 1}]'::jsonb, '{}'),
+  ('Beleza e saúde', '[{"term": "beleza", "weight": 1}, {"term": "skin", "weight": 1}, {"term": "skincare", "weight": 1}, {"term": "maquiagem", "weight": 1}, {"term": "creme", "weight": 1}, {"term": "perfume", "weight": 1}, {"term": "shampoo", "weight": 1}, {"term": "vitamina", "weight": 1}, {"term": "saude", "weight": 1}, {"term": "barbeador", "weight": 1}, {"term": "secador", "weight": 1}, {"term": "chapinha", "weight": 1}]'::jsonb, '{}'),
+  ('Games', '[{"term": "game", "weight": 1}, {"term": "gamer", "weight": 1}, {"term": "ps5", "weight": 2}, {"term": "ps4", "weight": 1}, {"term": "xbox", "weight": 2}, {"term": "nintendo", "weight": 2}, {"term": "switch", "weight": 1}, {"term": "controle", "weight": 1}, {"term": "joystick", "weight": 1}]'::jsonb, '{}'),
+  ('Produtos de Limpeza', '[{"term": "limpeza", "weight": 1}, {"term": "detergente", "weight": 1}, {"term": "desinfetante", "weight": 1}, {"term": "sabao", "weight": 1}, {"term": "amaciante", "weight": 1}, {"term": "alvejante", "weight": 1}, {"term": "multiuso", "weight": 1}]'::jsonb, '{}'),
+  ('Alimentos', '[{"term": "alimento", "weight": 1}, {"term": "chocolate", "weight": 1}, {"term": "cafe", "weight": 1}, {"term": "cha", "weight": 1}, {"term": "snack", "weight": 1}, {"term": "biscoito", "weight": 1}, {"term": "tempero", "weight": 1}, {"term": "suco", "weight": 1}]'::jsonb, '{cafeteira}')
+on conflict (category) do nothing;
+
+create or replace function public.refresh_import_job_stats(target_job uuid)
+returns void as $$
+  update public.import_jobs j
+  set
+    total_rows = s.total_rows,
+    processed_rows = s.processed_rows,
+    imported = s.imported,
+    updated = s.updated,
+    ignored = s.ignored,
+    enriched = s.enriched,
+    error_count = s.error_count
+  from (
+    select
+      count(*) as total_rows,
+      count(*) filter (where status <> 'pending') as processed_rows,
+      count(*) filter (where outcome = 'imported') as imported,
+      count(*) filter (where outcome = 'updated') as updated,
+      count(*) filter (where outcome = 'ignored') as ignored,
+      count(*) filter (where enriched) as enriched,
+      count(*) filter (where status <> 'pending' and error is not null) as error_count
+    from public.import_job_rows
+    where job_id = target_job
+  ) s
+  where j.id = target_job;
+$$ language sql security definer set search_path = public;
 
 create or replace function public.set_updated_at()
 returns trigger as $$
@@ -139,11 +542,345 @@ begin
 end;
 $$ language plpgsql;
 
+create or replace function public.is_published(
+  active boolean,
+  publish_at timestamptz,
+  expire_at timestamptz
+)
+returns boolean as $$
+  select active
+    and (publish_at is null or publish_at <= now())
+    and (expire_at is null or expire_at > now());
+$$ language sql stable;
+
 drop trigger if exists set_products_updated_at on public.products;
 create trigger set_products_updated_at
 before update on public.products
 for each row execute function public.set_updated_at();
 
+create or replace function public.parse_price_cents(value text)
+returns integer as $$
+declare
+  cleaned text;
+  last_comma integer;
+  last_dot integer;
+begin
+  cleaned := regexp_replace(coalesce(value, ''), '[^0-9,.]', '', 'g');
+  if cleaned = '' then
+    return null;
+  end if;
+
+  last_comma := case
+    when strpos(reverse(cleaned), ',') = 0 then 0
+    else length(cleaned) - strpos(reverse(cleaned), ',') + 1
+  end;
+  last_dot := case
+    when strpos(reverse(cleaned), '.') = 0 then 0
+    else length(cleaned) - strpos(reverse(cleaned), '.') + 1
+  end;
+
+  if last_comma > 0 and last_dot > 0 then
+    if last_comma > last_dot then
+      cleaned := replace(replace(cleaned, '.', ''), ',', '.');
+    else
+      cleaned := replace(cleaned, ',', '');
+    end if;
+  elsif last_comma > 0 then
+    cleaned := replace(replace(cleaned, '.', ''), ',', '.');
+  elsif cleaned ~ '^[0-9]{1,3}([.][0-9]{3})+$' then
+    cleaned := replace(cleaned, '.', '');
+  end if;
+
+  return round(cleaned::numeric * 100)::integer;
+exception
+  when others then
+    return null;
+end;
+$$ language plpgsql immutable;
+
+create or replace function public.set_product_price_cents()
+returns trigger as $$
+begin
+  new.price_cents = public.parse_price_cents(new.price_text);
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists set_products_price_cents on public.products;
+create trigger set_products_price_cents
+before insert or update of price_text on public.products
+for each row execute function public.set_product_price_cents();
+
+create or replace function public.clear_product_category_suggestion()
+returns trigger as $$
+begin
+  if new.category is not null then
+    new.category_suggestion = null;
+    new.category_confidence = null;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create or replace function public.clear_product_link_unpublished()
+returns trigger as $$
+begin
+  if new.link_unpublished_at is not distinct from old.link_unpublished_at then
+    new.link_unpublished_at = null;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists clear_products_link_unpublished on public.products;
+create trigger clear_products_link_unpublished
+before update of is_active on public.products
+for each row
+when (new.is_active is distinct from old.is_active)
+execute function public.clear_product_link_unpublished();
+
+drop trigger if exists clear_products_category_suggestion on public.products;
+create trigger clear_products_category_suggestion
+before insert or update of category, category_id on public.products
+for each row execute function public.clear_product_category_suggestion();
+
+create or replace function public.assign_product_category()
+returns trigger as $$
+declare
+  matched public.categories%rowtype;
+begin
+  if new.category_id is not null
+    and (tg_op = 'INSERT' or new.category_id is distinct from old.category_id) then
+    select c.name into new.category
+    from public.categories c
+    where c.id = new.category_id;
+  elsif tg_op = 'UPDATE' and new.category_id is distinct from old.category_id then
+    new.category = null;
+  elsif tg_op = 'INSERT' or new.category is distinct from old.category then
+    select c.* into matched
+    from public.categories c
+    where lower(c.name) = lower(trim(new.category))
+      or c.slug = trim(both '-' from regexp_replace(public.normalize_search_text(new.category), '[^a-z0-9]+', '-', 'g'))
+    order by lower(c.name) = lower(trim(new.category)) desc
+    limit 1;
+    if found then
+      new.category_id = matched.id;
+      new.category = matched.name;
+    else
+      new.category_id = null;
+      new.category = nullif(trim(new.category), '');
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists assign_products_category on public.products;
+create trigger assign_products_category
+before insert or update of category, category_id on public.products
+for each row execute function public.assign_product_category();
+
+create or replace function public.category_product_counts(
+  min_price_cents integer default null,
+  max_price_cents integer default null
+)
+returns table (category_id uuid, products bigint) as $$
+  select p.category_id, count(*) as products
+  from public.products p
+  where p.category_id is not null
+    and public.is_published(p.is_active, p.publish_at, p.expire_at)
+    and (min_price_cents is null or p.price_cents >= min_price_cents)
+    and (max_price_cents is null or p.price_cents <= max_price_cents)
+  group by p.category_id;
+$$ language sql stable;
+
+create or replace function public.check_category_parent()
+returns trigger as $$
+begin
+  if new.parent_id is not null and exists (
+    with recursive ancestors as (
+      select c.id, c.parent_id
+      from public.categories c
+      where c.id = new.parent_id
+      union
+      select c.id, c.parent_id
+      from public.categories c
+      join ancestors a on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'category_cycle';
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists check_categories_parent on public.categories;
+create trigger check_categories_parent
+before insert or update of parent_id on public.categories
+for each row execute function public.check_category_parent();
+
+create or replace function public.propagate_category_changes()
+returns trigger as $$
+begin
+  if tg_op = 'DELETE' then
+    delete from public.category_rules where category = old.name;
+    update public.products
+    set category_suggestion = null, category_confidence = null
+    where category_suggestion = old.name;
+    return old;
+  end if;
+
+  if new.name is distinct from old.name then
+    update public.products set category = new.name where category_id = new.id;
+    update public.category_rules set category = new.name where category = old.name;
+    update public.products
+    set category_suggestion = new.name
+    where category_suggestion = old.name;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists propagate_categories_changes on public.categories;
+create trigger propagate_categories_changes
+after update of name or delete on public.categories
+for each row execute function public.propagate_category_changes();
+
+create or replace function public.normalize_search_text(value text)
+returns text as $$
+  select lower(public.unaccent('public.unaccent'::regdictionary, trim(coalesce(value, ''))));
+$$ language sql immutable parallel safe;
+
+create or replace function public.build_product_search_vector(
+  title text,
+  description_short text,
+  tags text[],
+  category text,
+  store_name text
+)
+returns tsvector as $$
+  select
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', array_to_string(coalesce(tags, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(store_name, '')), 'C') ||
+    setweight(to_tsvector('public.portuguese_unaccent', coalesce(description_short, '')), 'D');
+$$ language sql immutable;
+
+create or replace function public.set_product_search_vector()
+returns trigger as $$
+begin
+  new.search_vector = public.build_product_search_vector(
+    new.title,
+    new.description_short,
+    new.tags,
+    new.category,
+    new.store_name
+  );
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists set_products_search_vector on public.products;
+create trigger set_products_search_vector
+before insert or update of title, description_short, tags, category, category_id, store_name
+on public.products
+for each row execute function public.set_product_search_vector();
+
+create index if not exists products_search_vector_idx
+  on public.products using gin (search_vector);
+create index if not exists products_title_trgm_idx
+  on public.products using gin (public.normalize_search_text(title) gin_trgm_ops);
+
+create or replace function public.search_products(search_query text)
+returns setof public.products as $$
+  with input as (
+    select
+      websearch_to_tsquery('public.portuguese_unaccent', coalesce(search_query, '')) as tsq,
+      public.normalize_search_text(search_query) as term
+  )
+  select p.*
+  from public.products p
+  cross join input
+  where public.is_published(p.is_active, p.publish_at, p.expire_at)
+    and input.term <> ''
+    and (
+      p.search_vector @@ input.tsq
+      or input.term <% public.normalize_search_text(p.title)
+    )
+  order by
+    ts_rank_cd(p.search_vector, input.tsq) desc,
+    word_similarity(input.term, public.normalize_search_text(p.title)) desc,
+    p.click_count desc,
+    p.id;
+$$ language sql stable;
+
+create or replace function public.slugify_tag(value text)
+returns text as $$
+  select left(
+    trim(both '-' from regexp_replace(public.normalize_search_text(value), '[^a-z0-9]+', '-', 'g')),
+    80
+  );
+$$ language sql immutable parallel safe;
+
+create or replace function public.tag_stats()
+returns table (tag text, slug text, products bigint, published bigint) as $$
+  select
+    t.tag,
+    public.slugify_tag(t.tag) as slug,
+    count(*) as products,
+    count(*) filter (
+      where public.is_published(p.is_active, p.publish_at, p.expire_at)
+    ) as published
+  from public.products p
+  cross join lateral unnest(p.tags) as t (tag)
+  where trim(t.tag) <> ''
+  group by t.tag
+  order by products desc, t.tag;
+$$ language sql stable;
+
+create or replace function public.tag_variants(tag_slug text)
+returns table (tag text, published bigint) as $$
+  select t.tag, count(*) as published
+  from public.products p
+  cross join lateral unnest(p.tags) as t (tag)
+  where public.is_published(p.is_active, p.publish_at, p.expire_at)
+    and public.slugify_tag(t.tag) = tag_slug
+  group by t.tag
+  order by published desc, t.tag;
+$$ language sql stable;
+
+create or replace function public.replace_product_tags(
+  source_tags text[],
+  target_tag text default null
+)
+returns integer as $$
+  with updated as (
+    update public.products p
+    set tags = coalesce((
+      select array_agg(merged.tag order by merged.position)
+      from (
+        select renamed.tag, min(renamed.position) as position
+        from (
+          select
+            case
+              when u.tag = any(source_tags) then nullif(trim(target_tag), '')
+              else u.tag
+            end as tag,
+            u.position
+          from unnest(p.tags) with ordinality as u (tag, position)
+        ) renamed
+        where renamed.tag is not null
+        group by renamed.tag
+      ) merged
+    ), '{}')
+    where p.tags && source_tags
+    returning 1
+  )
+  select count(*)::integer from updated;
+$$ language sql;
+
 drop trigger if exists set_collections_updated_at on public.collections;
 create trigger set_collections_updated_at
 before update on public.collections
@@ -154,9 +891,99 @@ create trigger set_home_banners_updated_at
 before update on public.home_banners
 for each row execute function public.set_updated_at();
 
+drop trigger if exists set_campaigns_updated_at on public.campaigns;
+create trigger set_campaigns_updated_at
+before update on public.campaigns
+for each row execute function public.set_updated_at();
+
+drop trigger if exists set_short_links_updated_at on public.short_links;
+create trigger set_short_links_updated_at
+before update on public.short_links
+for each row execute function public.set_updated_at();
+
+drop trigger if exists set_category_rules_updated_at on public.category_rules;
+create trigger set_category_rules_updated_at
+before update on public.category_rules
+for each row execute function public.set_updated_at();
+
+drop trigger if exists set_categories_updated_at on public.categories;
+create trigger set_categories_updated_at
+before update on public.categories
+for each row execute function public.set_updated_at();
+
+drop function if exists public.increment_short_link_clicks(uuid);
+
+create or replace function public.increment_short_link_clicks()
+returns trigger as $$
+begin
+  if new.short_link_id is null or new.is_bot or not new.is_unique then
+    return new;
+  end if;
+
+  update public.short_links
+  set click_count = click_count + 1
+  where id = new.short_link_id;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists increment_short_link_clicks on public.outbound_clicks;
+create trigger increment_short_link_clicks
+after insert on public.outbound_clicks
+for each row execute function public.increment_short_link_clicks();
+
+create or replace function public.set_click_campaign()
+returns trigger as $$
+begin
+  if new.campaign_id is null and new.camp is not null then
+    select c.id
+    into new.campaign_id
+    from public.campaigns c
+    where c.slug = new.camp;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists set_click_campaign on public.outbound_clicks;
+create trigger set_click_campaign
+before insert on public.outbound_clicks
+for each row execute function public.set_click_campaign();
+
+create or replace function public.classify_outbound_click()
+returns trigger as $$
+begin
+  if new.is_bot then
+    new.is_unique = false;
+  elsif new.visitor_hash is not null then
+    new.is_unique = not exists (
+      select 1
+      from public.outbound_clicks c
+      where (
+          c.product_id = new.product_id
+          or (new.product_id is null and c.short_link_id = new.short_link_id)
+        )
+        and c.visitor_hash = new.visitor_hash
+        and c.is_bot = false
+        and c.created_at > now() - interval '30 minutes'
+    );
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists classify_outbound_click on public.outbound_clicks;
+create trigger classify_outbound_click
+before insert on public.outbound_clicks
+for each row execute function public.classify_outbound_click();
+
 create or replace function public.increment_product_clicks()
 returns trigger as $$
 begin
+  if new.is_bot or not new.is_unique then
+    return new;
+  end if;
+
   update public.products
   set click_count = coalesce(click_count, 0) + 1
   where id = new.product_id;
@@ -169,75 +996,357 @@ create trigger increment_product_clicks
 after insert on public.outbound_clicks
 for each row execute function public.increment_product_clicks();
 
+create or replace function public.refresh_product_price_stats()
+returns trigger as $$
+declare
+  last_price numeric(12, 2);
+begin
+  if new.price is null then
+    return new;
+  end if;
+
+  select ph.price
+  into last_price
+  from public.price_history ph
+  where ph.product_id = new.product_id
+    and ph.id <> new.id
+    and ph.price is not null
+    and ph.recorded_at <= new.recorded_at
+  order by ph.recorded_at desc
+  limit 1;
+
+  update public.products
+  set
+    previous_price = case
+      when last_price is not null and last_price <> new.price then last_price
+      else previous_price
+    end,
+    price_changed_at = case
+      when last_price is not null and last_price <> new.price then new.recorded_at
+      else price_changed_at
+    end,
+    lowest_price_30d = (
+      select min(ph.price)
+      from public.price_history ph
+      where ph.product_id = new.product_id
+        and ph.recorded_at >= new.recorded_at - interval '30 days'
+        and ph.recorded_at <= new.recorded_at
+    )
+  where id = new.product_id;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists refresh_product_price_stats on public.price_history;
+create trigger refresh_product_price_stats
+after insert on public.price_history
+for each row execute function public.refresh_product_price_stats();
+
+create or replace function public.product_lowest_price_30d(target_product_id uuid)
+returns numeric as $$
+  select min(ph.price)
+  from public.price_history ph
+  join public.products p on p.id = ph.product_id
+  where ph.product_id = target_product_id
+    and p.is_active
+    and ph.recorded_at >= now() - interval '30 days';
+$$ language sql stable security definer set search_path = public;
+
+create index if not exists outbound_clicks_created_at_idx on public.outbound_clicks (created_at);
+
+create or replace function public.click_stats_daily(start_at timestamptz, end_at timestamptz)
+returns table (day date, clicks bigint) as $$
+  select
+    days.day::date as day,
+    count(c.id) as clicks
+  from generate_series(
+    date_trunc('day', start_at),
+    date_trunc('day', end_at - interval '1 second'),
+    interval '1 day'
+  ) as days (day)
+  left join public.outbound_clicks c
+    on c.created_at >= days.day
+    and c.created_at < days.day + interval '1 day'
+    and c.created_at >= start_at
+    and c.created_at < end_at
+    and c.is_unique = true
+  group by days.day
+  order by days.day;
+$$ language sql stable;
+
+create or replace function public.click_stats_by_product(
+  start_at timestamptz,
+  end_at timestamptz,
+  result_limit integer default 20
+)
+returns table (
+  product_id uuid,
+  title text,
+  slug text,
+  category text,
+  clicks bigint
+) as $$
+  select p.id, p.title, p.slug, p.category, count(c.id) as clicks
+  from public.outbound_clicks c
+  join public.products p on p.id = c.product_id
+  where c.created_at >= start_at
+    and c.created_at < end_at
+    and c.is_unique = true
+  group by p.id, p.title, p.slug, p.category
+  order by clicks desc, p.title
+  limit result_limit;
+$$ language sql stable;
+
+create or replace function public.click_stats_by_dimension(
+  dimension text,
+  start_at timestamptz,
+  end_at timestamptz
+)
+returns table (label text, clicks bigint) as $$
+  select
+    case dimension
+      when 'category' then coalesce(nullif(p.category, ''), 'Sem categoria')
+      when 'src' then coalesce(nullif(c.src, ''), '(sem src)')
+      when 'camp' then coalesce(nullif(c.camp, ''), '(sem camp)')
+    end as label,
+    count(c.id) as clicks
+  from public.outbound_clicks c
+  join public.products p on p.id = c.product_id
+  where dimension in ('category', 'src', 'camp')
+    and c.created_at >= start_at
+    and c.created_at < end_at
+    and c.is_unique = true
+  group by 1
+  order by clicks desc, label;
+$$ language sql stable;
+
+create or replace function public.click_top_movers(
+  reference_at timestamptz default now(),
+  result_limit integer default 10
+)
+returns table (
+  product_id uuid,
+  title text,
+  slug text,
+  this_week bigint,
+  last_week bigint,
+  delta bigint
+) as $$
+  select
+    p.id,
+    p.title,
+    p.slug,
+    count(c.id) filter (where c.created_at >= reference_at - interval '7 days') as this_week,
+    count(c.id) filter (where c.created_at < reference_at - interval '7 days') as last_week,
+    count(c.id) filter (where c.created_at >= reference_at - interval '7 days')
+      - count(c.id) filter (where c.created_at < reference_at - interval '7 days') as delta
+  from public.outbound_clicks c
+  join public.products p on p.id = c.product_id
+  where c.created_at >= reference_at - interval '14 days'
+    and c.created_at < reference_at
+    and c.is_unique = true
+  group by p.id, p.title, p.slug
+  order by delta desc, this_week desc, p.title
+  limit result_limit;
+$$ language sql stable;
+
+create or replace function public.current_admin_role()
+returns text as $$
+  select role from public.admin_users where user_id = auth.uid();
+$$ language sql stable security definer set search_path = public;
+
+create or replace function public.is_admin_reader()
+returns boolean as $$
+  select public.current_admin_role() is not null;
+$$ language sql stable;
+
+create or replace function public.is_admin_editor()
+returns boolean as $$
+  select coalesce(public.current_admin_role() in ('owner', 'editor'), false);
+$$ language sql stable;
+
+create or replace function public.is_admin_owner()
+returns boolean as $$
+  select coalesce(public.current_admin_role() = 'owner', false);
+$$ language sql stable;
+
+create or replace function public.write_audit_log()
+returns trigger as $$
+declare
+  before_row jsonb;
+  after_row jsonb;
+  changed text[] := '{}';
+  actor uuid := auth.uid();
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    before_row = to_jsonb(old) - 'search_vector';
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    after_row = to_jsonb(new) - 'search_vector';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(a.key order by a.key), '{}')
+    into changed
+    from jsonb_each(after_row) a
+    where a.value is distinct from before_row -> a.key
+      and a.key not in (
+        'updated_at',
+        'click_count',
+        'price_cents',
+        'previous_price',
+        'price_changed_at',
+        'lowest_price_30d',
+        'link_status',
+        'link_http_status',
+        'link_error',
+        'link_checked_at',
+        'link_failure_streak',
+        'enrichment',
+        'enriched_at',
+        'category_suggestion',
+        'category_confidence'
+      );
+
+    if cardinality(changed) = 0 then
+      return new;
+    end if;
+  end if;
+
+  insert into public.audit_log (
+    actor_id,
+    actor_email,
+    table_name,
+    row_id,
+    action,
+    before_data,
+    after_data,
+    changed_fields
+  )
+  values (
+    actor,
+    (select u.email from auth.users u where u.id = actor),
+    tg_table_name,
+    (coalesce(after_row, before_row) ->> 'id')::uuid,
+    lower(tg_op),
+    before_row,
+    after_row,
+    changed
+  );
+
+  return coalesce(new, old);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists audit_products on public.products;
+create trigger audit_products
+after insert or update or delete on public.products
+for each row execute function public.write_audit_log();
+
+drop trigger if exists audit_categories on public.categories;
+create trigger audit_categories
+after insert or update or delete on public.categories
+for each row execute function public.write_audit_log();
+
+drop trigger if exists audit_collections on public.collections;
+create trigger audit_collections
+after insert or update or delete on public.collections
+for each row execute function public.write_audit_log();
+
+drop trigger if exists audit_collection_items on public.collection_items;
+create trigger audit_collection_items
+after insert or update or delete on public.collection_items
+for each row execute function public.write_audit_log();
+
+drop trigger if exists audit_home_banners on public.home_banners;
+create trigger audit_home_banners
+after insert or update or delete on public.home_banners
+for each row execute function public.write_audit_log();
+
+drop trigger if exists audit_product_copies on public.product_copies;
+create trigger audit_product_copies
+after insert or update or delete on public.product_copies
+for each row execute function public.write_audit_log();
+
 alter table public.products enable row level security;
+alter table public.admin_users enable row level security;
 alter table public.product_copies enable row level security;
 alter table public.outbound_clicks enable row level security;
 alter table public.collections enable row level security;
 alter table public.collection_items enable row level security;
 alter table public.home_banners enable row level security;
+alter table public.product_commission_history enable row level security;
+alter table public.price_history enable row level security;
+alter table public.campaigns enable row level security;
+alter table public.short_links enable row level security;
+alter table public.audit_log enable row level security;
+alter table public.import_jobs enable row level security;
+alter table public.import_job_rows enable row level security;
+alter table public.category_rules enable row level security;
+alter table public.categories enable row level security;
 
 create policy "Public read active products"
 on public.products for select
-using (is_active = true);
+using (public.is_published(is_active, publish_at, expire_at));
 
-create policy "Authenticated read products"
+create policy "Admin read products"
 on public.products for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
 
-create policy "Authenticated insert products"
+create policy "Admin insert products"
 on public.products for insert
-with check (auth.role() = 'authenticated');
+with check (public.is_admin_editor());
 
-create policy "Authenticated update products"
+create policy "Admin update products"
 on public.products for update
-using (auth.role() = 'authenticated')
-with check (auth.role() = 'authenticated');
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
 
-create policy "Authenticated delete products"
+create policy "Admin delete products"
 on public.products for delete
-using (auth.role() = 'authenticated');
+using (public.is_admin_editor());
 
 create policy "Public read active home banners"
 on public.home_banners for select
-using (is_active = true);
+using (public.is_published(is_active, publish_at, expire_at));
 
-create policy "Authenticated read home banners"
+create policy "Admin read home banners"
 on public.home_banners for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
 
-create policy "Authenticated insert home banners"
+create policy "Admin insert home banners"
 on public.home_banners for insert
-with check (auth.role() = 'authenticated');
+with check (public.is_admin_editor());
 
-create policy "Authenticated update home banners"
+create policy "Admin update home banners"
 on public.home_banners for update
-using (auth.role() = 'authenticated')
-with check (auth.role() = 'authenticated');
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
 
-create policy "Authenticated delete home banners"
+create policy "Admin delete home banners"
 on public.home_banners for delete
-using (auth.role() = 'authenticated');
+using (public.is_admin_editor());
 
 create policy "Public read active collections"
 on public.collections for select
-using (is_active = true);
+using (public.is_published(is_active, publish_at, expire_at));
 
-create policy "Authenticated read collections"
+create policy "Admin read collections"
 on public.collections for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
 
-create policy "Authenticated insert collections"
+create policy "Admin insert collections"
 on public.collections for insert
-with check (auth.role() = 'authenticated');
+with check (public.is_admin_editor());
 
-create policy "Authenticated update collections"
+create policy "Admin update collections"
 on public.collections for update
-using (auth.role() = 'authenticated')
-with check (auth.role() = 'authenticated');
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
 
-create policy "Authenticated delete collections"
+create policy "Admin delete collections"
 on public.collections for delete
-using (auth.role() = 'authenticated');
+using (public.is_admin_editor());
 
 create policy "Public read collection items"
 on public.collection_items for select
@@ -246,43 +1355,164 @@ using (
     select 1
     from public.collections c
     where c.id = collection_id
-      and c.is_active = true
+      and public.is_published(c.is_active, c.publish_at, c.expire_at)
   )
 );
 
-create policy "Authenticated read collection items"
+create policy "Admin read collection items"
 on public.collection_items for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
 
-create policy "Authenticated insert collection items"
+create policy "Admin insert collection items"
 on public.collection_items for insert
-with check (auth.role() = 'authenticated');
+with check (public.is_admin_editor());
 
-create policy "Authenticated update collection items"
+create policy "Admin update collection items"
 on public.collection_items for update
-using (auth.role() = 'authenticated')
-with check (auth.role() = 'authenticated');
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
 
-create policy "Authenticated delete collection items"
+create policy "Admin delete collection items"
 on public.collection_items for delete
-using (auth.role() = 'authenticated');
+using (public.is_admin_editor());
 
-create policy "Authenticated read copies"
+create policy "Admin read copies"
 on public.product_copies for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
 
-create policy "Authenticated insert copies"
+create policy "Admin insert copies"
 on public.product_copies for insert
-with check (auth.role() = 'authenticated');
+with check (public.is_admin_editor());
 
-create policy "Authenticated delete copies"
+create policy "Admin delete copies"
 on public.product_copies for delete
-using (auth.role() = 'authenticated');
+using (public.is_admin_editor());
 
 create policy "Public insert clicks"
 on public.outbound_clicks for insert
 with check (true);
 
-create policy "Authenticated read clicks"
+create policy "Admin read clicks"
 on public.outbound_clicks for select
-using (auth.role() = 'authenticated');
+using (public.is_admin_reader());
+
+create policy "Admin read commission history"
+on public.product_commission_history for select
+using (public.is_admin_reader());
+
+create policy "Admin insert commission history"
+on public.product_commission_history for insert
+with check (public.is_admin_editor());
+
+create policy "Admin read price history"
+on public.price_history for select
+using (public.is_admin_reader());
+
+create policy "Admin insert price history"
+on public.price_history for insert
+with check (public.is_admin_editor());
+
+create policy "Admin read campaigns"
+on public.campaigns for select
+using (public.is_admin_reader());
+
+create policy "Admin insert campaigns"
+on public.campaigns for insert
+with check (public.is_admin_editor());
+
+create policy "Admin update campaigns"
+on public.campaigns for update
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
+
+create policy "Admin delete campaigns"
+on public.campaigns for delete
+using (public.is_admin_editor());
+
+create policy "Public read active short links"
+on public.short_links for select
+using (is_active = true);
+
+create policy "Admin read short links"
+on public.short_links for select
+using (public.is_admin_reader());
+
+create policy "Admin insert short links"
+on public.short_links for insert
+with check (public.is_admin_editor());
+
+create policy "Admin update short links"
+on public.short_links for update
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
+
+create policy "Admin delete short links"
+on public.short_links for delete
+using (public.is_admin_editor());
+
+create policy "Admin read own role"
+on public.admin_users for select
+using (user_id = auth.uid() or public.is_admin_owner());
+
+create policy "Owner insert admin users"
+on public.admin_users for insert
+with check (public.is_admin_owner());
+
+create policy "Owner update admin users"
+on public.admin_users for update
+using (public.is_admin_owner())
+with check (public.is_admin_owner());
+
+create policy "Owner delete admin users"
+on public.admin_users for delete
+using (public.is_admin_owner());
+
+create policy "Admin read audit log"
+on public.audit_log for select
+using (public.is_admin_reader());
+
+create policy "Admin read import jobs"
+on public.import_jobs for select
+using (public.is_admin_reader());
+
+create policy "Admin read import job rows"
+on public.import_job_rows for select
+using (public.is_admin_reader());
+
+create policy "Admin read category rules"
+on public.category_rules for select
+using (public.is_admin_reader());
+
+create policy "Admin insert category rules"
+on public.category_rules for insert
+with check (public.is_admin_editor());
+
+create policy "Admin update category rules"
+on public.category_rules for update
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
+
+create policy "Admin delete category rules"
+on public.category_rules for delete
+using (public.is_admin_editor());
+
+create policy "Public read active categories"
+on public.categories for select
+using (is_active);
+
+create policy "Admin read categories"
+on public.categories for select
+using (public.is_admin_reader());
+
+create policy "Admin insert categories"
+on public.categories for insert
+with check (public.is_admin_editor());
+
+create policy "Admin update categories"
+on public.categories for update
+using (public.is_admin_editor())
+with check (public.is_admin_editor());
+
+create policy "Admin delete categories"
+on public.categories for delete
+using (public.is_admin_editor());